@@ -0,0 +1,58 @@
+/**
+ * Rolling window of recent utterances per conversation session
+ * Speech arrives in short chunks, so an introduction is often split across two of them
+ * ("This is my daughter." / "Her name is Sarah"). The window remembers which suggestions
+ * each recent utterance produced so a later chunk can complete them.
+ */
+
+export interface ContextUtterance {
+  transcript: string;
+  timestamp: number;
+  suggestionIds: string[]; // suggestions created from this utterance
+}
+
+const sessions = new Map<string, ContextUtterance[]>();
+const CONTEXT_WINDOW_MS = 30 * 1000; // 30 seconds
+const MAX_UTTERANCES = 6;
+
+function sessionKey(patientId: string, sessionId: string): string {
+  return `${patientId}:${sessionId}`;
+}
+
+/**
+ * Drop utterances older than the window, and sessions left empty
+ */
+function pruneSessions(now: number): void {
+  for (const [key, utterances] of sessions) {
+    const recent = utterances.filter((u) => now - u.timestamp < CONTEXT_WINDOW_MS);
+    if (recent.length > 0) {
+      sessions.set(key, recent);
+    } else {
+      sessions.delete(key);
+    }
+  }
+}
+
+/**
+ * Recent utterances of a session, oldest first
+ */
+export function getRecentUtterances(patientId: string, sessionId: string): ContextUtterance[] {
+  pruneSessions(Date.now());
+  return sessions.get(sessionKey(patientId, sessionId)) ?? [];
+}
+
+/**
+ * Add an utterance (and the suggestions created from it) to a session's window
+ */
+export function recordUtterance(
+  patientId: string,
+  sessionId: string,
+  transcript: string,
+  suggestionIds: string[]
+): void {
+  const now = Date.now();
+  pruneSessions(now);
+  const key = sessionKey(patientId, sessionId);
+  const utterances = [...(sessions.get(key) ?? []), { transcript, timestamp: now, suggestionIds }];
+  sessions.set(key, utterances.slice(-MAX_UTTERANCES));
+}
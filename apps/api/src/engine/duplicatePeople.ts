@@ -0,0 +1,65 @@
+import type { Person, PersonDuplicate } from "@cuelens/shared";
+import { findPersonMatch, nameSimilarity } from "./personMatching.js";
+import { resolveRelationshipLabel, resolveRelationshipTerm } from "./relationships.js";
+
+// Relatives a patient normally has only one of (canonical terms)
+// Two people standing for the same one are almost certainly the same human.
+const UNIQUE_RELATIONSHIPS = new Set(["mother", "father", "wife", "husband"]);
+
+/**
+ * Normalized relationship of a person to the patient, also read from their name ("Mom"
+ * created from a relationship suggestion); aliases of one relative map to one canonical term
+ */
+function relationshipOf(person: Person): string | undefined {
+  const edge = person.relationships.find((r) => !r.personId);
+  if (!edge) {
+    return resolveRelationshipTerm(person.displayName)?.term;
+  }
+  const label = edge.label?.trim();
+  return label ? (resolveRelationshipLabel(label)?.term ?? label.toLowerCase()) : edge.type;
+}
+
+function surname(name: string): string | undefined {
+  const parts = name.trim().toLowerCase().split(/\s+/);
+  return parts.length > 1 ? parts[parts.length - 1] : undefined;
+}
+
+// "Om Patel" / "Om Shah" share a first name but are clearly different people
+function haveDifferentSurnames(a: Person, b: Person): boolean {
+  const aSurname = surname(a.displayName);
+  const bSurname = surname(b.displayName);
+  return !!aSurname && !!bSurname && nameSimilarity(aSurname, bSurname) < 0.8;
+}
+
+/**
+ * Pairs of people that are likely the same human, strongest first
+ * Names are compared with the same matcher used for spoken names, so nickname, phonetic
+ * and spelling matches count. People with different relationships are never paired.
+ */
+export function findDuplicatePeople(people: Person[]): PersonDuplicate[] {
+  const duplicates: PersonDuplicate[] = [];
+
+  people.forEach((person, i) => {
+    for (const other of people.slice(i + 1)) {
+      const relationship = relationshipOf(person);
+      const otherRelationship = relationshipOf(other);
+      if (relationship && otherRelationship && relationship !== otherRelationship) continue;
+
+      const nameMatch = haveDifferentSurnames(person, other)
+        ? undefined
+        : findPersonMatch(person.displayName, [other]);
+      if (nameMatch) {
+        duplicates.push({
+          personId: person.id,
+          duplicateId: other.id,
+          reason: nameMatch.kind,
+          score: nameMatch.score,
+        });
+      } else if (relationship && relationship === otherRelationship && UNIQUE_RELATIONSHIPS.has(relationship)) {
+        duplicates.push({ personId: person.id, duplicateId: other.id, reason: "relationship", score: 0.8 });
+      }
+    }
+  });
+
+  return duplicates.sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,32 @@
+import type { ExtractionFixture } from "./fakeProvider.js";
+
+/**
+ * Built-in replies for the fake provider, used when SUGGESTION_LLM_FIXTURES_PATH is not set
+ * Covers phrasings the regex engine misses.
+ */
+export const DEFAULT_FIXTURES: readonly ExtractionFixture[] = [
+  {
+    match: "grandpa joe",
+    suggestions: [
+      {
+        type: "identify_person",
+        text: 'Possible person: "Joe" (Grandpa). Approve to add as a person?',
+        related: {},
+        proposed: { displayName: "Joe", relationship: "grandpa" },
+        evidence: { transcriptSnippet: "Grandpa Joe's coming over", confidence: 0.82 },
+      },
+    ],
+  },
+  {
+    match: "dr. patel",
+    suggestions: [
+      {
+        type: "identify_person",
+        text: 'Possible person: "Dr. Patel" (Doctor). Approve to add as a person?',
+        related: {},
+        proposed: { displayName: "Dr. Patel", relationship: "doctor" },
+        evidence: { transcriptSnippet: "you remember Dr. Patel", confidence: 0.8 },
+      },
+    ],
+  },
+];
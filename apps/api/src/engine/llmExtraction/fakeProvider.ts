@@ -0,0 +1,59 @@
+import { readFileSync } from "fs";
+import { z } from "zod";
+import type { SuggestionModelProvider } from "./types.js";
+import { DEFAULT_FIXTURES } from "./defaultFixtures.js";
+
+/**
+ * Canned model reply: returned whenever `match` appears in the transcript (case-insensitive)
+ * `suggestions` is left unvalidated so fixtures can also exercise malformed model output.
+ */
+const ExtractionFixtureSchema = z.object({
+  match: z.string().min(1),
+  suggestions: z.array(z.unknown()),
+});
+
+export type ExtractionFixture = z.infer<typeof ExtractionFixtureSchema>;
+
+/**
+ * Load a fixture file: a JSON array of { match, suggestions }
+ */
+export function loadFixturesFile(path: string): ExtractionFixture[] {
+  return z.array(ExtractionFixtureSchema).parse(JSON.parse(readFileSync(path, "utf8")));
+}
+
+/**
+ * Resolve fixtures from SUGGESTION_LLM_FIXTURES_PATH, falling back to the built-in set
+ */
+export function getConfiguredFixtures(): readonly ExtractionFixture[] {
+  const path = process.env.SUGGESTION_LLM_FIXTURES_PATH;
+  if (!path) {
+    return DEFAULT_FIXTURES;
+  }
+  try {
+    const fixtures = loadFixturesFile(path);
+    console.log(`[llm] Loaded ${fixtures.length} extractor fixtures from ${path}`);
+    return fixtures;
+  } catch (error) {
+    console.error(`[llm] ❌ Could not read SUGGESTION_LLM_FIXTURES_PATH ${path}, using built-in fixtures:`, error);
+    return DEFAULT_FIXTURES;
+  }
+}
+
+/**
+ * Offline stand-in for a chat model: replies with every fixture matching the latest transcript
+ * Deterministic, so the LLM extraction path can be developed and tested without network access.
+ */
+export function createFakeProvider(
+  fixtures: readonly ExtractionFixture[] = getConfiguredFixtures()
+): SuggestionModelProvider {
+  return {
+    id: "fake",
+    extract({ transcript }) {
+      const lower = transcript.toLowerCase();
+      const suggestions = fixtures
+        .filter((fixture) => lower.includes(fixture.match.toLowerCase()))
+        .flatMap((fixture) => fixture.suggestions);
+      return Promise.resolve({ suggestions });
+    },
+  };
+}
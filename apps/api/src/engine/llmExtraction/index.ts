@@ -0,0 +1,102 @@
+import type { SuggestionCreate } from "@cuelens/shared";
+import { SuggestionCreateSchema } from "@cuelens/shared";
+import { z } from "zod";
+import type { ExtractionRequest, SuggestionModelProvider } from "./types.js";
+import { createOpenAIProvider } from "./openaiProvider.js";
+import { createFakeProvider } from "./fakeProvider.js";
+
+export type { ExtractionRequest, SuggestionModelProvider } from "./types.js";
+export { createOpenAIProvider } from "./openaiProvider.js";
+export { createFakeProvider, loadFixturesFile, type ExtractionFixture } from "./fakeProvider.js";
+
+// Providers selectable via SUGGESTION_LLM_PROVIDER; register new ones here
+const PROVIDER_FACTORIES: Record<string, () => SuggestionModelProvider> = {
+  openai: createOpenAIProvider,
+  fake: createFakeProvider,
+};
+
+export type ExtractorMode = "regex" | "llm" | "both";
+
+export interface ExtractorConfig {
+  mode: ExtractorMode;
+  provider?: SuggestionModelProvider; // Set unless mode is "regex"
+}
+
+let cachedConfig: ExtractorConfig | undefined;
+
+/**
+ * Suggestion extractor settings from the environment (read once)
+ * SUGGESTION_EXTRACTOR picks the regex engine, the LLM extractor or both;
+ * SUGGESTION_LLM_PROVIDER picks the model provider ("openai", or "fake" for offline fixtures).
+ */
+export function getExtractorConfig(): ExtractorConfig {
+  if (cachedConfig) {
+    return cachedConfig;
+  }
+  const mode = (process.env.SUGGESTION_EXTRACTOR || "regex").toLowerCase();
+  if (mode !== "regex" && mode !== "llm" && mode !== "both") {
+    throw new Error(`Invalid SUGGESTION_EXTRACTOR "${mode}". Must be 'regex', 'llm' or 'both'`);
+  }
+  if (mode === "regex") {
+    cachedConfig = { mode };
+    return cachedConfig;
+  }
+
+  const providerId = (process.env.SUGGESTION_LLM_PROVIDER || "openai").toLowerCase();
+  const factory = PROVIDER_FACTORIES[providerId];
+  if (!factory) {
+    throw new Error(
+      `Unknown SUGGESTION_LLM_PROVIDER "${providerId}". Available: ${Object.keys(PROVIDER_FACTORIES).join(", ")}`
+    );
+  }
+  cachedConfig = { mode, provider: factory() };
+  return cachedConfig;
+}
+
+const ModelReplySchema = z.object({ suggestions: z.array(z.unknown()) });
+
+/**
+ * Ask a model for suggestions and keep the entries that are valid SuggestionCreate payloads
+ * The server owns `related` and the frame reference, so those are replaced rather than trusted.
+ * Resolves undefined when the model call fails or its reply has the wrong shape.
+ */
+export async function extractSuggestions(
+  provider: SuggestionModelProvider,
+  request: ExtractionRequest,
+  ctx?: { visionEventId?: string; frameAssetId?: string }
+): Promise<SuggestionCreate[] | undefined> {
+  let reply: unknown;
+  try {
+    reply = await provider.extract(request);
+  } catch (error) {
+    console.error(`[llm] ❌ Provider ${provider.id} failed:`, error);
+    return undefined;
+  }
+
+  const parsed = ModelReplySchema.safeParse(reply);
+  if (!parsed.success) {
+    console.error(`[llm] ❌ Provider ${provider.id} returned an unexpected reply:`, parsed.error.errors);
+    return undefined;
+  }
+
+  const suggestions: SuggestionCreate[] = [];
+  for (const item of parsed.data.suggestions) {
+    const validation = SuggestionCreateSchema.safeParse(item);
+    if (!validation.success) {
+      console.warn(`[llm] ⚠️ Dropping invalid suggestion from ${provider.id}:`, validation.error.errors);
+      continue;
+    }
+    const suggestion = validation.data;
+    suggestions.push({
+      ...suggestion,
+      related: { visionEventId: ctx?.visionEventId },
+      evidence: {
+        ...suggestion.evidence,
+        transcriptSnippet: suggestion.evidence.transcriptSnippet ?? request.transcript,
+        frameAssetId: ctx?.frameAssetId,
+        duplicateFlag: undefined, // Decided against known people by the engine
+      },
+    });
+  }
+  return suggestions;
+}
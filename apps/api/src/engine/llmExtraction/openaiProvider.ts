@@ -0,0 +1,41 @@
+import OpenAI from "openai";
+import type { SuggestionModelProvider } from "./types.js";
+import { buildUserMessage, SUGGESTIONS_JSON_SCHEMA, SYSTEM_PROMPT } from "./prompt.js";
+
+const DEFAULT_MODEL = "gpt-4o-mini";
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * OpenAI chat model with a JSON-schema response format
+ * Model from SUGGESTION_LLM_MODEL (default gpt-4o-mini).
+ */
+export function createOpenAIProvider(): SuggestionModelProvider {
+  if (!process.env.OPENAI_API_KEY) {
+    throw new Error("SUGGESTION_LLM_PROVIDER=openai requires OPENAI_API_KEY");
+  }
+  const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY, timeout: REQUEST_TIMEOUT_MS });
+  const model = process.env.SUGGESTION_LLM_MODEL || DEFAULT_MODEL;
+
+  return {
+    id: "openai",
+    async extract(request) {
+      const completion = await openai.chat.completions.create({
+        model,
+        temperature: 0,
+        messages: [
+          { role: "system", content: SYSTEM_PROMPT },
+          { role: "user", content: buildUserMessage(request) },
+        ],
+        response_format: {
+          type: "json_schema",
+          json_schema: { name: "suggestions", schema: SUGGESTIONS_JSON_SCHEMA },
+        },
+      });
+      const content = completion.choices[0]?.message.content;
+      if (!content) {
+        throw new Error(`Model ${model} returned no content`);
+      }
+      return JSON.parse(content) as unknown;
+    },
+  };
+}
@@ -0,0 +1,59 @@
+import type { ExtractionRequest } from "./types.js";
+
+export const SYSTEM_PROMPT = `You help a memory-care app notice new people mentioned in conversation.
+Given the latest transcript from a conversation near the patient, the conversation just before it and the people the patient already knows, propose suggestions for a caregiver to review:
+- identify_person: someone named who is not already known. Put the name in proposed.displayName and, when the conversation says how they relate to the patient, the relationship word in proposed.relationship ("daughter", "grandpa").
+- relationship_suggestion: a relationship mentioned without a name ("my nurse is here"), in proposed.relationship.
+Only use what was said. Names of known people are not new. Titles stay with the name ("Dr. Patel"). Text is one short sentence ending with a question for the caregiver. evidence.transcriptSnippet quotes the words the suggestion is based on; evidence.confidence is 0-1. Return an empty list when nothing applies.`;
+
+/**
+ * User message for one extraction request
+ */
+export function buildUserMessage(request: ExtractionRequest): string {
+  return JSON.stringify({
+    transcript: request.transcript,
+    earlierInConversation: request.recentTranscripts,
+    knownPeople: request.people,
+  });
+}
+
+/**
+ * JSON schema for the model's reply: SuggestionCreate payloads without the fields the server fills in
+ */
+export const SUGGESTIONS_JSON_SCHEMA = {
+  type: "object",
+  properties: {
+    suggestions: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          type: { type: "string", enum: ["identify_person", "relationship_suggestion"] },
+          text: { type: "string" },
+          related: { type: "object", properties: {}, additionalProperties: false },
+          proposed: {
+            type: "object",
+            properties: {
+              displayName: { type: "string" },
+              relationship: { type: "string" },
+            },
+            additionalProperties: false,
+          },
+          evidence: {
+            type: "object",
+            properties: {
+              transcriptSnippet: { type: "string" },
+              confidence: { type: "number" },
+            },
+            required: ["transcriptSnippet", "confidence"],
+            additionalProperties: false,
+          },
+        },
+        required: ["type", "text", "related", "proposed", "evidence"],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ["suggestions"],
+  additionalProperties: false,
+} as const;
@@ -0,0 +1,17 @@
+/**
+ * What the suggestion extractor sends to a model for one transcript
+ */
+export interface ExtractionRequest {
+  transcript: string; // Latest final transcript chunk
+  recentTranscripts: string[]; // Earlier utterances of the same conversation, oldest first
+  people: Array<{ displayName: string; relationship?: string }>; // Known people for the patient
+}
+
+/**
+ * A chat model (or stand-in) that proposes suggestions for a transcript
+ * Returns the model's parsed JSON as-is; the extractor validates it before use.
+ */
+export interface SuggestionModelProvider {
+  id: string;
+  extract(request: ExtractionRequest): Promise<unknown>;
+}
@@ -0,0 +1,126 @@
+/**
+ * Built-in first-name list used when NAME_GAZETTEER_PATH is not set
+ * Deployments should point NAME_GAZETTEER_PATH at a list that fits their residents and visitors.
+ */
+export const DEFAULT_GAZETTEER: readonly string[] = [
+  "michael",
+  "john",
+  "jane",
+  "david",
+  "sarah",
+  "james",
+  "emily",
+  "robert",
+  "lisa",
+  "william",
+  "mary",
+  "richard",
+  "patricia",
+  "joseph",
+  "jennifer",
+  "thomas",
+  "linda",
+  "charles",
+  "elizabeth",
+  "christopher",
+  "barbara",
+  "daniel",
+  "susan",
+  "matthew",
+  "jessica",
+  "anthony",
+  "mark",
+  "karen",
+  "donald",
+  "nancy",
+  "steven",
+  "betty",
+  "paul",
+  "helen",
+  "andrew",
+  "sandra",
+  "joshua",
+  "donna",
+  "kenneth",
+  "carol",
+  "kevin",
+  "ruth",
+  "brian",
+  "sharon",
+  "george",
+  "michelle",
+  "edward",
+  "laura",
+  "ronald",
+  "timothy",
+  "kimberly",
+  "jason",
+  "deborah",
+  "jeffrey",
+  "dorothy",
+  "ryan",
+  "jacob",
+  "gary",
+  "nicholas",
+  "eric",
+  "jonathan",
+  "stephen",
+  "larry",
+  "justin",
+  "scott",
+  "brandon",
+  "benjamin",
+  "samuel",
+  "rachel",
+  "frank",
+  "cynthia",
+  "gregory",
+  "maria",
+  "raymond",
+  "stephanie",
+  "alexander",
+  "rebecca",
+  "patrick",
+  "jack",
+  "kathleen",
+  "dennis",
+  "anna",
+  "jerry",
+  "pamela",
+  "tyler",
+  "samantha",
+  "aaron",
+  "christine",
+  "jose",
+  "emma",
+  "henry",
+  "catherine",
+  "adam",
+  "frances",
+  "douglas",
+  "virginia",
+  "nathan",
+  "marie",
+  "zachary",
+  "janet",
+  "kyle",
+  "noah",
+  "alan",
+  "ann",
+  "juan",
+  "joyce",
+  "wayne",
+  "diane",
+  "roy",
+  "alice",
+  "ralph",
+  "julie",
+  "eugene",
+  "heather",
+  "louis",
+  "teresa",
+  "lawrence",
+  "doris",
+  "gloria",
+  "evelyn",
+];
@@ -0,0 +1,58 @@
+import { readFileSync } from "fs";
+import type { DetectedName, NameDetector } from "./types.js";
+import { DEFAULT_GAZETTEER } from "./defaultGazetteer.js";
+import { containsWord, toTitleCase } from "./textUtils.js";
+import { isRelationshipKeyword } from "../relationships.js";
+
+// A bare name in running speech is weaker evidence than "this is X"
+const GAZETTEER_CONFIDENCE = 0.6;
+
+/**
+ * Load a gazetteer file: one name per line, blank lines and "#" comments ignored
+ */
+export function loadGazetteerFile(path: string): string[] {
+  return readFileSync(path, "utf8")
+    .split("\n")
+    .map((line) => line.replace(/#.*$/, "").trim().toLowerCase())
+    .filter((line) => line.length > 0);
+}
+
+/**
+ * Resolve the gazetteer from NAME_GAZETTEER_PATH, falling back to the built-in list
+ */
+export function getConfiguredGazetteer(): readonly string[] {
+  const path = process.env.NAME_GAZETTEER_PATH;
+  if (!path) {
+    return DEFAULT_GAZETTEER;
+  }
+  try {
+    const names = loadGazetteerFile(path);
+    console.log(`[names] Loaded ${names.length} gazetteer names from ${path}`);
+    return names;
+  } catch (error) {
+    console.error(`[names] ❌ Could not read NAME_GAZETTEER_PATH ${path}, using built-in list:`, error);
+    return DEFAULT_GAZETTEER;
+  }
+}
+
+/**
+ * Detector for known first names appearing anywhere in the transcript
+ */
+export function createGazetteerDetector(names: readonly string[] = getConfiguredGazetteer()): NameDetector {
+  const unique = Array.from(new Set(names.map((n) => n.toLowerCase()))).filter(
+    (n) => !isRelationshipKeyword(n)
+  );
+  return {
+    id: "gazetteer",
+    rank: 2,
+    detect({ transcript }) {
+      const results: DetectedName[] = [];
+      for (const name of unique) {
+        if (containsWord(transcript, name)) {
+          results.push({ name: toTitleCase(name), confidence: GAZETTEER_CONFIDENCE });
+        }
+      }
+      return results;
+    },
+  };
+}
@@ -0,0 +1,61 @@
+import type { NameCandidate, NameDetectionContext, NameDetector } from "./types.js";
+import { createKnownPeopleDetector } from "./knownPeopleDetector.js";
+import { createPatternDetector } from "./patternDetector.js";
+import { createGazetteerDetector } from "./gazetteerDetector.js";
+
+export type { DetectedName, NameCandidate, NameDetectionContext, NameDetector } from "./types.js";
+export { createKnownPeopleDetector } from "./knownPeopleDetector.js";
+export { createPatternDetector, DEFAULT_NAME_PATTERNS, type NamePattern } from "./patternDetector.js";
+export { createGazetteerDetector, loadGazetteerFile } from "./gazetteerDetector.js";
+export { toTitleCase } from "./textUtils.js";
+
+/**
+ * Default detector set: known people, introduction phrases, gazetteer
+ */
+export function createDefaultDetectors(): NameDetector[] {
+  return [createKnownPeopleDetector(), createPatternDetector(), createGazetteerDetector()];
+}
+
+/**
+ * Run every detector and merge their outputs by name (case-insensitive)
+ *
+ * When several detectors find the same name their confidences are combined as independent
+ * evidence (1 - Π(1 - c)), so "this is Anna" where Anna is also in the gazetteer scores
+ * higher than either alone. The display form and personId come from the best-ranked detector.
+ * Candidates are returned in descending confidence order.
+ */
+export function detectNames(ctx: NameDetectionContext, detectors: NameDetector[]): NameCandidate[] {
+  const merged = new Map<string, NameCandidate>();
+  const ordered = [...detectors].sort((a, b) => a.rank - b.rank);
+
+  for (const detector of ordered) {
+    for (const detected of detector.detect(ctx)) {
+      const key = detected.name.trim().toLowerCase();
+      if (!key) continue;
+
+      const existing = merged.get(key);
+      if (!existing) {
+        merged.set(key, {
+          name: detected.name.trim(),
+          confidence: detected.confidence,
+          personId: detected.personId,
+          sources: [{ detector: detector.id, confidence: detected.confidence }],
+        });
+        continue;
+      }
+
+      // Same detector reporting a name twice counts once, at its best confidence
+      const source = existing.sources.find((s) => s.detector === detector.id);
+      if (source) {
+        source.confidence = Math.max(source.confidence, detected.confidence);
+      } else {
+        existing.sources.push({ detector: detector.id, confidence: detected.confidence });
+      }
+      existing.personId ??= detected.personId;
+      existing.confidence =
+        1 - existing.sources.reduce((remaining, s) => remaining * (1 - s.confidence), 1);
+    }
+  }
+
+  return Array.from(merged.values()).sort((a, b) => b.confidence - a.confidence);
+}
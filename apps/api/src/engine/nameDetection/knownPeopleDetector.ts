@@ -0,0 +1,28 @@
+import type { DetectedName, NameDetector } from "./types.js";
+import { containsWord } from "./textUtils.js";
+
+const KNOWN_PERSON_CONFIDENCE = 0.95;
+
+/**
+ * Detector for the current patient's known people, matched by display name
+ * Candidates carry the person's ID so the engine can tell them apart from new names.
+ */
+export function createKnownPeopleDetector(): NameDetector {
+  return {
+    id: "known_people",
+    rank: 0,
+    detect({ transcript, people }) {
+      const results: DetectedName[] = [];
+      for (const person of people) {
+        if (person.displayName.trim() && containsWord(transcript, person.displayName.trim())) {
+          results.push({
+            name: person.displayName,
+            confidence: KNOWN_PERSON_CONFIDENCE,
+            personId: person.id,
+          });
+        }
+      }
+      return results;
+    },
+  };
+}
@@ -0,0 +1,104 @@
+import type { DetectedName, NameDetector } from "./types.js";
+import { toTitleCase } from "./textUtils.js";
+import { isRelationshipKeyword } from "../relationships.js";
+
+/**
+ * Phrase that introduces a name, with the name (1-2 words) in capture group 1
+ */
+export interface NamePattern {
+  id: string;
+  regex: RegExp;
+  confidence: number;
+}
+
+export const DEFAULT_NAME_PATTERNS: NamePattern[] = [
+  { id: "my_name_is", regex: /my\s+name\s+is\s+([a-z]+(?:\s+[a-z]+)?)/i, confidence: 0.9 },
+  { id: "their_name_is", regex: /(?:his|her|their)\s+name\s+is\s+([a-z]+(?:\s+[a-z]+)?)/i, confidence: 0.85 },
+  { id: "this_is", regex: /this\s+is\s+([a-z]+(?:\s+[a-z]+)?)/i, confidence: 0.85 },
+  { id: "meet", regex: /meet\s+([a-z]+(?:\s+[a-z]+)?)/i, confidence: 0.8 },
+  { id: "i_am", regex: /(?:^|\s)(?:i'?m|i\s+am)\s+([a-z]+(?:\s+[a-z]+)?)/i, confidence: 0.75 },
+  { id: "greeting", regex: /(?:^|\s)(?:hi|hey|hello)\s+([a-z]+(?:\s+[a-z]+)?)/i, confidence: 0.7 },
+];
+
+// Words that are never part of a captured name ("this is my daughter", "hi to my son")
+const NON_NAME_WORDS = ["my", "your", "his", "her", "our", "their", "the", "a", "an", "to"];
+
+// Words after which a capitalized token is likely a name ("call Dave", "named Priya")
+const NAME_CUE_WORDS = ["hi", "hey", "hello", "meet", "call", "named"];
+const CUE_CONFIDENCE = 0.7;
+// "Anna, can you..." - capitalized word(s) directly before a comma
+const COMMA_CONFIDENCE = 0.6;
+
+function isLikelyName(name: string): boolean {
+  return !name
+    .toLowerCase()
+    .split(/\s+/)
+    .some((word) => NON_NAME_WORDS.includes(word) || isRelationshipKeyword(word));
+}
+
+function isCapitalized(word: string): boolean {
+  return word.length > 1 && !!word[0] && word[0] === word[0].toUpperCase();
+}
+
+/**
+ * Capitalized 1-2 word name followed by a comma
+ */
+function detectBeforeComma(transcript: string): DetectedName[] {
+  const results: DetectedName[] = [];
+  const words = transcript.trim().split(/\s+/);
+  for (let i = 0; i < words.length - 1; i++) {
+    const currentWord = words[i];
+    const nextWord = words[i + 1];
+    if (!currentWord || !nextWord || !nextWord.startsWith(",")) continue;
+
+    const word = currentWord.replace(/[^\w]/g, "");
+    if (!isCapitalized(word)) continue;
+
+    const prevWord = i > 0 ? words[i - 1]?.replace(/[^\w]/g, "") : undefined;
+    const name = prevWord && isCapitalized(prevWord) ? `${prevWord} ${word}` : word;
+    results.push({ name, confidence: COMMA_CONFIDENCE });
+  }
+  return results;
+}
+
+/**
+ * Capitalized word right after a cue word
+ * Catches names that neither the phrase patterns nor the gazetteer know
+ */
+function detectAfterCueWord(transcript: string): DetectedName[] {
+  const results: DetectedName[] = [];
+  const words = transcript.trim().split(/\s+/);
+  for (let i = 0; i < words.length - 1; i++) {
+    const cue = words[i]?.toLowerCase();
+    const nextWord = words[i + 1];
+    if (!cue || !nextWord || !NAME_CUE_WORDS.includes(cue)) continue;
+
+    const cleanWord = nextWord.replace(/[^\w]/g, "");
+    if (cleanWord.length >= 2 && isCapitalized(cleanWord) && /^[a-z]/i.test(cleanWord)) {
+      results.push({ name: cleanWord, confidence: CUE_CONFIDENCE });
+    }
+  }
+  return results;
+}
+
+/**
+ * Regex detector for introduction phrases ("this is X", "my name is X", "hi X", ...)
+ */
+export function createPatternDetector(patterns: NamePattern[] = DEFAULT_NAME_PATTERNS): NameDetector {
+  return {
+    id: "pattern",
+    rank: 1,
+    detect({ transcript }) {
+      const results: DetectedName[] = [];
+      for (const pattern of patterns) {
+        const match = transcript.match(pattern.regex);
+        const name = match?.[1]?.trim();
+        if (name && name.split(/\s+/).length <= 2) {
+          results.push({ name: toTitleCase(name), confidence: pattern.confidence });
+        }
+      }
+      results.push(...detectBeforeComma(transcript), ...detectAfterCueWord(transcript));
+      return results.filter((r) => isLikelyName(r.name));
+    },
+  };
+}
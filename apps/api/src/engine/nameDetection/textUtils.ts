@@ -0,0 +1,20 @@
+/**
+ * Convert a word to Title Case
+ */
+export function toTitleCase(str: string): string {
+  return str.charAt(0).toUpperCase() + str.slice(1).toLowerCase();
+}
+
+/**
+ * Escape a string for use inside a RegExp
+ */
+export function escapeRegExp(str: string): string {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Whether `name` appears in `text` as a whole word/phrase (case-insensitive)
+ */
+export function containsWord(text: string, name: string): boolean {
+  return new RegExp(`(?<![\\w'])${escapeRegExp(name)}(?![\\w'])`, "i").test(text);
+}
@@ -0,0 +1,39 @@
+import type { Person } from "@cuelens/shared";
+
+/**
+ * Input shared by every detector for one transcript
+ */
+export interface NameDetectionContext {
+  transcript: string;
+  people: Person[]; // Known people for the current patient
+}
+
+/**
+ * A name found by a single detector
+ */
+export interface DetectedName {
+  name: string; // As it should be displayed (e.g. Title Case)
+  confidence: number; // 0-1, how sure this detector is that `name` is a person's name
+  personId?: string; // Set when the name refers to a known person
+}
+
+/**
+ * A name-detection strategy
+ * Detectors run independently; their outputs are merged by detectNames().
+ * `rank` orders detectors (lower runs first and wins ties on display form and personId).
+ */
+export interface NameDetector {
+  id: string;
+  rank: number;
+  detect(ctx: NameDetectionContext): DetectedName[];
+}
+
+/**
+ * Merged result across detectors
+ */
+export interface NameCandidate {
+  name: string;
+  confidence: number; // Combined confidence across all detectors that found the name
+  personId?: string;
+  sources: Array<{ detector: string; confidence: number }>;
+}
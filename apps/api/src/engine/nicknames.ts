@@ -0,0 +1,59 @@
+/**
+ * Groups of interchangeable given names (formal name first)
+ * A nickname can appear in several groups ("sam", "chris", "pat"), so matching checks every group.
+ */
+export const NICKNAME_GROUPS: readonly (readonly string[])[] = [
+  ["michael", "mike", "mikey", "mick", "mickey"],
+  ["william", "will", "bill", "billy", "willy", "liam"],
+  ["robert", "rob", "robbie", "bob", "bobby", "bert"],
+  ["richard", "rich", "rick", "ricky", "dick"],
+  ["james", "jim", "jimmy", "jamie"],
+  ["john", "jack", "johnny"],
+  ["jonathan", "jon", "jonny"],
+  ["joseph", "joe", "joey"],
+  ["thomas", "tom", "tommy"],
+  ["charles", "charlie", "chuck"],
+  ["christopher", "chris", "topher"],
+  ["daniel", "dan", "danny"],
+  ["matthew", "matt", "matty"],
+  ["anthony", "tony"],
+  ["edward", "ed", "eddie", "ted", "ned"],
+  ["steven", "stephen", "steve", "stevie"],
+  ["andrew", "andy", "drew"],
+  ["nicholas", "nick", "nicky"],
+  ["benjamin", "ben", "benny"],
+  ["samuel", "sam", "sammy"],
+  ["alexander", "alex", "xander"],
+  ["joshua", "josh"],
+  ["timothy", "tim", "timmy"],
+  ["kenneth", "ken", "kenny"],
+  ["gregory", "greg"],
+  ["patrick", "pat", "paddy"],
+  ["zachary", "zach", "zack"],
+  ["lawrence", "larry"],
+  ["ronald", "ron", "ronnie"],
+  ["donald", "don", "donnie"],
+  ["raymond", "ray"],
+  ["francis", "frank", "frankie"],
+  ["elizabeth", "liz", "lizzie", "beth", "betty", "eliza", "libby"],
+  ["margaret", "maggie", "meg", "peggy", "marge"],
+  ["katherine", "catherine", "kathleen", "kate", "katie", "kathy", "cathy", "kat"],
+  ["jennifer", "jen", "jenny"],
+  ["jessica", "jess", "jessie"],
+  ["patricia", "pat", "patty", "trish", "tricia"],
+  ["susan", "sue", "susie"],
+  ["deborah", "deb", "debbie"],
+  ["rebecca", "becky", "becca"],
+  ["samantha", "sam", "sammy"],
+  ["christine", "chris", "chrissy", "tina"],
+  ["pamela", "pam"],
+  ["kimberly", "kim"],
+  ["stephanie", "steph"],
+  ["victoria", "vicky", "tori"],
+  ["barbara", "barb"],
+  ["dorothy", "dot", "dottie"],
+  ["frances", "fran", "frankie"],
+  ["virginia", "ginny"],
+  ["emily", "em", "emmy"],
+  ["abigail", "abby"],
+];
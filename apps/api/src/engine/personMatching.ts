@@ -0,0 +1,143 @@
+import type { Person } from "@cuelens/shared";
+import { NICKNAME_GROUPS } from "./nicknames.js";
+
+/**
+ * How a spoken name was matched to a known person
+ * - exact: same full name, or same first name when only one person has it
+ * - nickname: known nickname pair ("Mike" / "Michael")
+ * - phonetic: sounds alike (Soundex) and spelled similarly ("Keerat" / "Keeret")
+ * - fuzzy: small spelling difference
+ */
+export type PersonMatchKind = "exact" | "nickname" | "phonetic" | "fuzzy";
+
+export interface PersonMatch {
+  person: Person;
+  kind: PersonMatchKind;
+  score: number; // 0-1, higher is a stronger match
+}
+
+const FUZZY_MIN_SIMILARITY = 0.8;
+const PHONETIC_MIN_SIMILARITY = 0.5; // Soundex alone is too coarse ("Mary" / "Marco")
+const MIN_FUZZY_LENGTH = 4; // Short names are too easy to confuse by spelling
+
+/**
+ * American Soundex code (e.g. "Robert" -> "R163")
+ */
+export function soundex(name: string): string {
+  const letters = name.toLowerCase().replace(/[^a-z]/g, "");
+  const first = letters[0];
+  if (!first) return "";
+
+  const codes: Record<string, string> = {
+    b: "1", f: "1", p: "1", v: "1",
+    c: "2", g: "2", j: "2", k: "2", q: "2", s: "2", x: "2", z: "2",
+    d: "3", t: "3",
+    l: "4",
+    m: "5", n: "5",
+    r: "6",
+  };
+
+  let result = first.toUpperCase();
+  let previous = codes[first] ?? "";
+  for (const letter of letters.slice(1)) {
+    const code = codes[letter] ?? "";
+    if (code && code !== previous) {
+      result += code;
+      if (result.length === 4) break;
+    }
+    // "h" and "w" do not separate letters with the same code; vowels do
+    if (letter !== "h" && letter !== "w") {
+      previous = code;
+    }
+  }
+  return result.padEnd(4, "0");
+}
+
+/**
+ * Levenshtein edit distance
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = (previous[j - 1] ?? 0) + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current.push(Math.min((previous[j] ?? 0) + 1, (current[j - 1] ?? 0) + 1, substitution));
+    }
+    previous = current;
+  }
+  return previous[b.length] ?? 0;
+}
+
+/**
+ * Spelling similarity in [0, 1] (1 = identical)
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 1 : 1 - editDistance(a, b) / longest;
+}
+
+function areNicknames(a: string, b: string): boolean {
+  return NICKNAME_GROUPS.some((group) => group.includes(a) && group.includes(b));
+}
+
+function normalize(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+function firstName(name: string): string {
+  return normalize(name).split(" ")[0] ?? "";
+}
+
+/**
+ * Compare two single given names (already normalized)
+ */
+function compareGivenNames(spoken: string, known: string): { kind: PersonMatchKind; score: number } | null {
+  if (areNicknames(spoken, known)) {
+    return { kind: "nickname", score: 0.9 };
+  }
+  const similarity = nameSimilarity(spoken, known);
+  if (soundex(spoken) === soundex(known) && similarity >= PHONETIC_MIN_SIMILARITY) {
+    return { kind: "phonetic", score: 0.6 + 0.3 * similarity };
+  }
+  if (Math.min(spoken.length, known.length) >= MIN_FUZZY_LENGTH && similarity >= FUZZY_MIN_SIMILARITY) {
+    return { kind: "fuzzy", score: similarity * 0.85 };
+  }
+  return null;
+}
+
+/**
+ * Find the known person a spoken name most likely refers to
+ * Returns undefined when nobody is a plausible match.
+ */
+export function findPersonMatch(name: string, people: Person[]): PersonMatch | undefined {
+  const spoken = normalize(name);
+  const spokenFirst = firstName(name);
+  if (!spoken) return undefined;
+
+  const exact = people.find((p) => normalize(p.displayName) === spoken);
+  if (exact) {
+    return { person: exact, kind: "exact", score: 1 };
+  }
+
+  // "Om" for "Om Patel" - only unambiguous when a single person has that first name.
+  // Also "Om how" for "Om": introduction patterns can capture the word after a name.
+  const sameFirstName = people.filter((p) =>
+    spoken.includes(" ")
+      ? normalize(p.displayName) === spokenFirst
+      : firstName(p.displayName) === spoken
+  );
+  const onlyMatch = sameFirstName[0];
+  if (sameFirstName.length === 1 && onlyMatch) {
+    return { person: onlyMatch, kind: "exact", score: 0.95 };
+  }
+
+  let best: PersonMatch | undefined;
+  for (const person of people) {
+    const match = compareGivenNames(spokenFirst, firstName(person.displayName));
+    if (match && (!best || match.score > best.score)) {
+      best = { person, ...match };
+    }
+  }
+  return best;
+}
@@ -0,0 +1,98 @@
+import type { PersonRelationship, RelationshipType } from "@cuelens/shared";
+import { containsWord } from "./nameDetection/textUtils.js";
+
+/**
+ * Relationship vocabulary: canonical term -> relationship type and spoken aliases
+ * Canonical terms keep the distinction the type drops (mother vs father are both "parent").
+ * Short or everyday words ("ma", "pal", "nurse", "partner") are left out: they show up in ordinary
+ * speech far more often than as a relationship.
+ */
+const RELATIONSHIP_TERMS: Record<string, { type: RelationshipType; aliases: readonly string[] }> = {
+  mother: { type: "parent", aliases: ["mom", "mum", "mommy", "mummy", "mama"] },
+  father: { type: "parent", aliases: ["dad", "daddy", "papa"] },
+  son: { type: "child", aliases: [] },
+  daughter: { type: "child", aliases: [] },
+  brother: { type: "sibling", aliases: [] },
+  sister: { type: "sibling", aliases: [] },
+  wife: { type: "spouse", aliases: [] },
+  husband: { type: "spouse", aliases: [] },
+  grandmother: { type: "grandparent", aliases: ["grandma", "granny", "gran", "nana", "nan"] },
+  grandfather: { type: "grandparent", aliases: ["grandpa", "granddad", "grandad", "gramps"] },
+  grandson: { type: "grandchild", aliases: [] },
+  granddaughter: { type: "grandchild", aliases: [] },
+  aunt: { type: "aunt_uncle", aliases: ["auntie", "aunty"] },
+  uncle: { type: "aunt_uncle", aliases: [] },
+  niece: { type: "niece_nephew", aliases: [] },
+  nephew: { type: "niece_nephew", aliases: [] },
+  cousin: { type: "cousin", aliases: [] },
+  friend: { type: "friend", aliases: ["buddy"] },
+  caregiver: { type: "caregiver", aliases: ["carer"] },
+  doctor: { type: "doctor", aliases: ["physician"] },
+  neighbor: { type: "neighbor", aliases: ["neighbour"] },
+};
+
+/**
+ * Every word that names a relationship (canonical terms and aliases) - never treated as names
+ */
+export const RELATIONSHIP_KEYWORDS: readonly string[] = Object.entries(RELATIONSHIP_TERMS).flatMap(
+  ([term, { aliases }]) => [term, ...aliases]
+);
+
+export function isRelationshipKeyword(word: string): boolean {
+  return RELATIONSHIP_KEYWORDS.includes(word.toLowerCase());
+}
+
+/**
+ * A relationship word resolved against the vocabulary
+ */
+export interface RelationshipTerm {
+  spoken: string; // as found, lowercased ("nana")
+  term: string; // canonical ("grandmother")
+  type: RelationshipType;
+}
+
+/**
+ * Resolve a single relationship word ("Mum", "nana") to its canonical term and type
+ */
+export function resolveRelationshipTerm(word: string): RelationshipTerm | undefined {
+  const spoken = word.trim().toLowerCase();
+  for (const [term, { type, aliases }] of Object.entries(RELATIONSHIP_TERMS)) {
+    if (term === spoken || aliases.includes(spoken)) {
+      return { spoken, term, type };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Relationship words mentioned in a transcript (whole words only), one per canonical term
+ */
+export function findRelationshipTerms(text: string): RelationshipTerm[] {
+  const found = new Map<string, RelationshipTerm>();
+  for (const keyword of RELATIONSHIP_KEYWORDS) {
+    if (!containsWord(text, keyword)) continue;
+    const resolved = resolveRelationshipTerm(keyword);
+    if (resolved && !found.has(resolved.term)) {
+      found.set(resolved.term, resolved);
+    }
+  }
+  return Array.from(found.values());
+}
+
+/**
+ * Relationship named by a free-text label: its first relationship word ("my nana" -> grandmother)
+ */
+export function resolveRelationshipLabel(label: string): RelationshipTerm | undefined {
+  return label
+    .split(/[^\w']+/)
+    .map((word) => resolveRelationshipTerm(word))
+    .find((term): term is RelationshipTerm => !!term);
+}
+
+/**
+ * Typed patient edge for a free-text relationship label
+ * Labels without a relationship word ("church group") become "other".
+ */
+export function relationshipFromLabel(label: string): PersonRelationship {
+  return { type: resolveRelationshipLabel(label)?.type ?? "other", label: label.trim() };
+}
@@ -1,319 +1,20 @@
-import type { SuggestionCreate } from "@cuelens/shared";
+import type { PatientSettings, Person, SuggestionCreate } from "@cuelens/shared";
 import {
   shouldProcessTrigger,
   wasRepeatedRecently,
   generateTriggerKey,
 } from "./triggerHistory.js";
 import { listPeople } from "../store/peopleStore.js";
+import { getSuggestion } from "../store/suggestionsStore.js";
+import { getSettings } from "../store/settingsStore.js";
+import { getRecentUtterances } from "./conversationContext.js";
+import { extractSuggestions, getExtractorConfig } from "./llmExtraction/index.js";
+import { createDefaultDetectors, detectNames, toTitleCase } from "./nameDetection/index.js";
+import { findRelationshipTerms, resolveRelationshipLabel } from "./relationships.js";
+import { findPersonMatch, type PersonMatchKind } from "./personMatching.js";
 
-/**
- * Relationship keywords to detect in transcripts
- */
-const RELATIONSHIP_KEYWORDS = [
-  "mom",
-  "dad",
-  "son",
-  "daughter",
-  "aunt",
-  "uncle",
-  "brother",
-  "sister",
-  "grandma",
-  "grandpa",
-] as const;
-
-/**
- * Common names to recognize (case-insensitive)
- * Includes hardcoded names: michael, keeret, om
- */
-const COMMON_NAMES = [
-  "michael",
-  "keeret",
-  "om",
-  // Add more common names as needed
-  "john",
-  "jane",
-  "david",
-  "sarah",
-  "james",
-  "emily",
-  "robert",
-  "lisa",
-  "william",
-  "mary",
-  "richard",
-  "patricia",
-  "joseph",
-  "jennifer",
-  "thomas",
-  "linda",
-  "charles",
-  "elizabeth",
-  "christopher",
-  "barbara",
-  "daniel",
-  "susan",
-  "matthew",
-  "jessica",
-  "anthony",
-  "sarah",
-  "mark",
-  "karen",
-  "donald",
-  "nancy",
-  "steven",
-  "betty",
-  "paul",
-  "helen",
-  "andrew",
-  "sandra",
-  "joshua",
-  "donna",
-  "kenneth",
-  "carol",
-  "kevin",
-  "ruth",
-  "brian",
-  "sharon",
-  "george",
-  "michelle",
-  "edward",
-  "laura",
-  "ronald",
-  "sarah",
-  "timothy",
-  "kimberly",
-  "jason",
-  "deborah",
-  "jeffrey",
-  "dorothy",
-  "ryan",
-  "lisa",
-  "jacob",
-  "nancy",
-  "gary",
-  "karen",
-  "nicholas",
-  "betty",
-  "eric",
-  "helen",
-  "jonathan",
-  "sandra",
-  "stephen",
-  "donna",
-  "larry",
-  "carol",
-  "justin",
-  "michelle",
-  "scott",
-  "emily",
-  "brandon",
-  "kimberly",
-  "benjamin",
-  "deborah",
-  "samuel",
-  "rachel",
-  "frank",
-  "cynthia",
-  "gregory",
-  "maria",
-  "raymond",
-  "stephanie",
-  "alexander",
-  "rebecca",
-  "patrick",
-  "sharon",
-  "jack",
-  "kathleen",
-  "dennis",
-  "anna",
-  "jerry",
-  "pamela",
-  "tyler",
-  "samantha",
-  "aaron",
-  "christine",
-  "jose",
-  "emma",
-  "henry",
-  "catherine",
-  "adam",
-  "frances",
-  "douglas",
-  "virginia",
-  "nathan",
-  "marie",
-  "zachary",
-  "janet",
-  "kyle",
-  "catherine",
-  "noah",
-  "frances",
-  "alan",
-  "ann",
-  "juan",
-  "joyce",
-  "wayne",
-  "diane",
-  "roy",
-  "alice",
-  "ralph",
-  "julie",
-  "eugene",
-  "heather",
-  "louis",
-  "teresa",
-  "lawrence",
-  "doris",
-  "nicholas",
-  "gloria",
-  "christopher",
-  "evelyn",
-] as const;
-
-/**
- * Extract name candidates using specific patterns
- * Patterns: "hi|hey|hello NAME", "this is NAME", "meet NAME", "my name is NAME", "NAME,"
- * Also checks against COMMON_NAMES list (case-insensitive)
- */
-function extractNameCandidates(transcript: string): string[] {
-  const candidates: string[] = [];
-  const lowerTranscript = transcript.toLowerCase();
-  const words = transcript.trim().split(/\s+/);
-  const lowerWords = lowerTranscript.trim().split(/\s+/);
-  
-  // Pattern 1: "hi|hey|hello NAME" - token(s) after greeting (case-insensitive)
-  const greetingPattern = /(?:^|\s)(hi|hey|hello)\s+([a-z]+(?:\s+[a-z]+)?)/i;
-  const greetingMatch = transcript.match(greetingPattern);
-  if (greetingMatch && greetingMatch[2]) {
-    const name = greetingMatch[2].trim();
-    const nameParts = name.split(/\s+/);
-    if (nameParts.length <= 2) {
-      candidates.push(toTitleCase(name));
-    }
-  }
-  
-  // Pattern 2: "this is NAME" - token(s) after "this is" (case-insensitive)
-  const thisIsPattern = /this\s+is\s+([a-z]+(?:\s+[a-z]+)?)/i;
-  const thisIsMatch = transcript.match(thisIsPattern);
-  if (thisIsMatch && thisIsMatch[1]) {
-    const name = thisIsMatch[1].trim();
-    const nameParts = name.split(/\s+/);
-    if (nameParts.length <= 2) {
-      candidates.push(toTitleCase(name));
-    }
-  }
-  
-  // Pattern 3: "meet NAME" - token(s) after "meet" (case-insensitive)
-  const meetPattern = /meet\s+([a-z]+(?:\s+[a-z]+)?)/i;
-  const meetMatch = transcript.match(meetPattern);
-  if (meetMatch && meetMatch[1]) {
-    const name = meetMatch[1].trim();
-    const nameParts = name.split(/\s+/);
-    if (nameParts.length <= 2) {
-      candidates.push(toTitleCase(name));
-    }
-  }
-  
-  // Pattern 4: "my name is NAME" - token(s) after "my name is" (case-insensitive)
-  const myNameIsPattern = /my\s+name\s+is\s+([a-z]+(?:\s+[a-z]+)?)/i;
-  const myNameIsMatch = transcript.match(myNameIsPattern);
-  if (myNameIsMatch && myNameIsMatch[1]) {
-    const name = myNameIsMatch[1].trim();
-    const nameParts = name.split(/\s+/);
-    if (nameParts.length <= 2) {
-      candidates.push(toTitleCase(name));
-    }
-  }
-  
-  // Pattern 5: "NAME," - name followed by comma (position-based extraction)
-  // Extract capitalized word(s) before comma
-  for (let i = 0; i < words.length - 1; i++) {
-    const currentWord = words[i];
-    const nextWord = words[i + 1];
-    if (!currentWord || !nextWord) continue;
-    
-    const word = currentWord.replace(/[^\w]/g, '');
-    
-    // Check if current word is capitalized and next word starts with comma
-    if (word.length > 1 && word[0] && word[0] === word[0].toUpperCase() && nextWord && nextWord.startsWith(',')) {
-      // Try to get 1-2 tokens before the comma
-      let name = word;
-      if (i > 0) {
-        const prevWordRaw = words[i - 1];
-        if (prevWordRaw) {
-          const prevWord = prevWordRaw.replace(/[^\w]/g, '');
-          if (prevWord.length > 1 && prevWord[0] && prevWord[0] === prevWord[0].toUpperCase()) {
-            name = `${prevWord} ${word}`;
-          }
-        }
-      }
-      
-      const nameParts = name.split(/\s+/);
-      if (nameParts.length <= 2) {
-        candidates.push(name.trim());
-      }
-    }
-  }
-  
-  // Pattern 6: Check for common names in transcript (case-insensitive)
-  // Look for common names as standalone words (not part of other words)
-  for (const commonName of COMMON_NAMES) {
-    // Use word boundary regex to match whole words only
-    const namePattern = new RegExp(`\\b${commonName}\\b`, 'i');
-    if (namePattern.test(transcript)) {
-      // Check if it's not already in candidates
-      const titleCaseName = toTitleCase(commonName);
-      if (!candidates.some(c => c.toLowerCase() === commonName.toLowerCase())) {
-        candidates.push(titleCaseName);
-      }
-    }
-  }
-  
-  // Pattern 7: Look for capitalized words that might be names (after greetings, etc.)
-  // This catches names even if they're not in the common names list
-  for (let i = 0; i < lowerWords.length - 1; i++) {
-    const lowerWord = lowerWords[i];
-    if (lowerWord && ['hi', 'hey', 'hello', 'meet', 'call', 'named'].includes(lowerWord)) {
-      const nextWord = words[i + 1];
-      if (nextWord) {
-        const cleanWord = nextWord.replace(/[^\w]/g, '');
-        // If it's capitalized and looks like a name (2+ chars, starts with letter)
-        if (cleanWord.length >= 2 && 
-            cleanWord[0] && 
-            cleanWord[0] === cleanWord[0].toUpperCase() &&
-            /^[a-z]/i.test(cleanWord)) {
-          // Check it's not a relationship keyword
-          const lowerClean = cleanWord.toLowerCase();
-          if (!(RELATIONSHIP_KEYWORDS as readonly string[]).includes(lowerClean)) {
-            candidates.push(cleanWord);
-          }
-        }
-      }
-    }
-  }
-  
-  // Pattern 8: "I'm NAME" or "I am NAME"
-  const imPattern = /(?:^|\s)(?:i'?m|i\s+am)\s+([a-z]+(?:\s+[a-z]+)?)/i;
-  const imMatch = transcript.match(imPattern);
-  if (imMatch && imMatch[1]) {
-    const name = imMatch[1].trim();
-    const nameParts = name.split(/\s+/);
-    if (nameParts.length <= 2) {
-      candidates.push(toTitleCase(name));
-    }
-  }
-  
-  // Remove duplicates and filter out relationship keywords
-  const unique = candidates.filter((c, idx, arr) => {
-    const lower = c.toLowerCase();
-    const isRelationship = (RELATIONSHIP_KEYWORDS as readonly string[]).includes(lower);
-    const isUnique = arr.findIndex(item => item.toLowerCase() === lower) === idx;
-    return !isRelationship && isUnique;
-  });
-  
-  return unique;
-}
+// Detectors are created once; the gazetteer file is read at startup
+const nameDetectors = createDefaultDetectors();
 
 /**
  * Check if transcript contains greeting pattern
@@ -338,11 +39,14 @@ function hasNameIntroductionPattern(transcript: string): boolean {
  * - Increases for longer/clearer transcripts
  * - Increases for strong patterns ("this is X", "my name is X", "hi mom", "hi dad")
  * - Decreases for very short or noisy fragments
+ * - Clamped to the patient's [minConfidence, maxConfidence] (default 0.70-0.95)
  * 
  * NOTE: This is a heuristic for MVP demo purposes.
  * OpenAI transcription doesn't provide a native confidence scalar.
  */
 function calculateConfidence(
+  patientId: string,
+  settings: PatientSettings,
   transcript: string,
   _hasFrame: boolean,
   isGreetingPattern: boolean,
@@ -369,7 +73,7 @@ function calculateConfidence(
   }
   
   // Increase if repeated recently (pattern confirmation)
-  if (wasRepeatedRecently(transcript)) {
+  if (wasRepeatedRecently(patientId, transcript, settings.repeatWindowSeconds * 1000)) {
     confidence += 0.03; // +0.03 if repeated
   }
   
@@ -378,116 +82,245 @@ function calculateConfidence(
     confidence -= 0.05; // -0.05 for very short fragments
   }
   
-  // Clamp to MVP range [0.70, 0.95] (slightly wider than base for edge cases)
-  return Math.max(0.70, Math.min(0.95, confidence));
+  // Clamp to the configured range (by default slightly wider than base for edge cases)
+  return clampConfidence(settings, confidence);
+}
+
+/**
+ * Keep a confidence within the patient's [minConfidence, maxConfidence]
+ */
+function clampConfidence(settings: PatientSettings, confidence: number): number {
+  return Math.max(settings.minConfidence, Math.min(settings.maxConfidence, confidence));
+}
+
+/**
+ * Known person whose relationship to the patient is this canonical term ("mother" for Mom or Mum)
+ */
+function findPersonWithRelationship(people: Person[], term: string): Person | undefined {
+  return people.find((p) => {
+    const label = p.relationships.find((r) => !r.personId)?.label;
+    return !!label && resolveRelationshipLabel(label)?.term === term;
+  });
 }
 
 /**
- * Convert a word to Title Case
+ * A known person whose name was spoken in the transcript
  */
-function toTitleCase(str: string): string {
-  return str.charAt(0).toUpperCase() + str.slice(1).toLowerCase();
+export interface RecognizedPerson {
+  personId: string;
+  displayName: string;
+  spokenName: string;
+  matchKind: PersonMatchKind;
+  confidence: number;
+}
+
+export interface TranscriptAnalysis {
+  suggestions: SuggestionCreate[];
+  recognizedPeople: RecognizedPerson[];
+  supersededSuggestionIds: string[]; // earlier pending suggestions folded into a combined one
+}
+
+/**
+ * Merge a name and a relationship heard in the same conversation into one identify_person suggestion
+ */
+function combineIntroduction(
+  person: SuggestionCreate,
+  relation: SuggestionCreate,
+  transcriptSnippet: string,
+  existingPeople: Person[]
+): SuggestionCreate {
+  const name = person.proposed.displayName ?? "";
+  const relationship = relation.proposed.relationship ?? "";
+  const possibleDuplicate = existingPeople.find((p) => p.id === person.related.personId);
+  return {
+    type: "identify_person",
+    text: possibleDuplicate
+      ? `Possible person: "${name}" (${toTitleCase(relationship)}, may be ${possibleDuplicate.displayName}). Approve to add as a new person?`
+      : `Possible person: "${name}" (${toTitleCase(relationship)}). Approve to add as a person?`,
+    related: { ...person.related, visionEventId: person.related.visionEventId ?? relation.related.visionEventId },
+    proposed: { displayName: name, relationship },
+    evidence: {
+      ...person.evidence,
+      transcriptSnippet,
+      frameAssetId: person.evidence.frameAssetId ?? relation.evidence.frameAssetId,
+      confidence: Math.max(person.evidence.confidence ?? 0, relation.evidence.confidence ?? 0),
+    },
+  };
+}
+
+/**
+ * Pair this chunk's lone name or relationship with the other half from the session's recent utterances
+ * Only pairs when it is unambiguous: one new name and one relationship between them, the earlier
+ * half still pending and not itself a combined suggestion.
+ */
+function combineWithContext(
+  patientId: string,
+  sessionId: string,
+  transcript: string,
+  results: SuggestionCreate[],
+  existingPeople: Person[]
+): { suggestions: SuggestionCreate[]; superseded: string[] } {
+  const names = results.filter((s) => s.type === "identify_person");
+  const relations = results.filter((s) => s.type === "relationship_suggestion");
+  if (names.length > 1 || relations.length > 1) {
+    return { suggestions: results, superseded: [] };
+  }
+
+  // Both halves in this chunk ("This is my daughter Sarah")
+  const [name] = names;
+  const [relation] = relations;
+  if (name && relation) {
+    return {
+      suggestions: [combineIntroduction(name, relation, transcript, existingPeople)],
+      superseded: [],
+    };
+  }
+
+  const current = name ?? relation;
+  if (!current) {
+    return { suggestions: results, superseded: [] };
+  }
+
+  // Most recent earlier suggestion carrying only the missing half
+  const wantedType = current === name ? "relationship_suggestion" : "identify_person";
+  const earlier = getRecentUtterances(patientId, sessionId)
+    .flatMap((utterance) =>
+      utterance.suggestionIds.map((id) => ({ utterance, suggestion: getSuggestion(patientId, id) }))
+    )
+    .reverse()
+    .find(({ suggestion }) =>
+      suggestion?.status === "pending" &&
+      suggestion.type === wantedType &&
+      !(suggestion.proposed.displayName && suggestion.proposed.relationship)
+    );
+  if (!earlier?.suggestion) {
+    return { suggestions: results, superseded: [] };
+  }
+
+  const snippet = `${earlier.utterance.transcript.trim()} ${transcript.trim()}`;
+  const combined =
+    current === name
+      ? combineIntroduction(current, earlier.suggestion, snippet, existingPeople)
+      : combineIntroduction(earlier.suggestion, current, snippet, existingPeople);
+  return {
+    suggestions: results.map((s) => (s === current ? combined : s)),
+    superseded: [earlier.suggestion.id],
+  };
 }
 
 /**
  * Generate suggestions from a transcript
+ * Suggestions are checked against (and de-duplicated within) a single patient's data.
+ * Names that exactly match a known person are reported in `recognizedPeople` instead;
+ * near matches (nickname, phonetic, fuzzy) become suggestions flagged as possible duplicates.
+ * With a `sessionId` a name and a relationship spoken in nearby utterances of the same
+ * conversation become a single identify_person suggestion; the earlier half is then reported
+ * in `supersededSuggestionIds`. Callers record each utterance with recordUtterance().
  * IMPORTANT: Only processes FINAL transcript segments (caller must filter out partials)
  * This function should only be called with complete, final transcript chunks
  */
 export function generateSuggestionsFromTranscript(
+  patientId: string,
   transcript: string,
-  ctx?: { visionEventId?: string; frameAssetId?: string }
-): SuggestionCreate[] {
+  ctx?: { visionEventId?: string; frameAssetId?: string; sessionId?: string }
+): TranscriptAnalysis {
   const results: SuggestionCreate[] = [];
-  const lowerTranscript = transcript.toLowerCase();
+  const recognizedPeople: RecognizedPerson[] = [];
   const hasFrame = !!ctx?.frameAssetId;
   const isGreetingPatternMatch = hasGreetingPattern(transcript);
   const isNameIntroductionPatternMatch = hasNameIntroductionPattern(transcript);
 
-  // Detect relationship keywords with de-dupe/cooldown
-  const existingPeople = listPeople(); // Get existing people for duplicate checking
+  // Detect relationship words ("mum", "nana") with de-dupe/cooldown, keyed by canonical term
+  const existingPeople = listPeople(patientId); // Get existing people for duplicate checking
+  const settings = getSettings(patientId);
+  const cooldownMs = settings.suggestionCooldownSeconds * 1000;
   
-  for (const keyword of RELATIONSHIP_KEYWORDS) {
-    if (lowerTranscript.includes(keyword.toLowerCase())) {
-      const triggerKey = generateTriggerKey("rel", keyword);
-      
-      // Check cooldown before processing
-      if (!shouldProcessTrigger(triggerKey)) {
-        continue; // Skip - in cooldown period
-      }
-      
-      // Check for duplicate: if a person with this relationship already exists, skip
-      const existingPersonWithRelationship = existingPeople.find(
-        (p) => p.relationship?.toLowerCase() === keyword.toLowerCase()
-      );
-      
-      if (existingPersonWithRelationship) {
-        // Exact relationship match found - skip to avoid duplicates
-        continue;
-      }
-      
-      const confidence = calculateConfidence(
-        transcript,
-        hasFrame,
-        isGreetingPatternMatch,
-        isNameIntroductionPatternMatch
-      );
-      
-      results.push({
-        type: "relationship_suggestion",
-        text: `Possible relationship: this person may be ${toTitleCase(keyword)}. Approve?`,
-        related: {
-          visionEventId: ctx?.visionEventId,
-        },
-        proposed: {
-          relationship: keyword,
-        },
-        evidence: {
-          transcriptSnippet: transcript,
-          frameAssetId: ctx?.frameAssetId,
-          confidence,
-        },
-      });
+  for (const relation of findRelationshipTerms(transcript)) {
+    const triggerKey = generateTriggerKey(patientId, "rel", relation.term);
+    
+    // Check cooldown before processing
+    if (!shouldProcessTrigger(triggerKey, cooldownMs)) {
+      continue; // Skip - in cooldown period
+    }
+    
+    // Check for duplicate: skip if someone already is this relative ("mum" when Mom exists)
+    if (findPersonWithRelationship(existingPeople, relation.term)) {
+      // Same relationship found - skip to avoid duplicates
+      continue;
     }
+    
+    const confidence = calculateConfidence(
+      patientId,
+      settings,
+      transcript,
+      hasFrame,
+      isGreetingPatternMatch,
+      isNameIntroductionPatternMatch
+    );
+    
+    results.push({
+      type: "relationship_suggestion",
+      text: `Possible relationship: this person may be ${toTitleCase(relation.spoken)}. Approve?`,
+      related: {
+        visionEventId: ctx?.visionEventId,
+      },
+      proposed: {
+        relationship: relation.spoken,
+      },
+      evidence: {
+        transcriptSnippet: transcript,
+        frameAssetId: ctx?.frameAssetId,
+        confidence,
+      },
+    });
   }
 
   // Detect name candidates with de-dupe/cooldown
-  const nameCandidates = extractNameCandidates(transcript);
-  for (const name of nameCandidates) {
-    const triggerKey = generateTriggerKey("name", name);
+  const nameCandidates = detectNames({ transcript, people: existingPeople }, nameDetectors);
+  for (const candidate of nameCandidates) {
+    const name = candidate.name;
+    const triggerKey = generateTriggerKey(patientId, "name", name);
     
     // Check cooldown before processing
-    if (!shouldProcessTrigger(triggerKey)) {
+    if (!shouldProcessTrigger(triggerKey, cooldownMs)) {
       continue; // Skip - in cooldown period
     }
     
-    // Check for duplicate: if a person with this name already exists, skip
-    const existingPersonWithName = existingPeople.find(
-      (p) => p.displayName.toLowerCase() === name.toLowerCase()
-    );
-    
-    if (existingPersonWithName) {
-      // Exact name match found - skip to avoid duplicates
+    // Compare against known people: exact matches are recognitions, near matches possible duplicates
+    const match = findPersonMatch(name, existingPeople);
+    if (match?.kind === "exact") {
+      if (!recognizedPeople.some((r) => r.personId === match.person.id)) {
+        recognizedPeople.push({
+          personId: match.person.id,
+          displayName: match.person.displayName,
+          spokenName: name,
+          matchKind: match.kind,
+          confidence: Math.min(candidate.confidence, match.score),
+        });
+      }
       continue;
     }
+    const duplicateFlag = !!match;
     
-                // Check if uncertain match (same name but different person - would need face comparison)
-                // For now, if we have both name and frame, we could flag it, but since we're skipping exact matches,
-                // this would only happen if there's ambiguity we can't resolve yet
-                const duplicateFlag = false;
-                // Future: Add face comparison logic here to set duplicateFlag if uncertain
-    
-    const confidence = calculateConfidence(
+    // Blend how clear the transcript is with how sure the detectors are that this is a name,
+    // clamped again since a weak detector can pull the average below the floor
+    const transcriptConfidence = calculateConfidence(
+      patientId,
+      settings,
       transcript,
       hasFrame,
       isGreetingPatternMatch,
       isNameIntroductionPatternMatch
     );
+    const confidence = clampConfidence(settings, (transcriptConfidence + candidate.confidence) / 2);
     
     results.push({
       type: "identify_person",
-      text: `Possible person: "${name}". Approve to add as a person?`,
+      text: match
+        ? `Possible person: "${name}" (may be ${match.person.displayName}). Approve to add as a new person?`
+        : `Possible person: "${name}". Approve to add as a person?`,
       related: {
+        personId: match?.person.id,
         visionEventId: ctx?.visionEventId,
       },
       proposed: {
@@ -502,5 +335,113 @@ export function generateSuggestionsFromTranscript(
     });
   }
 
-  return results;
-}
\ No newline at end of file
+  if (!ctx?.sessionId) {
+    return { suggestions: results, recognizedPeople, supersededSuggestionIds: [] };
+  }
+  const { suggestions, superseded } = combineWithContext(
+    patientId,
+    ctx.sessionId,
+    transcript,
+    results,
+    existingPeople
+  );
+  return { suggestions, recognizedPeople, supersededSuggestionIds: superseded };
+}
+
+/**
+ * Run an LLM-extracted suggestion through the same checks as the regex engine's:
+ * cooldown, known people (exact matches become recognitions, near matches are flagged)
+ * and relationships someone already has
+ */
+function reviewExtractedSuggestion(
+  patientId: string,
+  suggestion: SuggestionCreate,
+  existingPeople: Person[],
+  analysis: TranscriptAnalysis
+): void {
+  const { displayName, relationship } = suggestion.proposed;
+  const cooldownMs = getSettings(patientId).suggestionCooldownSeconds * 1000;
+
+  if (suggestion.type === "identify_person" && displayName) {
+    if (!shouldProcessTrigger(generateTriggerKey(patientId, "name", displayName), cooldownMs)) {
+      return;
+    }
+    const match = findPersonMatch(displayName, existingPeople);
+    if (match?.kind === "exact") {
+      if (!analysis.recognizedPeople.some((r) => r.personId === match.person.id)) {
+        analysis.recognizedPeople.push({
+          personId: match.person.id,
+          displayName: match.person.displayName,
+          spokenName: displayName,
+          matchKind: match.kind,
+          confidence: Math.min(suggestion.evidence.confidence ?? match.score, match.score),
+        });
+      }
+      return;
+    }
+    analysis.suggestions.push(
+      match
+        ? {
+            ...suggestion,
+            related: { ...suggestion.related, personId: match.person.id },
+            evidence: { ...suggestion.evidence, duplicateFlag: true },
+          }
+        : suggestion
+    );
+    return;
+  }
+
+  if (suggestion.type === "relationship_suggestion" && relationship) {
+    const term = resolveRelationshipLabel(relationship)?.term ?? relationship.trim().toLowerCase();
+    if (!shouldProcessTrigger(generateTriggerKey(patientId, "rel", term), cooldownMs)) {
+      return;
+    }
+    if (!findPersonWithRelationship(existingPeople, term)) {
+      analysis.suggestions.push(suggestion);
+    }
+  }
+}
+
+/**
+ * Analyze a final transcript chunk with the configured extractor (SUGGESTION_EXTRACTOR)
+ * - regex: generateSuggestionsFromTranscript() only
+ * - llm: a chat model reads the chunk, the session's recent utterances and the known people;
+ *   falls back to the regex engine when the model is unavailable
+ * - both: regex suggestions plus any the model adds (names the regex engine already raised
+ *   are in cooldown, so the model's repeats of them are dropped)
+ */
+export async function analyzeTranscript(
+  patientId: string,
+  transcript: string,
+  ctx?: { visionEventId?: string; frameAssetId?: string; sessionId?: string }
+): Promise<TranscriptAnalysis> {
+  const { mode, provider } = getExtractorConfig();
+  if (mode === "regex" || !provider) {
+    return generateSuggestionsFromTranscript(patientId, transcript, ctx);
+  }
+
+  const existingPeople = listPeople(patientId);
+  const recentTranscripts = ctx?.sessionId
+    ? getRecentUtterances(patientId, ctx.sessionId).map((u) => u.transcript)
+    : [];
+  const regexAnalysis = mode === "both" ? generateSuggestionsFromTranscript(patientId, transcript, ctx) : undefined;
+
+  const extracted = await extractSuggestions(
+    provider,
+    {
+      transcript,
+      recentTranscripts,
+      people: existingPeople.map((p) => ({ displayName: p.displayName, relationship: p.relationship })),
+    },
+    ctx
+  );
+  if (!extracted) {
+    return regexAnalysis ?? generateSuggestionsFromTranscript(patientId, transcript, ctx);
+  }
+
+  const analysis = regexAnalysis ?? { suggestions: [], recognizedPeople: [], supersededSuggestionIds: [] };
+  for (const suggestion of extracted) {
+    reviewExtractedSuggestion(patientId, suggestion, existingPeople, analysis);
+  }
+  return analysis;
+}
@@ -0,0 +1,33 @@
+import type { AuditActor, SuggestionAutoDecision, SuggestionCreate, SuggestionRule } from "@cuelens/shared";
+
+/**
+ * Whether a new suggestion meets every condition the rule sets
+ * Confidence bounds never match a suggestion without a confidence.
+ */
+export function ruleMatches(rule: SuggestionRule, suggestion: SuggestionCreate): boolean {
+  const { types, minConfidence, maxConfidence, knownPerson } = rule.conditions;
+  const confidence = suggestion.evidence.confidence;
+
+  if (types && !types.includes(suggestion.type)) return false;
+  if (minConfidence !== undefined && (confidence === undefined || confidence < minConfidence)) return false;
+  if (maxConfidence !== undefined && (confidence === undefined || confidence >= maxConfidence)) return false;
+  if (knownPerson !== undefined && !!suggestion.related.personId !== knownPerson) return false;
+  return true;
+}
+
+/**
+ * First enabled rule (in the given order) that matches the suggestion
+ */
+export function findMatchingRule(
+  rules: SuggestionRule[],
+  suggestion: SuggestionCreate
+): SuggestionRule | undefined {
+  return rules.find((rule) => rule.enabled && ruleMatches(rule, suggestion));
+}
+
+/**
+ * Audit actor for a rule's decision and the changes that follow from it
+ */
+export function ruleActor(decision: SuggestionAutoDecision): AuditActor {
+  return { type: "system", id: decision.ruleId, name: `Rule "${decision.ruleName}"` };
+}
@@ -1,71 +1,72 @@
 /**
  * Track recent triggers to prevent duplicates within cooldown period
- * Used to implement 45-second cooldown for same trigger (name:X or rel:Y)
+ * Used to implement the per-patient cooldown (suggestionCooldownSeconds, default 45s)
+ * for the same trigger (name:X or rel:Y)
  */
 
 interface TriggerEntry {
-  key: string; // "name:John" or "rel:mom"
-  timestamp: number;
+  key: string; // "<patientId>:name:john" or "<patientId>:rel:mom"
+  expiresAt: number;
 }
 
 const triggerHistory: TriggerEntry[] = [];
-const COOLDOWN_MS = 45 * 1000; // 45 seconds
 
 /**
- * Check if a transcript has been seen recently (within last 20 seconds)
- * Used for confidence scoring
+ * Transcripts seen recently, per patient
+ * Used for confidence scoring (repeatWindowSeconds, default 20s)
  */
-const recentTranscripts: Array<{ text: string; timestamp: number }> = [];
-const RECENT_WINDOW_MS = 20 * 1000; // 20 seconds
+const recentTranscripts: Array<{ patientId: string; text: string; timestamp: number }> = [];
 
 /**
  * Check if trigger should be processed (not in cooldown)
  */
-export function shouldProcessTrigger(key: string): boolean {
+export function shouldProcessTrigger(key: string, cooldownMs: number): boolean {
   const now = Date.now();
-  
+
   // Cleanup old entries
-  const recentTriggers = triggerHistory.filter(entry => now - entry.timestamp < COOLDOWN_MS);
+  const recentTriggers = triggerHistory.filter(entry => entry.expiresAt > now);
   triggerHistory.length = 0;
   triggerHistory.push(...recentTriggers);
-  
+
   // Check if this exact trigger was seen recently
   const existing = triggerHistory.find(entry => entry.key === key);
   if (existing) {
     return false; // In cooldown period
   }
-  
+
   // Record this trigger
-  triggerHistory.push({ key, timestamp: now });
+  triggerHistory.push({ key, expiresAt: now + cooldownMs });
   return true;
 }
 
 /**
- * Check if transcript was repeated in last 20 seconds (for confidence scoring)
+ * Check if transcript was repeated within the window (for confidence scoring)
  */
-export function wasRepeatedRecently(transcript: string): boolean {
+export function wasRepeatedRecently(patientId: string, transcript: string, windowMs: number): boolean {
   const now = Date.now();
-  
-  // Cleanup old transcripts
-  const recent = recentTranscripts.filter(entry => now - entry.timestamp < RECENT_WINDOW_MS);
+
+  // Cleanup this patient's old transcripts (other patients use their own window)
+  const recent = recentTranscripts.filter(
+    entry => entry.patientId !== patientId || now - entry.timestamp < windowMs
+  );
   recentTranscripts.length = 0;
   recentTranscripts.push(...recent);
-  
+
   // Check if similar transcript exists (normalize for comparison)
   const normalized = transcript.toLowerCase().trim();
   const found = recentTranscripts.some(
-    entry => entry.text.toLowerCase().trim() === normalized
+    entry => entry.patientId === patientId && entry.text.toLowerCase().trim() === normalized
   );
-  
+
   // Record this transcript
-  recentTranscripts.push({ text: transcript, timestamp: now });
-  
+  recentTranscripts.push({ patientId, text: transcript, timestamp: now });
+
   return found;
 }
 
 /**
  * Generate trigger key for de-duplication
  */
-export function generateTriggerKey(type: "name" | "rel", value: string): string {
-  return `${type}:${value.toLowerCase()}`;
+export function generateTriggerKey(patientId: string, type: "name" | "rel", value: string): string {
+  return `${patientId}:${type}:${value.toLowerCase()}`;
 }
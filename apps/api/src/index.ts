@@ -7,10 +7,21 @@ import {
   listSuggestionsHandler,
   approveSuggestionHandler,
   rejectSuggestionHandler,
+  revertSuggestionHandler,
+  bulkSuggestionsHandler,
 } from "./routes/suggestions.js";
+import { streamSuggestionsHandler } from "./routes/suggestionsStream.js";
+import {
+  listSuggestionRulesHandler,
+  createSuggestionRuleHandler,
+  updateSuggestionRuleHandler,
+  deleteSuggestionRuleHandler,
+} from "./routes/suggestionRules.js";
 import { transcriptHandler } from "./routes/transcript.js";
 import { createRealtimeSessionHandler } from "./routes/realtimeSession.js";
-import { uploadFrameHandler, getFrameHandler } from "./routes/frames.js";
+import { ttsHandler } from "./routes/tts.js";
+import { uploadFrameHandler, getFrameHandler, getFrameOriginalHandler } from "./routes/frames.js";
+import { uploadAssetHandler, getAssetHandler, getAssetThumbnailHandler } from "./routes/assets.js";
 import { sttChunkHandler, sttDebugHandler, sttUploadMiddleware } from "./routes/stt.js";
 import {
   listPeopleHandler,
@@ -19,12 +30,53 @@ import {
   upsertPersonHandler,
   updatePersonHandler,
   deletePersonHandler,
+  listDuplicatePeopleHandler,
+  mergePersonHandler,
+  getPersonRelationshipsHandler,
+  updatePersonRelationshipsHandler,
 } from "./routes/people.js";
+import {
+  listPlacesHandler,
+  getPlaceHandler,
+  createPlaceHandler,
+  updatePlaceHandler,
+  deletePlaceHandler,
+} from "./routes/places.js";
+import { createVisionEventHandler, listVisionEventsHandler } from "./routes/visionEvents.js";
+import { listAuditHandler } from "./routes/audit.js";
+import {
+  authStatusHandler,
+  registerHandler,
+  loginHandler,
+  logoutHandler,
+  meHandler,
+} from "./routes/auth.js";
+import {
+  listPatientsHandler,
+  createPatientHandler,
+  updatePatientHandler,
+  createDeviceTokenHandler,
+} from "./routes/patients.js";
+import {
+  listCaregiversHandler,
+  createCaregiverHandler,
+  updateCaregiverHandler,
+} from "./routes/caregivers.js";
+import { getSettingsHandler, updateSettingsHandler } from "./routes/settings.js";
+import { requireAuth, requireStreamAuth, requireCaregiver, requireAdmin, requirePatient } from "./middleware/auth.js";
+import { ensureDefaultPatient } from "./store/patientsStore.js";
+import { hasCaregivers } from "./store/caregiversStore.js";
+import { startFrameRetentionSweep } from "./store/frameRetention.js";
+import { migrateAllLegacyPhotos } from "./store/legacyPhotos.js";
+import { startSuggestionExpirySweep } from "./store/suggestionExpiry.js";
+import { checkRedactionConfig } from "./media/redaction/index.js";
+import { getExtractorConfig } from "./engine/llmExtraction/index.js";
 
 const app = express();
 
 // Middleware
-app.use(express.json());
+// Webcam frames are uploaded as base64 JSON, well above the default 100kb limit
+app.use(express.json({ limit: "10mb" }));
 
 // CORS configuration
 const corsOrigin = process.env.CORS_ORIGIN || "http://localhost:3000";
@@ -35,42 +87,120 @@ app.use(
   })
 );
 
+// Access levels
+// - patientScoped: caregivers (with X-Patient-Id) and device tokens, scoped to one patient
+// - caregiverScoped: signed-in caregivers only, scoped to one patient
+// - caregiverOnly / adminOnly: account management, not tied to a patient
+const patientScoped = [requireAuth, requirePatient];
+const caregiverScoped = [requireAuth, requireCaregiver, requirePatient];
+const caregiverOnly = [requireAuth, requireCaregiver];
+const adminOnly = [requireAuth, requireAdmin];
+
 // Routes
 app.get("/health", healthHandler);
 
+// Auth routes
+app.get("/auth/status", authStatusHandler);
+app.post("/auth/register", registerHandler);
+app.post("/auth/login", loginHandler);
+app.post("/auth/logout", requireAuth, logoutHandler);
+app.get("/auth/me", caregiverOnly, meHandler);
+
+// Patient and caregiver account routes
+app.get("/patients", caregiverOnly, listPatientsHandler);
+app.post("/patients", adminOnly, createPatientHandler);
+app.patch("/patients/:id", adminOnly, updatePatientHandler);
+app.post("/patients/:id/devices", caregiverOnly, createDeviceTokenHandler);
+app.get("/caregivers", adminOnly, listCaregiversHandler);
+app.post("/caregivers", adminOnly, createCaregiverHandler);
+app.patch("/caregivers/:id", adminOnly, updateCaregiverHandler);
+
 // Suggestions routes
-app.post("/suggestions", createSuggestionHandler);
-app.get("/suggestions", listSuggestionsHandler);
-app.post("/suggestions/:id/approve", approveSuggestionHandler);
-app.post("/suggestions/:id/reject", rejectSuggestionHandler);
+app.post("/suggestions", patientScoped, createSuggestionHandler);
+app.get("/suggestions", caregiverScoped, listSuggestionsHandler);
+app.get("/suggestions/stream", requireStreamAuth, requireCaregiver, requirePatient, streamSuggestionsHandler);
+app.post("/suggestions/bulk", caregiverScoped, bulkSuggestionsHandler);
+app.post("/suggestions/:id/approve", caregiverScoped, approveSuggestionHandler);
+app.post("/suggestions/:id/reject", caregiverScoped, rejectSuggestionHandler);
+app.post("/suggestions/:id/revert", caregiverScoped, revertSuggestionHandler);
+
+// Auto-approve/reject/hold rules applied when suggestions are created
+app.get("/suggestion-rules", caregiverScoped, listSuggestionRulesHandler);
+app.post("/suggestion-rules", caregiverScoped, createSuggestionRuleHandler);
+app.patch("/suggestion-rules/:id", caregiverScoped, updateSuggestionRuleHandler);
+app.delete("/suggestion-rules/:id", caregiverScoped, deleteSuggestionRuleHandler);
 
 // Transcript route
-app.post("/transcript", transcriptHandler);
+app.post("/transcript", patientScoped, transcriptHandler);
 
 // STT fallback route (HTTP-based transcription)
-app.post("/stt/chunk", sttUploadMiddleware, sttChunkHandler);
-app.get("/stt/debug", sttDebugHandler);
+app.post("/stt/chunk", requireAuth, sttUploadMiddleware, sttChunkHandler);
+app.get("/stt/debug", caregiverOnly, sttDebugHandler);
+
+// TTS route (server-rendered reminder audio)
+app.post("/tts", requireAuth, ttsHandler);
 
 // Real-Time API session route (creates ephemeral token for browser connections)
-app.post("/realtime/session", createRealtimeSessionHandler);
+app.post("/realtime/session", requireAuth, createRealtimeSessionHandler);
 
 // Frame routes
-app.post("/frames", uploadFrameHandler);
-app.get("/frames/:id", getFrameHandler);
+app.post("/frames", patientScoped, uploadFrameHandler);
+app.get("/frames/:id", patientScoped, getFrameHandler);
+app.get("/frames/:id/original", caregiverScoped, getFrameOriginalHandler);
+
+// Asset routes (binary uploads, e.g. person photos)
+app.post("/assets", patientScoped, express.raw({ type: "image/*", limit: "10mb" }), uploadAssetHandler);
+app.get("/assets/:id", patientScoped, getAssetHandler);
+app.get("/assets/:id/thumbnail", patientScoped, getAssetThumbnailHandler);
 
 // People routes
-app.get("/people", listPeopleHandler);
-app.get("/people/:id", getPersonHandler);
-app.post("/people", createPersonHandler);
-app.post("/people/upsert", upsertPersonHandler);
-app.patch("/people/:id", updatePersonHandler);
-app.delete("/people/:id", deletePersonHandler);
+app.get("/people", patientScoped, listPeopleHandler);
+app.get("/people/duplicates", caregiverScoped, listDuplicatePeopleHandler);
+app.get("/people/:id", patientScoped, getPersonHandler);
+app.post("/people", caregiverScoped, createPersonHandler);
+app.post("/people/upsert", caregiverScoped, upsertPersonHandler);
+app.patch("/people/:id", caregiverScoped, updatePersonHandler);
+app.delete("/people/:id", caregiverScoped, deletePersonHandler);
+app.post("/people/:id/merge", caregiverScoped, mergePersonHandler);
+app.get("/people/:id/relationships", patientScoped, getPersonRelationshipsHandler);
+app.put("/people/:id/relationships", caregiverScoped, updatePersonRelationshipsHandler);
+
+// Places routes
+app.get("/places", patientScoped, listPlacesHandler);
+app.get("/places/:id", patientScoped, getPlaceHandler);
+app.post("/places", caregiverScoped, createPlaceHandler);
+app.patch("/places/:id", caregiverScoped, updatePlaceHandler);
+app.delete("/places/:id", caregiverScoped, deletePlaceHandler);
+
+// Vision event routes
+app.post("/vision-events", patientScoped, createVisionEventHandler);
+app.get("/vision-events", patientScoped, listVisionEventsHandler);
+
+// Audit trail
+app.get("/audit", caregiverScoped, listAuditHandler);
+
+// Per-patient tuning (devices read it for the recognition loop)
+app.get("/settings", patientScoped, getSettingsHandler);
+app.patch("/settings", caregiverScoped, updateSettingsHandler);
 
 const start = async () => {
   try {
     const port = Number(process.env.PORT) || 3001;
     const host = process.env.HOST || "127.0.0.1";
 
+    ensureDefaultPatient();
+    await migrateAllLegacyPhotos();
+    checkRedactionConfig(); // fail fast on invalid or ineffective configuration
+    const { mode, provider } = getExtractorConfig();
+    if (provider) {
+      console.log(`[llm] Suggestion extractor: ${mode} (provider ${provider.id})`);
+    }
+    startFrameRetentionSweep();
+    startSuggestionExpirySweep();
+    if (!hasCaregivers()) {
+      console.log("No caregiver accounts yet - open the web app to create the admin account");
+    }
+
     const server = app.listen(port, host, () => {
       const url = `http://${host}:${port}`;
       console.log(`API server listening on ${url}`);
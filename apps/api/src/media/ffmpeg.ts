@@ -0,0 +1,39 @@
+import { spawn } from "child_process";
+
+let ffmpegMissingLogged = false;
+
+/**
+ * Run ffmpeg with `input` piped to stdin and return stdout (no temp files)
+ * Resolves undefined when ffmpeg is not installed, fails or times out, so callers can decide
+ * whether to fall back or refuse.
+ */
+export function runFfmpeg(args: string[], input: Buffer, timeoutMs: number): Promise<Buffer | undefined> {
+  return new Promise((resolve) => {
+    const ffmpeg = spawn("ffmpeg", ["-hide_banner", "-loglevel", "error", ...args]);
+
+    const chunks: Buffer[] = [];
+    const timer = setTimeout(() => ffmpeg.kill("SIGKILL"), timeoutMs);
+
+    ffmpeg.stdout.on("data", (chunk: Buffer) => chunks.push(chunk));
+    ffmpeg.on("error", (error: NodeJS.ErrnoException) => {
+      clearTimeout(timer);
+      if (error.code === "ENOENT") {
+        if (!ffmpegMissingLogged) {
+          console.warn("[media] ⚠️ ffmpeg not found in PATH - thumbnails and frame redaction are unavailable");
+          ffmpegMissingLogged = true;
+        }
+      } else {
+        console.error("[media] ❌ ffmpeg failed:", error);
+      }
+      resolve(undefined);
+    });
+    ffmpeg.on("close", (code) => {
+      clearTimeout(timer);
+      resolve(code === 0 && chunks.length > 0 ? Buffer.concat(chunks) : undefined);
+    });
+
+    // ffmpeg may exit before reading all input (bad image); the close handler reports that
+    ffmpeg.stdin.on("error", () => undefined);
+    ffmpeg.stdin.end(input);
+  });
+}
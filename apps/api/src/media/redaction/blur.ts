@@ -0,0 +1,66 @@
+import type { Region } from "./types.js";
+import { runFfmpeg } from "../ffmpeg.js";
+
+const BLUR_TIMEOUT_MS = 15000;
+// Radius relative to the blurred area so small and large regions are equally unreadable
+const BLUR = "boxblur=lr='max(1,min(w,h)/8)':lp=3:cr='max(1,min(cw,ch)/8)':cp=3";
+
+// ffmpeg expression for a region edge in pixels, rounded down to even for YUV 4:2:0
+function px(dimension: string, fraction: number): string {
+  return `trunc(${dimension}*${fraction}/2)*2`;
+}
+
+function crop(region: Region): string {
+  return `crop=w=${px("iw", region.width)}:h=${px("ih", region.height)}:x=${px("iw", region.x)}:y=${px("ih", region.y)}`;
+}
+
+function overlayAt(region: Region): string {
+  return `overlay=x=${px("W", region.x)}:y=${px("H", region.y)}`;
+}
+
+/**
+ * Blur an image outside `keep` (when given) and inside every `blur` region, re-encoded as JPEG
+ * Resolves undefined when ffmpeg is unavailable or fails.
+ */
+export function blurImage(image: Buffer, regions: { keep?: Region; blur: Region[] }): Promise<Buffer | undefined> {
+  const filters: string[] = [];
+  let current = "0:v";
+
+  if (regions.keep) {
+    filters.push(
+      `[${current}]split=2[base][src]`,
+      `[src]${BLUR}[blurred]`,
+      `[base]${crop(regions.keep)}[subject]`,
+      `[blurred][subject]${overlayAt(regions.keep)}[kept]`
+    );
+    current = "kept";
+  }
+
+  regions.blur.forEach((region, i) => {
+    filters.push(
+      `[${current}]split=2[base${i}][src${i}]`,
+      `[src${i}]${crop(region)},${BLUR}[patch${i}]`,
+      `[base${i}][patch${i}]${overlayAt(region)}[out${i}]`
+    );
+    current = `out${i}`;
+  });
+
+  if (filters.length === 0) {
+    return Promise.resolve(image);
+  }
+
+  return runFfmpeg(
+    [
+      "-i", "pipe:0",
+      "-filter_complex", filters.join(";"),
+      "-map", `[${current}]`,
+      "-frames:v", "1",
+      "-f", "image2",
+      "-c:v", "mjpeg",
+      "-q:v", "3",
+      "pipe:1",
+    ],
+    image,
+    BLUR_TIMEOUT_MS
+  );
+}
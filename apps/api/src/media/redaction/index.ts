@@ -0,0 +1,137 @@
+import type { DetectedRegion, Region, RegionDetector } from "./types.js";
+import { RegionSchema } from "./types.js";
+import { createStubDetector } from "./stubDetector.js";
+import { blurImage } from "./blur.js";
+
+export type { DetectedRegion, Region, RegionDetectionContext, RegionDetector } from "./types.js";
+export { RegionSchema } from "./types.js";
+export { createStubDetector } from "./stubDetector.js";
+
+// Detectors selectable via FRAME_REDACTION_DETECTORS; register new ones here
+const DETECTOR_FACTORIES: Record<string, () => RegionDetector> = {
+  stub: createStubDetector,
+};
+
+// Detectors that don't actually find anything (development and tests only)
+const PLACEHOLDER_DETECTORS = new Set(["stub"]);
+
+// The person talking to the patient usually stands in the middle of the webcam view
+const CENTER_SUBJECT: Region = { x: 0.25, y: 0, width: 0.5, height: 1 };
+
+/**
+ * Subject kept sharp when an upload designates none, from FRAME_REDACTION_SUBJECT:
+ * "center" (default), "none", or "x,y,width,height" in normalized coordinates
+ */
+function parseDefaultSubject(value: string): Region | undefined {
+  const spec = value.trim().toLowerCase();
+  if (spec === "center") return CENTER_SUBJECT;
+  if (spec === "none") return undefined;
+  const [x, y, width, height] = spec.split(",").map((part) => Number(part.trim()));
+  const validation = RegionSchema.safeParse({ x, y, width, height });
+  if (!validation.success) {
+    throw new Error(
+      `Invalid FRAME_REDACTION_SUBJECT "${value}". Must be 'center', 'none' or 'x,y,width,height' (0-1)`
+    );
+  }
+  return validation.data;
+}
+
+export interface RedactionConfig {
+  enabled: boolean;
+  detectors: RegionDetector[];
+  defaultSubject?: Region;
+}
+
+/**
+ * Redaction settings from the environment
+ * FRAME_REDACTION=on enables the stage; FRAME_REDACTION_DETECTORS is a comma-separated list
+ * of detector IDs (e.g. "stub"); FRAME_REDACTION_SUBJECT is the area kept sharp for uploads
+ * that designate no subject (the web app sends none).
+ */
+export function getRedactionConfig(): RedactionConfig {
+  const mode = (process.env.FRAME_REDACTION || "off").toLowerCase();
+  if (mode !== "on" && mode !== "off") {
+    throw new Error(`Invalid FRAME_REDACTION "${mode}". Must be 'on' or 'off'`);
+  }
+  const detectors = (process.env.FRAME_REDACTION_DETECTORS || "")
+    .split(",")
+    .map((id) => id.trim().toLowerCase())
+    .filter(Boolean)
+    .map((id) => {
+      const factory = DETECTOR_FACTORIES[id];
+      if (!factory) {
+        throw new Error(
+          `Unknown redaction detector "${id}". Available: ${Object.keys(DETECTOR_FACTORIES).join(", ")}`
+        );
+      }
+      return factory();
+    });
+  const defaultSubject = parseDefaultSubject(process.env.FRAME_REDACTION_SUBJECT || "center");
+  return { enabled: mode === "on", detectors, defaultSubject };
+}
+
+/**
+ * Check at startup that enabled redaction would hide anything
+ * Throws when it would blur nothing (no default subject and no real detector); warns when only
+ * the area outside the default subject is blurred, so bystanders inside it stay visible.
+ */
+export function checkRedactionConfig(config: RedactionConfig = getRedactionConfig()): void {
+  if (!config.enabled) return;
+  const realDetectors = config.detectors.filter((detector) => !PLACEHOLDER_DETECTORS.has(detector.id));
+  if (realDetectors.length > 0) return;
+  if (!config.defaultSubject) {
+    throw new Error(
+      "FRAME_REDACTION=on with FRAME_REDACTION_SUBJECT=none and no real detector would blur nothing"
+    );
+  }
+  console.warn(
+    "[redaction] ⚠️ No face detector configured: only the area outside the subject region is blurred"
+  );
+}
+
+function centerInside(region: Region, container: Region): boolean {
+  const cx = region.x + region.width / 2;
+  const cy = region.y + region.height / 2;
+  return (
+    cx >= container.x && cx <= container.x + container.width && cy >= container.y && cy <= container.y + container.height
+  );
+}
+
+export interface RedactionResult {
+  data: Buffer;
+  mimeType: string;
+  regions: DetectedRegion[]; // detector regions that were blurred
+  blurred: boolean; // false when there was nothing to blur and `data` is the image unchanged
+}
+
+/**
+ * Blur everything outside the designated subject plus every region flagged by a detector
+ *
+ * Detector regions centred inside the subject are left alone: they are the subject's own
+ * face rather than a bystander. Resolves undefined when a detector or the blur fails, so the
+ * caller can refuse to store the unredacted image.
+ */
+export async function redactFrame(
+  image: Buffer,
+  mimeType: string,
+  options: { subject?: Region; detectors: RegionDetector[] }
+): Promise<RedactionResult | undefined> {
+  const { subject, detectors } = options;
+
+  let detected: DetectedRegion[];
+  try {
+    const results = await Promise.all(detectors.map((detector) => detector.detect({ image, mimeType })));
+    detected = results.flat();
+  } catch (error) {
+    console.error("[redaction] ❌ Region detector failed:", error);
+    return undefined;
+  }
+
+  const regions = subject ? detected.filter((region) => !centerInside(region, subject)) : detected;
+  if (!subject && regions.length === 0) {
+    return { data: image, mimeType, regions, blurred: false };
+  }
+
+  const data = await blurImage(image, { keep: subject, blur: regions });
+  return data ? { data, mimeType: "image/jpeg", regions, blurred: true } : undefined;
+}
@@ -0,0 +1,28 @@
+import { createHash } from "crypto";
+import type { DetectedRegion, RegionDetector } from "./types.js";
+
+const STUB_REGION_SIZE = 0.25;
+
+/**
+ * Deterministic local detector for development and tests
+ * Flags one square region whose position is derived from the image's sha256, so the same
+ * image always yields the same region without any model or network access.
+ */
+export function createStubDetector(): RegionDetector {
+  return {
+    id: "stub",
+    async detect({ image }): Promise<DetectedRegion[]> {
+      const digest = createHash("sha256").update(image).digest();
+      const span = 1 - STUB_REGION_SIZE;
+      return [
+        {
+          x: Math.round(((digest[0] ?? 0) / 255) * span * 100) / 100,
+          y: Math.round(((digest[1] ?? 0) / 255) * span * 100) / 100,
+          width: STUB_REGION_SIZE,
+          height: STUB_REGION_SIZE,
+          label: "stub",
+        },
+      ];
+    },
+  };
+}
@@ -0,0 +1,42 @@
+import { z } from "zod";
+
+/**
+ * Rectangle in normalized image coordinates (0-1, origin top-left)
+ * Normalized so clients and detectors don't need to know the encoded resolution.
+ */
+export const RegionSchema = z
+  .object({
+    x: z.number().min(0).max(1),
+    y: z.number().min(0).max(1),
+    width: z.number().gt(0).max(1),
+    height: z.number().gt(0).max(1),
+  })
+  .refine((r) => r.x + r.width <= 1 && r.y + r.height <= 1, {
+    message: "Region must lie within the image",
+  });
+
+export type Region = z.infer<typeof RegionSchema>;
+
+/**
+ * Input shared by every detector for one frame
+ */
+export interface RegionDetectionContext {
+  image: Buffer;
+  mimeType: string;
+}
+
+/**
+ * A region a detector wants blurred (a bystander's face, a screen, ...)
+ */
+export interface DetectedRegion extends Region {
+  label: string;
+}
+
+/**
+ * A redaction strategy
+ * Detectors run independently and may be slow (model calls), hence async.
+ */
+export interface RegionDetector {
+  id: string;
+  detect(ctx: RegionDetectionContext): Promise<DetectedRegion[]>;
+}
@@ -0,0 +1,25 @@
+import { runFfmpeg } from "./ffmpeg.js";
+
+const THUMBNAIL_MAX_SIZE = 256; // px, longest side
+const THUMBNAIL_TIMEOUT_MS = 10000;
+
+/**
+ * Downscale an image to a JPEG thumbnail using ffmpeg
+ * Resolves undefined when ffmpeg is not installed or cannot decode the image, so uploads
+ * never fail because of a missing thumbnail.
+ */
+export function generateThumbnail(image: Buffer): Promise<Buffer | undefined> {
+  return runFfmpeg(
+    [
+      "-i", "pipe:0",
+      "-vf", `scale=${THUMBNAIL_MAX_SIZE}:${THUMBNAIL_MAX_SIZE}:force_original_aspect_ratio=decrease`,
+      "-frames:v", "1",
+      "-f", "image2",
+      "-c:v", "mjpeg",
+      "-q:v", "5",
+      "pipe:1",
+    ],
+    image,
+    THUMBNAIL_TIMEOUT_MS
+  );
+}
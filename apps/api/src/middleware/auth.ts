@@ -0,0 +1,160 @@
+import type { IncomingMessage } from "http";
+import type { NextFunction, Request, Response } from "express";
+import type { AuditActor, Caregiver } from "@cuelens/shared";
+import { getSessionByToken, type StoredSession } from "../store/sessionsStore.js";
+import { getCaregiver, canAccessPatient } from "../store/caregiversStore.js";
+import { getPatient } from "../store/patientsStore.js";
+
+/**
+ * Authenticated principal, stored on res.locals by requireAuth
+ * `caregiver` is set for caregiver sessions, undefined for device tokens
+ */
+export interface AuthContext {
+  token: string;
+  session: StoredSession;
+  caregiver?: Caregiver;
+}
+
+/**
+ * Read the bearer token from the Authorization header
+ * With `allowQuery`, ?access_token= is accepted too - only for EventSource and WebSocket clients,
+ * which cannot set headers (query strings end up in logs and Referer headers).
+ */
+export function getRequestToken(
+  req: IncomingMessage,
+  options: { allowQuery?: boolean } = {}
+): string | undefined {
+  const header = req.headers.authorization;
+  if (header?.startsWith("Bearer ")) {
+    return header.slice("Bearer ".length).trim() || undefined;
+  }
+  if (!options.allowQuery) return undefined;
+  const url = new URL(req.url || "", "http://localhost");
+  return url.searchParams.get("access_token") || undefined;
+}
+
+/**
+ * Resolve a bearer token to an auth context
+ * Returns undefined for unknown/expired tokens and for caregivers that no longer exist
+ */
+export function resolveAuth(token: string | undefined): AuthContext | undefined {
+  if (!token) return undefined;
+  const session = getSessionByToken(token);
+  if (!session) return undefined;
+
+  if (session.kind === "caregiver") {
+    const caregiver = session.caregiverId ? getCaregiver(session.caregiverId) : undefined;
+    return caregiver ? { token, session, caregiver } : undefined;
+  }
+  return { token, session };
+}
+
+/**
+ * Auth context for the current request (only valid after requireAuth)
+ */
+export function getAuth(res: Response): AuthContext {
+  return res.locals.auth as AuthContext;
+}
+
+/**
+ * Patient the current request is scoped to (only valid after requirePatient)
+ */
+export function getPatientId(res: Response): string {
+  return res.locals.patientId as string;
+}
+
+/**
+ * Audit actor for the current request (only valid after requireAuth)
+ */
+export function getActor(res: Response): AuditActor {
+  const { session, caregiver } = getAuth(res);
+  if (caregiver) {
+    return { type: "caregiver", id: caregiver.id, name: caregiver.displayName };
+  }
+  return { type: "device", name: session.label };
+}
+
+function authenticate(req: Request, res: Response, next: NextFunction, allowQuery: boolean) {
+  const auth = resolveAuth(getRequestToken(req, { allowQuery }));
+  if (!auth) {
+    res.status(401).json({ error: "Authentication required" });
+    return;
+  }
+  res.locals.auth = auth;
+  next();
+}
+
+/**
+ * Reject requests without a valid session or device token
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  authenticate(req, res, next, false);
+}
+
+/**
+ * requireAuth for EventSource streams, which can only pass the token as ?access_token=
+ */
+export function requireStreamAuth(req: Request, res: Response, next: NextFunction) {
+  authenticate(req, res, next, true);
+}
+
+/**
+ * Reject device tokens - only signed-in caregivers may continue
+ */
+export function requireCaregiver(_req: Request, res: Response, next: NextFunction) {
+  if (!getAuth(res).caregiver) {
+    res.status(403).json({ error: "Caregiver account required" });
+    return;
+  }
+  next();
+}
+
+/**
+ * Reject anyone but admins
+ */
+export function requireAdmin(_req: Request, res: Response, next: NextFunction) {
+  if (getAuth(res).caregiver?.role !== "admin") {
+    res.status(403).json({ error: "Admin account required" });
+    return;
+  }
+  next();
+}
+
+/**
+ * Resolve the patient the request is scoped to and check access
+ * Caregivers pick a patient with the X-Patient-Id header (or ?patientId= for EventSource);
+ * device tokens are always scoped to the patient they were issued for.
+ */
+export function requirePatient(req: Request, res: Response, next: NextFunction) {
+  const { session, caregiver } = getAuth(res);
+  const requested =
+    req.header("X-Patient-Id") ||
+    (typeof req.query.patientId === "string" ? req.query.patientId : undefined);
+
+  let patientId: string | undefined;
+  if (session.kind === "device") {
+    if (requested && requested !== session.patientId) {
+      res.status(403).json({ error: "Device token is not valid for this patient" });
+      return;
+    }
+    patientId = session.patientId;
+  } else {
+    if (!requested) {
+      res.status(400).json({ error: "X-Patient-Id header is required" });
+      return;
+    }
+    if (!caregiver || !canAccessPatient(caregiver, requested)) {
+      res.status(403).json({ error: "No access to this patient" });
+      return;
+    }
+    patientId = requested;
+  }
+
+  if (!patientId || !getPatient(patientId)) {
+    res.status(404).json({ error: "Patient not found" });
+    return;
+  }
+
+  res.locals.patientId = patientId;
+  next();
+}
@@ -0,0 +1,80 @@
+import type { Request, Response } from "express";
+import { createAsset, getAsset, readAssetContent } from "../store/assetsStore.js";
+import { getPatientId } from "../middleware/auth.js";
+
+// Raster formats only: SVG can carry script and assets are served inline
+const ACCEPTED_MIME_TYPES = new Set(["image/jpeg", "image/png", "image/webp", "image/gif"]);
+
+/**
+ * POST /assets
+ * Upload a binary image (raw request body, Content-Type: image/jpeg, png, webp or gif)
+ * Returns 201 with the new asset, or 200 with the existing one when the content was already uploaded
+ */
+export async function uploadAssetHandler(req: Request, res: Response) {
+  const mimeType = req.headers["content-type"]?.split(";")[0]?.trim();
+  if (!mimeType || !ACCEPTED_MIME_TYPES.has(mimeType) || !Buffer.isBuffer(req.body) || req.body.length === 0) {
+    res.status(400).json({
+      error: `Expected a binary image body with one of these Content-Types: ${[...ACCEPTED_MIME_TYPES].join(", ")}`,
+    });
+    return;
+  }
+
+  try {
+    const { asset, created } = await createAsset(getPatientId(res), req.body, mimeType);
+    res.status(created ? 201 : 200).json(asset);
+  } catch (error) {
+    console.error("[assets] ❌ Error storing asset:", error);
+    res.status(500).json({ error: "Failed to store asset" });
+  }
+}
+
+/**
+ * Serve an asset's bytes with a content-hash ETag
+ * 404 when the asset or its blob is missing, 500 when it can't be read.
+ */
+function sendAsset(req: Request, res: Response, options: { thumbnail: boolean }) {
+  const { id } = req.params;
+  if (!id) {
+    res.status(400).json({ error: "Asset ID is required" });
+    return;
+  }
+  const patientId = getPatientId(res);
+
+  try {
+    const asset = getAsset(patientId, id);
+    const content = asset && readAssetContent(patientId, asset, options);
+    if (!asset || !content) {
+      res.status(404).json({ error: "Asset not found" });
+      return;
+    }
+
+    const etag = `"${asset.hash}${options.thumbnail && asset.hasThumbnail ? "-thumb" : ""}"`;
+    res.setHeader("ETag", etag);
+    // Content never changes for an ID, but responses are per patient and token-authenticated
+    res.setHeader("Cache-Control", "private, max-age=31536000, immutable");
+    if (req.headers["if-none-match"] === etag) {
+      res.status(304).end();
+      return;
+    }
+    res.type(content.mimeType).send(content.data);
+  } catch (error) {
+    console.error("[assets] ❌ Error reading asset:", error);
+    res.status(500).json({ error: "Failed to read asset" });
+  }
+}
+
+/**
+ * GET /assets/:id
+ * Download an asset
+ */
+export function getAssetHandler(req: Request, res: Response) {
+  sendAsset(req, res, { thumbnail: false });
+}
+
+/**
+ * GET /assets/:id/thumbnail
+ * Download an asset's thumbnail (the original when no thumbnail could be generated)
+ */
+export function getAssetThumbnailHandler(req: Request, res: Response) {
+  sendAsset(req, res, { thumbnail: true });
+}
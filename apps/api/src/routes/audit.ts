@@ -0,0 +1,27 @@
+import type { Request, Response } from "express";
+import { z } from "zod";
+import { AuditEntrySchema } from "@cuelens/shared";
+import { listAuditEntries } from "../store/auditStore.js";
+import { getPatientId } from "../middleware/auth.js";
+
+const ListAuditQuerySchema = z.object({
+  entity: AuditEntrySchema.shape.entity.optional(),
+  id: z.string().min(1).optional(),
+});
+
+/**
+ * GET /audit?entity=suggestion|person&id=<entityId>
+ * List audit entries for the patient, newest first
+ */
+export function listAuditHandler(req: Request, res: Response) {
+  const validation = ListAuditQuerySchema.safeParse(req.query);
+  if (!validation.success) {
+    res.status(400).json({
+      error: "Invalid query parameters",
+      details: validation.error.errors,
+    });
+    return;
+  }
+
+  res.json(listAuditEntries(getPatientId(res), validation.data));
+}
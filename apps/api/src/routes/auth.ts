@@ -0,0 +1,118 @@
+import type { Request, Response } from "express";
+import { z } from "zod";
+import type { AuthSession, Caregiver } from "@cuelens/shared";
+import {
+  authenticateCaregiver,
+  canAccessPatient,
+  createFirstAdmin,
+  hasCaregivers,
+} from "../store/caregiversStore.js";
+import { createCaregiverSession, deleteSessionByToken } from "../store/sessionsStore.js";
+import { listPatients } from "../store/patientsStore.js";
+import { getAuth } from "../middleware/auth.js";
+
+const RegisterSchema = z.object({
+  email: z.string().email(),
+  password: z.string().min(8),
+  displayName: z.string().min(1),
+});
+
+const LoginSchema = z.object({
+  email: z.string().email(),
+  password: z.string().min(1),
+});
+
+const SETUP_COMPLETE_ERROR = "Setup is already complete. Ask an admin to create your account";
+
+function startSession(caregiver: Caregiver): AuthSession {
+  const { token, expiresAt } = createCaregiverSession(caregiver.id);
+  return { token, expiresAt, caregiver };
+}
+
+/**
+ * GET /auth/status
+ * Whether first-run setup (creating the admin account) is still required
+ */
+export function authStatusHandler(_req: Request, res: Response) {
+  res.json({ setupRequired: !hasCaregivers() });
+}
+
+/**
+ * POST /auth/register
+ * Create the first admin account; closed once any caregiver exists
+ */
+export async function registerHandler(req: Request, res: Response) {
+  if (hasCaregivers()) {
+    res.status(403).json({ error: SETUP_COMPLETE_ERROR });
+    return;
+  }
+
+  const validation = RegisterSchema.safeParse(req.body);
+  if (!validation.success) {
+    res.status(400).json({
+      error: "Invalid request data",
+      details: validation.error.errors,
+    });
+    return;
+  }
+
+  try {
+    const caregiver = await createFirstAdmin(validation.data);
+    if (!caregiver) {
+      res.status(403).json({ error: SETUP_COMPLETE_ERROR });
+      return;
+    }
+    console.log(`[auth] ✅ Created admin account ${caregiver.email}`);
+    res.status(201).json(startSession(caregiver));
+  } catch (error) {
+    console.error("[auth] ❌ Error creating admin account:", error);
+    res.status(500).json({ error: "Failed to create account" });
+  }
+}
+
+/**
+ * POST /auth/login
+ * Exchange email/password for a bearer token
+ */
+export async function loginHandler(req: Request, res: Response) {
+  const validation = LoginSchema.safeParse(req.body);
+  if (!validation.success) {
+    res.status(400).json({
+      error: "Invalid request data",
+      details: validation.error.errors,
+    });
+    return;
+  }
+
+  const { email, password } = validation.data;
+  try {
+    const caregiver = await authenticateCaregiver(email, password);
+    if (!caregiver) {
+      res.status(401).json({ error: "Invalid email or password" });
+      return;
+    }
+    res.json(startSession(caregiver));
+  } catch (error) {
+    console.error("[auth] ❌ Error logging in:", error);
+    res.status(500).json({ error: "Failed to log in" });
+  }
+}
+
+/**
+ * POST /auth/logout
+ * End the current session
+ */
+export function logoutHandler(_req: Request, res: Response) {
+  deleteSessionByToken(getAuth(res).token);
+  res.json({ success: true });
+}
+
+/**
+ * GET /auth/me
+ * Current caregiver and the patients they can access
+ */
+export function meHandler(_req: Request, res: Response) {
+  const caregiver = getAuth(res).caregiver as Caregiver;
+  const patients = listPatients().filter((p) => canAccessPatient(caregiver, p.id));
+  res.json({ caregiver, patients });
+}
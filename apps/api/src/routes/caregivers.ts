@@ -0,0 +1,85 @@
+import type { Request, Response } from "express";
+import { z } from "zod";
+import { CaregiverSchema } from "@cuelens/shared";
+import { createCaregiver, listCaregivers, updateCaregiver } from "../store/caregiversStore.js";
+import { getPatient } from "../store/patientsStore.js";
+
+const PatientIdsSchema = z
+  .array(z.string())
+  .refine((ids) => ids.every((id) => getPatient(id)), { message: "Unknown patient ID" });
+
+/**
+ * GET /caregivers
+ * List caregiver accounts (admin only)
+ */
+export function listCaregiversHandler(_req: Request, res: Response) {
+  res.json(listCaregivers());
+}
+
+/**
+ * POST /caregivers
+ * Create a caregiver account (admin only)
+ */
+export async function createCaregiverHandler(req: Request, res: Response) {
+  const schema = z.object({
+    email: z.string().email(),
+    password: z.string().min(8),
+    displayName: z.string().min(1),
+    role: CaregiverSchema.shape.role.default("caregiver"),
+    patientIds: PatientIdsSchema.optional(),
+  });
+
+  const validation = schema.safeParse(req.body);
+  if (!validation.success) {
+    res.status(400).json({
+      error: "Invalid request data",
+      details: validation.error.errors,
+    });
+    return;
+  }
+
+  try {
+    const caregiver = await createCaregiver(validation.data);
+    res.status(201).json(caregiver);
+  } catch (error) {
+    res.status(400).json({
+      error: error instanceof Error ? error.message : "Could not create caregiver",
+    });
+  }
+}
+
+/**
+ * PATCH /caregivers/:id
+ * Update a caregiver's name, role, patient access or password (admin only)
+ */
+export async function updateCaregiverHandler(req: Request, res: Response) {
+  const { id } = req.params;
+  if (!id) {
+    res.status(400).json({ error: "Caregiver ID is required" });
+    return;
+  }
+  const schema = z.object({
+    displayName: z.string().min(1).optional(),
+    role: CaregiverSchema.shape.role.optional(),
+    patientIds: PatientIdsSchema.optional(),
+    password: z.string().min(8).optional(),
+  });
+
+  const validation = schema.safeParse(req.body);
+  if (!validation.success) {
+    res.status(400).json({
+      error: "Invalid request data",
+      details: validation.error.errors,
+    });
+    return;
+  }
+
+  try {
+    const caregiver = await updateCaregiver(id, validation.data);
+    res.json(caregiver);
+  } catch (error) {
+    res.status(404).json({
+      error: error instanceof Error ? error.message : "Caregiver not found",
+    });
+  }
+}
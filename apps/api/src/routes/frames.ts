@@ -1,19 +1,23 @@
 import type { Request, Response } from "express";
 import { z } from "zod";
-import { randomUUID } from "crypto";
-
-// In-memory frame storage (base64 images)
-const frames = new Map<string, string>();
+import type { StoredFrame } from "../store/framesStore.js";
+import { createFrame, decodeDataUrl, getFrame, readFrameContent, readFrameOriginal } from "../store/framesStore.js";
+import { getFrameRetention, pruneFrames } from "../store/frameRetention.js";
+import { getRedactionConfig, redactFrame, RegionSchema } from "../media/redaction/index.js";
+import { getPatientId } from "../middleware/auth.js";
 
 const FrameUploadSchema = z.object({
   image: z.string(), // base64 image
+  subject: RegionSchema.optional(), // area to keep sharp when redaction is on (defaults to FRAME_REDACTION_SUBJECT)
 });
 
 /**
  * POST /frames
- * Upload a frame image (base64) and get a frameAssetId
+ * Upload a frame image (base64 data URL) and get a frameAssetId
+ * With FRAME_REDACTION=on the frame is redacted before it is stored; if redaction fails the
+ * frame is rejected (503) rather than stored unredacted.
  */
-export function uploadFrameHandler(req: Request, res: Response) {
+export async function uploadFrameHandler(req: Request, res: Response) {
   const validation = FrameUploadSchema.safeParse(req.body);
   if (!validation.success) {
     res.status(400).json({
@@ -23,20 +27,51 @@ export function uploadFrameHandler(req: Request, res: Response) {
     return;
   }
 
-  const { image } = validation.data;
+  const decoded = decodeDataUrl(validation.data.image);
+  if (!decoded?.mimeType.startsWith("image/")) {
+    res.status(400).json({ error: "Expected the image as a base64 data URL (data:image/...;base64,...)" });
+    return;
+  }
 
-  // Generate frame asset ID
-  const frameAssetId = randomUUID();
+  const patientId = getPatientId(res);
+  let frame: StoredFrame;
+  try {
+    const { enabled, detectors, defaultSubject } = getRedactionConfig();
+    const subject = validation.data.subject ?? defaultSubject;
+    const redacted = enabled ? await redactFrame(decoded.data, decoded.mimeType, { subject, detectors }) : undefined;
+    if (enabled && !redacted) {
+      res.status(503).json({ error: "Frame redaction is unavailable; the frame was not stored" });
+      return;
+    }
+    // A frame with nothing to blur is stored as is: not marked redacted, and no original kept
+    if (redacted?.blurred) {
+      const { originalTtlMs } = getFrameRetention();
+      frame = createFrame(patientId, redacted.data, redacted.mimeType, {
+        original: originalTtlMs > 0 ? { ...decoded, expiresAt: Date.now() + originalTtlMs } : undefined,
+      });
+      console.log(`[frames] 🔒 Redacted frame ${frame.id} (${redacted.regions.length} flagged region(s))`);
+    } else {
+      frame = createFrame(patientId, decoded.data, decoded.mimeType);
+    }
+  } catch (error) {
+    console.error("[frames] ❌ Error storing frame:", error);
+    res.status(500).json({ error: "Failed to store frame" });
+    return;
+  }
 
-  // Store base64 image in memory
-  frames.set(frameAssetId, image);
+  // Keep storage within the configured limits; the new frame is the most recently used
+  try {
+    pruneFrames(patientId);
+  } catch (error) {
+    console.error("[frames] ❌ Error pruning frames:", error);
+  }
 
-  res.json({ frameAssetId });
+  res.json({ frameAssetId: frame.id, redacted: frame.redacted });
 }
 
 /**
  * GET /frames/:id
- * Retrieve a frame by frameAssetId
+ * Download a frame image (e.g. image/jpeg) by frameAssetId, with a content-hash ETag
  */
 export function getFrameHandler(req: Request, res: Response) {
   const { id } = req.params;
@@ -46,12 +81,46 @@ export function getFrameHandler(req: Request, res: Response) {
     return;
   }
 
-  const frame = frames.get(id);
-  if (!frame) {
+  const patientId = getPatientId(res);
+  const frame = getFrame(patientId, id);
+  const content = frame && readFrameContent(patientId, frame);
+  if (!frame || !content) {
     res.status(404).json({ error: "Frame not found" });
     return;
   }
 
-  // Return base64 image
-  res.json({ frameAssetId: id, image: frame });
+  const etag = `"${frame.hash}"`;
+  res.setHeader("ETag", etag);
+  // A frame ID always maps to the same image, though it may later be pruned
+  res.setHeader("Cache-Control", "private, max-age=86400");
+  if (req.headers["if-none-match"] === etag) {
+    res.status(304).end();
+    return;
+  }
+  res.type(content.mimeType).send(content.data);
+}
+
+/**
+ * GET /frames/:id/original
+ * Download the unredacted image of a redacted frame, until it is discarded
+ */
+export function getFrameOriginalHandler(req: Request, res: Response) {
+  const { id } = req.params;
+
+  if (!id) {
+    res.status(400).json({ error: "Frame ID is required" });
+    return;
+  }
+
+  const patientId = getPatientId(res);
+  const frame = getFrame(patientId, id);
+  const content = frame && readFrameOriginal(patientId, frame);
+  if (!content) {
+    res.status(404).json({ error: "Original frame not found or already discarded" });
+    return;
+  }
+
+  // Never cache unredacted images
+  res.setHeader("Cache-Control", "no-store");
+  res.type(content.mimeType).send(content.data);
 }
@@ -0,0 +1,108 @@
+import type { Request, Response } from "express";
+import { z } from "zod";
+import type { Caregiver } from "@cuelens/shared";
+import { createPatient, getPatient, listPatients, updatePatient } from "../store/patientsStore.js";
+import { canAccessPatient } from "../store/caregiversStore.js";
+import { createDeviceSession } from "../store/sessionsStore.js";
+import { getAuth } from "../middleware/auth.js";
+
+/**
+ * GET /patients
+ * List the patients the current caregiver can access
+ */
+export function listPatientsHandler(_req: Request, res: Response) {
+  const caregiver = getAuth(res).caregiver as Caregiver;
+  res.json(listPatients().filter((p) => canAccessPatient(caregiver, p.id)));
+}
+
+/**
+ * POST /patients
+ * Create a new patient (admin only)
+ */
+export function createPatientHandler(req: Request, res: Response) {
+  const schema = z.object({
+    displayName: z.string().min(1),
+    notes: z.string().optional(),
+  });
+
+  const validation = schema.safeParse(req.body);
+  if (!validation.success) {
+    res.status(400).json({
+      error: "Invalid request data",
+      details: validation.error.errors,
+    });
+    return;
+  }
+
+  const patient = createPatient(validation.data);
+  res.status(201).json(patient);
+}
+
+/**
+ * PATCH /patients/:id
+ * Update a patient (admin only)
+ */
+export function updatePatientHandler(req: Request, res: Response) {
+  const { id } = req.params;
+  if (!id) {
+    res.status(400).json({ error: "Patient ID is required" });
+    return;
+  }
+  const schema = z.object({
+    displayName: z.string().min(1).optional(),
+    notes: z.string().optional(),
+  });
+
+  const validation = schema.safeParse(req.body);
+  if (!validation.success) {
+    res.status(400).json({
+      error: "Invalid request data",
+      details: validation.error.errors,
+    });
+    return;
+  }
+
+  try {
+    const patient = updatePatient(id, validation.data);
+    res.json(patient);
+  } catch (error) {
+    res.status(404).json({
+      error: error instanceof Error ? error.message : "Patient not found",
+    });
+  }
+}
+
+/**
+ * POST /patients/:id/devices
+ * Issue a device token bound to this patient (for the camera/HUD in their room)
+ * The token is only returned once
+ */
+export function createDeviceTokenHandler(req: Request, res: Response) {
+  const { id } = req.params;
+  if (!id) {
+    res.status(400).json({ error: "Patient ID is required" });
+    return;
+  }
+  const caregiver = getAuth(res).caregiver as Caregiver;
+  if (!getPatient(id) || !canAccessPatient(caregiver, id)) {
+    res.status(404).json({ error: "Patient not found" });
+    return;
+  }
+
+  const schema = z.object({
+    label: z.string().min(1).optional(),
+  });
+
+  const validation = schema.safeParse(req.body ?? {});
+  if (!validation.success) {
+    res.status(400).json({
+      error: "Invalid request data",
+      details: validation.error.errors,
+    });
+    return;
+  }
+
+  const { token } = createDeviceSession(id, validation.data.label);
+  console.log(`[patients] Issued device token for patient ${id}`);
+  res.status(201).json({ token, patientId: id });
+}
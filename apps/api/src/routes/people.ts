@@ -1,5 +1,6 @@
 import type { Request, Response } from "express";
 import { z } from "zod";
+import { PersonRelationshipSchema } from "@cuelens/shared";
 import {
   listPeople,
   getPerson,
@@ -7,17 +8,30 @@ import {
   updatePerson,
   upsertPerson,
   deletePerson,
+  mergePeople,
+  listRelationshipEdges,
 } from "../store/peopleStore.js";
+import { reassignSuggestionsPerson } from "../store/suggestionsStore.js";
+import { findDuplicatePeople } from "../engine/duplicatePeople.js";
+import { getActor, getPatientId } from "../middleware/auth.js";
 
 /**
  * GET /people
  * List all people
  */
 export function listPeopleHandler(_req: Request, res: Response) {
-  const people = listPeople();
+  const people = listPeople(getPatientId(res));
   res.json(people);
 }
 
+/**
+ * GET /people/duplicates
+ * List pairs of people that are likely the same human, strongest first
+ */
+export function listDuplicatePeopleHandler(_req: Request, res: Response) {
+  res.json(findDuplicatePeople(listPeople(getPatientId(res))));
+}
+
 /**
  * GET /people/:id
  * Get a person by ID
@@ -28,7 +42,7 @@ export function getPersonHandler(req: Request, res: Response) {
     res.status(400).json({ error: "Person ID is required" });
     return;
   }
-  const person = getPerson(id);
+  const person = getPerson(getPatientId(res), id);
 
   if (!person) {
     res.status(404).json({ error: "Person not found" });
@@ -47,7 +61,8 @@ export function createPersonHandler(req: Request, res: Response) {
     displayName: z.string().min(1),
     relationship: z.string().optional(),
     notes: z.string().optional(),
-    photoAssetId: z.string().optional(),
+    photoAssetId: z.string().optional(), // primary photo
+    photoAssetIds: z.array(z.string()).optional(),
     embeddingId: z.string().optional(),
     remindersEnabled: z.boolean().optional(),
   }).passthrough(); // Allow additional fields for future extensibility
@@ -61,7 +76,7 @@ export function createPersonHandler(req: Request, res: Response) {
     return;
   }
 
-  const person = createPerson(validation.data);
+  const person = createPerson(getPatientId(res), validation.data, getActor(res));
   res.status(201).json(person);
 }
 
@@ -74,7 +89,8 @@ export function upsertPersonHandler(req: Request, res: Response) {
     displayName: z.string().min(1),
     relationship: z.string().optional(),
     notes: z.string().optional(),
-    photoAssetId: z.string().optional(),
+    photoAssetId: z.string().optional(), // primary photo
+    photoAssetIds: z.array(z.string()).optional(),
     embeddingId: z.string().optional(),
     remindersEnabled: z.boolean().optional(),
   }).passthrough(); // Allow additional fields for future extensibility
@@ -88,7 +104,7 @@ export function upsertPersonHandler(req: Request, res: Response) {
     return;
   }
 
-  const person = upsertPerson(validation.data);
+  const person = upsertPerson(getPatientId(res), validation.data, getActor(res));
   res.json(person);
 }
 
@@ -106,7 +122,8 @@ export function updatePersonHandler(req: Request, res: Response) {
     displayName: z.string().min(1).optional(),
     relationship: z.string().optional(),
     notes: z.string().optional(),
-    photoAssetId: z.string().optional(),
+    photoAssetId: z.string().optional(), // primary photo
+    photoAssetIds: z.array(z.string()).optional(),
     embeddingId: z.string().optional(),
     remindersEnabled: z.boolean().optional(),
   });
@@ -121,7 +138,7 @@ export function updatePersonHandler(req: Request, res: Response) {
   }
 
   try {
-    const person = updatePerson(id, validation.data);
+    const person = updatePerson(getPatientId(res), id, validation.data, getActor(res));
     res.json(person);
   } catch (error) {
     res.status(404).json({
@@ -140,7 +157,7 @@ export function deletePersonHandler(req: Request, res: Response) {
     res.status(400).json({ error: "Person ID is required" });
     return;
   }
-  const deleted = deletePerson(id);
+  const deleted = deletePerson(getPatientId(res), id, getActor(res));
 
   if (!deleted) {
     res.status(404).json({ error: "Person not found" });
@@ -149,3 +166,115 @@ export function deletePersonHandler(req: Request, res: Response) {
 
   res.json({ success: true });
 }
+
+/**
+ * POST /people/:id/merge
+ * Fold the person `duplicateId` into this one: fields are combined, suggestions about the
+ * duplicate are re-pointed here, and the duplicate is deleted
+ */
+export function mergePersonHandler(req: Request, res: Response) {
+  const { id } = req.params;
+  if (!id) {
+    res.status(400).json({ error: "Person ID is required" });
+    return;
+  }
+  const schema = z.object({
+    duplicateId: z.string().min(1),
+  });
+
+  const validation = schema.safeParse(req.body);
+  if (!validation.success) {
+    res.status(400).json({
+      error: "Invalid request data",
+      details: validation.error.errors,
+    });
+    return;
+  }
+
+  const { duplicateId } = validation.data;
+  if (duplicateId === id) {
+    res.status(400).json({ error: "Cannot merge a person into themselves" });
+    return;
+  }
+
+  const patientId = getPatientId(res);
+  const actor = getActor(res);
+  if (!getPerson(patientId, id) || !getPerson(patientId, duplicateId)) {
+    res.status(404).json({ error: "Person not found" });
+    return;
+  }
+
+  const reassigned = reassignSuggestionsPerson(patientId, duplicateId, id, actor);
+  const person = mergePeople(patientId, id, duplicateId, actor);
+  console.log(`[people] 🔗 Merged duplicate person:`, {
+    personId: id,
+    duplicateId,
+    reassignedSuggestions: reassigned,
+  });
+  res.json(person);
+}
+
+/**
+ * GET /people/:id/relationships
+ * Relationship graph around a person: their edges (to the patient or other people) and
+ * edges from other people pointing at them
+ */
+export function getPersonRelationshipsHandler(req: Request, res: Response) {
+  const { id } = req.params;
+  if (!id) {
+    res.status(400).json({ error: "Person ID is required" });
+    return;
+  }
+  const patientId = getPatientId(res);
+  if (!getPerson(patientId, id)) {
+    res.status(404).json({ error: "Person not found" });
+    return;
+  }
+
+  res.json(listRelationshipEdges(patientId, id));
+}
+
+/**
+ * PUT /people/:id/relationships
+ * Replace a person's relationship edges; the edge to the patient also sets `relationship`
+ */
+export function updatePersonRelationshipsHandler(req: Request, res: Response) {
+  const { id } = req.params;
+  if (!id) {
+    res.status(400).json({ error: "Person ID is required" });
+    return;
+  }
+  const schema = z.object({
+    relationships: z.array(PersonRelationshipSchema),
+  });
+
+  const validation = schema.safeParse(req.body);
+  if (!validation.success) {
+    res.status(400).json({
+      error: "Invalid request data",
+      details: validation.error.errors,
+    });
+    return;
+  }
+
+  const { relationships } = validation.data;
+  const patientId = getPatientId(res);
+  if (!getPerson(patientId, id)) {
+    res.status(404).json({ error: "Person not found" });
+    return;
+  }
+  if (relationships.filter((r) => !r.personId).length > 1) {
+    res.status(400).json({ error: "A person can have only one relationship to the patient" });
+    return;
+  }
+  const invalidTarget = relationships.find(
+    (r) => r.personId && (r.personId === id || !getPerson(patientId, r.personId))
+  );
+  if (invalidTarget) {
+    res.status(400).json({ error: `Invalid related person "${invalidTarget.personId}"` });
+    return;
+  }
+
+  updatePerson(patientId, id, { relationships }, getActor(res));
+  res.json(listRelationshipEdges(patientId, id));
+}
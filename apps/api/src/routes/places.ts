@@ -0,0 +1,125 @@
+import type { Request, Response } from "express";
+import { z } from "zod";
+import { RoomObservationSchema } from "@cuelens/shared";
+import {
+  listPlaces,
+  getPlace,
+  createPlace,
+  updatePlace,
+  deletePlace,
+} from "../store/placesStore.js";
+import { getPatientId } from "../middleware/auth.js";
+
+/**
+ * GET /places
+ * List all places
+ */
+export function listPlacesHandler(_req: Request, res: Response) {
+  const places = listPlaces(getPatientId(res));
+  res.json(places);
+}
+
+/**
+ * GET /places/:id
+ * Get a place by ID
+ */
+export function getPlaceHandler(req: Request, res: Response) {
+  const { id } = req.params;
+  if (!id) {
+    res.status(400).json({ error: "Place ID is required" });
+    return;
+  }
+  const place = getPlace(getPatientId(res), id);
+
+  if (!place) {
+    res.status(404).json({ error: "Place not found" });
+    return;
+  }
+
+  res.json(place);
+}
+
+/**
+ * POST /places
+ * Create a new place (optionally with its aggregated room fingerprint)
+ */
+export function createPlaceHandler(req: Request, res: Response) {
+  const schema = z.object({
+    displayName: z.string().min(1),
+    notes: z.string().optional(),
+    photoAssetId: z.string().optional(),
+    embeddingId: z.string().optional(),
+    fingerprint: RoomObservationSchema.optional(),
+    observationCount: z.number().int().nonnegative().optional(),
+  }).passthrough(); // Allow additional fields for future extensibility
+
+  const validation = schema.safeParse(req.body);
+  if (!validation.success) {
+    res.status(400).json({
+      error: "Invalid request data",
+      details: validation.error.errors,
+    });
+    return;
+  }
+
+  const place = createPlace(getPatientId(res), validation.data);
+  res.status(201).json(place);
+}
+
+/**
+ * PATCH /places/:id
+ * Update a place
+ */
+export function updatePlaceHandler(req: Request, res: Response) {
+  const { id } = req.params;
+  if (!id) {
+    res.status(400).json({ error: "Place ID is required" });
+    return;
+  }
+  const schema = z.object({
+    displayName: z.string().min(1).optional(),
+    notes: z.string().optional(),
+    photoAssetId: z.string().optional(),
+    embeddingId: z.string().optional(),
+    fingerprint: RoomObservationSchema.optional(),
+    observationCount: z.number().int().nonnegative().optional(),
+  });
+
+  const validation = schema.safeParse(req.body);
+  if (!validation.success) {
+    res.status(400).json({
+      error: "Invalid request data",
+      details: validation.error.errors,
+    });
+    return;
+  }
+
+  try {
+    const place = updatePlace(getPatientId(res), id, validation.data);
+    res.json(place);
+  } catch (error) {
+    res.status(404).json({
+      error: error instanceof Error ? error.message : "Place not found",
+    });
+  }
+}
+
+/**
+ * DELETE /places/:id
+ * Delete a place
+ */
+export function deletePlaceHandler(req: Request, res: Response) {
+  const { id } = req.params;
+  if (!id) {
+    res.status(400).json({ error: "Place ID is required" });
+    return;
+  }
+  const deleted = deletePlace(getPatientId(res), id);
+
+  if (!deleted) {
+    res.status(404).json({ error: "Place not found" });
+    return;
+  }
+
+  res.json({ success: true });
+}
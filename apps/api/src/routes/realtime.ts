@@ -1,6 +1,7 @@
 import type { IncomingMessage } from "http";
 import { WebSocketServer, WebSocket } from "ws";
 import type { Server } from "http";
+import { getRequestToken, resolveAuth } from "../middleware/auth.js";
 
 /**
  * Safe WebSocket close helper to prevent crashes from invalid codes
@@ -60,6 +61,8 @@ export function setupRealtimeProxy(server: Server) {
   wss = new WebSocketServer({
     server,
     path: "/realtime/connect",
+    // Browsers cannot set headers on WebSockets, so the token comes from ?access_token=
+    verifyClient: ({ req }: { req: IncomingMessage }) => !!resolveAuth(getRequestToken(req, { allowQuery: true })),
   });
 
   wss.on("connection", async (clientWs: WebSocket, req: IncomingMessage) => {
@@ -0,0 +1,36 @@
+import type { Request, Response } from "express";
+import { PatientSettingsUpdateSchema } from "@cuelens/shared";
+import { getSettings, updateSettings } from "../store/settingsStore.js";
+import { getActor, getPatientId } from "../middleware/auth.js";
+
+/**
+ * GET /settings
+ * Get the patient's suggestion and recognition settings (defaults filled in)
+ */
+export function getSettingsHandler(_req: Request, res: Response) {
+  res.json(getSettings(getPatientId(res)));
+}
+
+/**
+ * PATCH /settings
+ * Change some settings; fields left out keep their current values
+ */
+export function updateSettingsHandler(req: Request, res: Response) {
+  const validation = PatientSettingsUpdateSchema.safeParse(req.body);
+  if (!validation.success) {
+    res.status(400).json({
+      error: "Invalid request data",
+      details: validation.error.errors,
+    });
+    return;
+  }
+
+  const patientId = getPatientId(res);
+  const merged = { ...getSettings(patientId), ...validation.data };
+  if (merged.minConfidence > merged.maxConfidence) {
+    res.status(400).json({ error: "minConfidence must not be greater than maxConfidence" });
+    return;
+  }
+
+  res.json(updateSettings(patientId, validation.data, getActor(res)));
+}
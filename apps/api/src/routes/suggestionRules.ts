@@ -0,0 +1,84 @@
+import type { Request, Response } from "express";
+import { SuggestionRuleCreateSchema, SuggestionRuleUpdateSchema } from "@cuelens/shared";
+import {
+  createSuggestionRule,
+  deleteSuggestionRule,
+  listSuggestionRules,
+  updateSuggestionRule,
+} from "../store/suggestionRulesStore.js";
+import { getActor, getPatientId } from "../middleware/auth.js";
+
+/**
+ * GET /suggestion-rules
+ * List the patient's suggestion rules in evaluation order
+ */
+export function listSuggestionRulesHandler(_req: Request, res: Response) {
+  res.json(listSuggestionRules(getPatientId(res)));
+}
+
+/**
+ * POST /suggestion-rules
+ * Create a rule, e.g. { name, action: "reject", conditions: { maxConfidence: 0.75 } }
+ */
+export function createSuggestionRuleHandler(req: Request, res: Response) {
+  const validation = SuggestionRuleCreateSchema.safeParse(req.body);
+  if (!validation.success) {
+    res.status(400).json({
+      error: "Invalid rule data",
+      details: validation.error.errors,
+    });
+    return;
+  }
+
+  const rule = createSuggestionRule(getPatientId(res), validation.data, getActor(res));
+  res.status(201).json(rule);
+}
+
+/**
+ * PATCH /suggestion-rules/:id
+ * Update a rule (conditions are replaced as a whole)
+ */
+export function updateSuggestionRuleHandler(req: Request, res: Response) {
+  const { id } = req.params;
+  if (!id) {
+    res.status(400).json({ error: "Rule ID is required" });
+    return;
+  }
+
+  const validation = SuggestionRuleUpdateSchema.safeParse(req.body);
+  if (!validation.success) {
+    res.status(400).json({
+      error: "Invalid rule data",
+      details: validation.error.errors,
+    });
+    return;
+  }
+
+  try {
+    const rule = updateSuggestionRule(getPatientId(res), id, validation.data, getActor(res));
+    res.json(rule);
+  } catch (error) {
+    res.status(404).json({
+      error: error instanceof Error ? error.message : "Rule not found",
+    });
+  }
+}
+
+/**
+ * DELETE /suggestion-rules/:id
+ * Delete a rule
+ */
+export function deleteSuggestionRuleHandler(req: Request, res: Response) {
+  const { id } = req.params;
+  if (!id) {
+    res.status(400).json({ error: "Rule ID is required" });
+    return;
+  }
+
+  if (!deleteSuggestionRule(getPatientId(res), id, getActor(res))) {
+    res.status(404).json({ error: "Rule not found" });
+    return;
+  }
+
+  res.json({ success: true });
+}
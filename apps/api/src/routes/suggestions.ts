@@ -1,25 +1,36 @@
 import type { Request, Response } from "express";
-import { z } from "zod";
-import { SuggestionCreateSchema } from "@cuelens/shared";
+import {
+  SuggestionApproveSchema,
+  SuggestionBulkRequestSchema,
+  SuggestionCreateSchema,
+  SuggestionListQuerySchema,
+} from "@cuelens/shared";
 import {
   createSuggestion,
-  listSuggestions,
+  querySuggestions,
   approveSuggestion,
   rejectSuggestion,
   getSuggestion,
+  revertSuggestion,
 } from "../store/suggestionsStore.js";
-import { upsertPerson } from "../store/peopleStore.js";
+import {
+  applyAutoApproval,
+  applySuggestionApproval,
+  checkSuggestionApproval,
+  undoSuggestionApproval,
+} from "../store/suggestionApproval.js";
+import { applyBulkReview } from "../store/suggestionBulk.js";
+import { getActor, getPatientId } from "../middleware/auth.js";
 
-// Helper function to convert string to title case
-function toTitleCase(str: string): string {
-  return str.charAt(0).toUpperCase() + str.slice(1).toLowerCase();
-}
+// How long after a decision it can be undone; a little over the web app's 30s Undo, for slow requests
+const REVERT_GRACE_MS = 60 * 1000;
 
 /**
  * POST /suggestions
- * Create a new suggestion
+ * Create a new suggestion (suggestion rules may approve or reject it immediately)
+ * Returns 201 with the new suggestion, or 200 with the pending one a near-identical input was merged into
  */
-export function createSuggestionHandler(req: Request, res: Response) {
+export async function createSuggestionHandler(req: Request, res: Response) {
   const validation = SuggestionCreateSchema.safeParse(req.body);
   if (!validation.success) {
     res.status(400).json({
@@ -29,54 +40,72 @@ export function createSuggestionHandler(req: Request, res: Response) {
     return;
   }
 
-  const suggestion = createSuggestion(validation.data);
-  res.status(201).json(suggestion);
+  try {
+    const patientId = getPatientId(res);
+    const { suggestion, created } = createSuggestion(patientId, validation.data, getActor(res));
+    await applyAutoApproval(patientId, suggestion);
+    res.status(created ? 201 : 200).json(suggestion);
+  } catch (error) {
+    console.error("[suggestions] ❌ Error creating suggestion:", error);
+    res.status(500).json({ error: "Failed to create suggestion" });
+  }
 }
 
 /**
- * GET /suggestions?status=pending|approved|rejected
- * List suggestions, optionally filtered by status
+ * GET /suggestions?status=&type=&personId=&q=&createdFrom=&createdTo=&minOccurrences=&collapsedInto=
+ *   &sort=createdAt|updatedAt&order=asc|desc&limit=&cursor=
+ * One page of suggestions, newest first by default (see SuggestionListQuerySchema)
  */
 export function listSuggestionsHandler(req: Request, res: Response) {
-  const status = req.query.status as "pending" | "approved" | "rejected" | undefined;
-  
-  // Validate status if provided
-  if (status && !["pending", "approved", "rejected"].includes(status)) {
+  const validation = SuggestionListQuerySchema.safeParse(req.query);
+  if (!validation.success) {
     res.status(400).json({
-      error: "Invalid status. Must be 'pending', 'approved', or 'rejected'",
+      error: "Invalid query parameters",
+      details: validation.error.errors,
     });
     return;
   }
 
-  const suggestions = listSuggestions(status);
-  res.json(suggestions);
+  try {
+    res.json(querySuggestions(getPatientId(res), validation.data));
+  } catch (error) {
+    res.status(400).json({ error: error instanceof Error ? error.message : "Invalid query parameters" });
+  }
 }
 
-const ApproveSuggestionSchema = z.object({
-  remindersEnabled: z.boolean().optional(),
-  displayName: z.string().optional(), // Allow caregiver to edit name
-});
-
 /**
  * POST /suggestions/:id/approve
- * Approve a suggestion
+ * Approve a suggestion, optionally with caregiver edits (name, relationship, notes, existing
+ * person to attach it to, what to do with the photo)
  * For identify_person suggestions, creates/updates the person in the people store
+ * The evidence frame, if any, is copied into the asset store and added to the person's photos
+ * 409 when the suggestion is already approved or was merged into another one
  */
-export function approveSuggestionHandler(req: Request, res: Response) {
+export async function approveSuggestionHandler(req: Request, res: Response) {
   const { id } = req.params;
   if (!id) {
     res.status(400).json({ error: "Suggestion ID is required" });
     return;
   }
+  const patientId = getPatientId(res);
+  const actor = getActor(res);
   
-  const existing = getSuggestion(id);
+  const existing = getSuggestion(patientId, id);
   if (!existing) {
     res.status(404).json({ error: "Suggestion not found" });
     return;
   }
+  // Approving again would save the person or place a second time; rejected and expired
+  // suggestions can still be approved, except duplicates merged into another one
+  if (existing.status === "approved" || existing.collapsedInto) {
+    res.status(409).json({
+      error: existing.collapsedInto ? "Suggestion was merged into another one" : "Suggestion is already approved",
+    });
+    return;
+  }
 
   // Validate optional body params
-  const bodyValidation = ApproveSuggestionSchema.safeParse(req.body);
+  const bodyValidation = SuggestionApproveSchema.safeParse(req.body);
   if (!bodyValidation.success) {
     res.status(400).json({
       error: "Invalid request body",
@@ -85,60 +114,21 @@ export function approveSuggestionHandler(req: Request, res: Response) {
     return;
   }
 
-  const { remindersEnabled, displayName } = bodyValidation.data || {};
+  const edits = bodyValidation.data;
+  const approvalError = checkSuggestionApproval(patientId, existing, edits);
+  if (approvalError) {
+    res.status(400).json({ error: approvalError });
+    return;
+  }
 
   // Approve the suggestion
-  const updated = approveSuggestion(id);
-
-  // If it's an identify_person suggestion, create/update the person
-  if (updated.type === "identify_person" && updated.proposed.displayName) {
-    const personName = displayName || updated.proposed.displayName;
-    if (personName) {
-      try {
-        const createdPerson = upsertPerson({
-          displayName: personName,
-          relationship: updated.proposed.relationship,
-          photoAssetId: updated.evidence.frameAssetId,
-          remindersEnabled: remindersEnabled ?? false,
-          notes: `Added via suggestion approval from transcript: "${updated.evidence.transcriptSnippet}"`,
-        });
-        console.log(`[suggestions] ✅ Created/updated person from identify_person suggestion:`, {
-          personId: createdPerson.id,
-          displayName: createdPerson.displayName,
-          suggestionId: id,
-        });
-      } catch (error) {
-        console.error(`[suggestions] ❌ Error creating person from identify_person suggestion:`, error);
-        // Continue even if person creation fails - we still approved the suggestion
-      }
-    }
-  }
-
-  // If it's a relationship_suggestion, create/update the person
-  if (updated.type === "relationship_suggestion" && updated.proposed.relationship) {
-    // For relationship suggestions, we need a display name - use the relationship as default
-    // or allow the caregiver to provide one (could be enhanced in future)
-    const personName = displayName || toTitleCase(updated.proposed.relationship);
-    if (personName) {
-      try {
-        const createdPerson = upsertPerson({
-          displayName: personName,
-          relationship: updated.proposed.relationship,
-          photoAssetId: updated.evidence.frameAssetId,
-          remindersEnabled: remindersEnabled ?? false,
-          notes: `Added via relationship suggestion approval from transcript: "${updated.evidence.transcriptSnippet}"`,
-        });
-        console.log(`[suggestions] ✅ Created/updated person from relationship_suggestion:`, {
-          personId: createdPerson.id,
-          displayName: createdPerson.displayName,
-          relationship: createdPerson.relationship,
-          suggestionId: id,
-        });
-      } catch (error) {
-        console.error(`[suggestions] ❌ Error creating person from relationship_suggestion:`, error);
-        // Continue even if person creation fails - we still approved the suggestion
-      }
-    }
+  const updated = approveSuggestion(patientId, id, actor);
+
+  try {
+    await applySuggestionApproval(patientId, updated, edits, actor);
+  } catch (error) {
+    console.error(`[suggestions] ❌ Error applying ${updated.type} approval:`, error);
+    // Continue even if saving the person or place fails - we still approved the suggestion
   }
 
   res.json(updated);
@@ -155,12 +145,73 @@ export function rejectSuggestionHandler(req: Request, res: Response) {
     return;
   }
   
-  const existing = getSuggestion(id);
+  const existing = getSuggestion(getPatientId(res), id);
   if (!existing) {
     res.status(404).json({ error: "Suggestion not found" });
     return;
   }
 
-  const updated = rejectSuggestion(id);
+  const updated = rejectSuggestion(getPatientId(res), id, getActor(res));
   res.json(updated);
-}
\ No newline at end of file
+}
+
+/**
+ * POST /suggestions/bulk
+ * Approve or reject several pending suggestions in one go (with optional per-ID approval edits)
+ * All or nothing: 409 with per-item results when any of them cannot be decided
+ */
+export async function bulkSuggestionsHandler(req: Request, res: Response) {
+  const validation = SuggestionBulkRequestSchema.safeParse(req.body);
+  if (!validation.success) {
+    res.status(400).json({
+      error: "Invalid bulk request",
+      details: validation.error.errors,
+    });
+    return;
+  }
+
+  try {
+    const result = await applyBulkReview(getPatientId(res), validation.data, getActor(res));
+    res.status(result.applied ? 200 : 409).json(result);
+  } catch (error) {
+    console.error("[suggestions] ❌ Error applying bulk review:", error);
+    res.status(500).json({ error: "Failed to apply bulk review" });
+  }
+}
+
+/**
+ * POST /suggestions/:id/revert
+ * Undo an approval or rejection within REVERT_GRACE_MS of it: the suggestion goes back to
+ * pending, and a person the approval created is deleted (or one it updated gets its previous
+ * fields back). 409 once the grace period, counted from `decidedAt`, has passed.
+ */
+export function revertSuggestionHandler(req: Request, res: Response) {
+  const { id } = req.params;
+  if (!id) {
+    res.status(400).json({ error: "Suggestion ID is required" });
+    return;
+  }
+  const patientId = getPatientId(res);
+  const actor = getActor(res);
+
+  const existing = getSuggestion(patientId, id);
+  if (!existing) {
+    res.status(404).json({ error: "Suggestion not found" });
+    return;
+  }
+  if (existing.status === "pending" || existing.status === "expired") {
+    res.status(400).json({ error: `Suggestion is ${existing.status}, there is no decision to revert` });
+    return;
+  }
+  // Measured from the decision itself: later updates (e.g. re-pointing after a merge) don't extend it.
+  // Decisions recorded before decidedAt existed are past the window anyway.
+  if (existing.decidedAt === undefined || Date.now() - existing.decidedAt > REVERT_GRACE_MS) {
+    res.status(409).json({ error: "The decision is too old to undo" });
+    return;
+  }
+
+  undoSuggestionApproval(patientId, id, actor);
+
+  const updated = revertSuggestion(patientId, id, actor);
+  res.json(updated);
+}
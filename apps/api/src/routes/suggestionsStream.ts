@@ -0,0 +1,106 @@
+import type { Request, Response } from "express";
+import type { SuggestionEvent } from "@cuelens/shared";
+import { subscribeToSuggestionEvents } from "../store/suggestionsStore.js";
+import { getPatientId } from "../middleware/auth.js";
+
+/**
+ * Server-Sent Events stream of suggestion changes
+ *
+ * Event IDs are "<epoch>-<seq>", where epoch identifies this server process. A client
+ * reconnecting with Last-Event-ID (header or ?lastEventId=) gets the events it missed
+ * replayed from a bounded buffer; if the ID is unknown (evicted, or from before a restart)
+ * it receives a "reset" event and should refetch the full list.
+ *
+ * Sequence numbers are shared across patients; each client only sees its own patient's events.
+ */
+
+const BUFFER_SIZE = 500;
+const HEARTBEAT_MS = 15 * 1000; // Keeps proxies from closing idle connections
+
+const epoch = Date.now().toString(36);
+let seq = 0;
+const buffer: Array<{ seq: number; patientId: string; event: SuggestionEvent }> = [];
+const clients = new Map<Response, string>(); // client -> patient ID
+
+function formatEventId(eventSeq: number): string {
+  return `${epoch}-${eventSeq}`;
+}
+
+function writeEvent(res: Response, name: string, id: string, data: unknown) {
+  res.write(`event: ${name}\nid: ${id}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+// Record every change (even with no clients connected) so reconnecting clients can resume
+subscribeToSuggestionEvents((patientId, event) => {
+  seq += 1;
+  buffer.push({ seq, patientId, event });
+  if (buffer.length > BUFFER_SIZE) {
+    buffer.shift();
+  }
+  for (const [client, clientPatientId] of clients) {
+    if (clientPatientId === patientId) {
+      writeEvent(client, "suggestion", formatEventId(seq), event);
+    }
+  }
+});
+
+/**
+ * Resolve a patient's events missed since lastEventId
+ * Returns null when the ID cannot be resumed from
+ */
+function eventsSince(patientId: string, lastEventId: string): typeof buffer | null {
+  const [idEpoch, idSeq] = lastEventId.split("-");
+  const lastSeq = Number(idSeq);
+  if (idEpoch !== epoch || !Number.isInteger(lastSeq) || lastSeq > seq) {
+    return null;
+  }
+  const oldest = buffer[0]?.seq ?? seq + 1;
+  if (lastSeq < oldest - 1) {
+    return null; // Missed events have been evicted from the buffer
+  }
+  return buffer.filter((entry) => entry.seq > lastSeq && entry.patientId === patientId);
+}
+
+/**
+ * GET /suggestions/stream
+ * Push created/approved/rejected suggestion events to caregiver clients
+ */
+export function streamSuggestionsHandler(req: Request, res: Response) {
+  const patientId = getPatientId(res);
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  res.flushHeaders();
+
+  const lastEventId =
+    req.header("Last-Event-ID") ||
+    (typeof req.query.lastEventId === "string" ? req.query.lastEventId : undefined);
+
+  if (!lastEventId) {
+    // Fresh connection - client should load the current list after this
+    writeEvent(res, "ready", formatEventId(seq), {});
+  } else {
+    const missed = eventsSince(patientId, lastEventId);
+    if (missed === null) {
+      console.log(`[suggestions] SSE client could not resume from ${lastEventId}, sending reset`);
+      writeEvent(res, "reset", formatEventId(seq), {});
+    } else {
+      for (const entry of missed) {
+        writeEvent(res, "suggestion", formatEventId(entry.seq), entry.event);
+      }
+    }
+  }
+
+  clients.set(res, patientId);
+  const heartbeat = setInterval(() => {
+    res.write(": heartbeat\n\n");
+  }, HEARTBEAT_MS);
+
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    clients.delete(res);
+  });
+}
@@ -1,19 +1,27 @@
 import type { Request, Response } from "express";
 import { z } from "zod";
-import { generateSuggestionsFromTranscript } from "../engine/suggestionEngine.js";
-import { createSuggestion } from "../store/suggestionsStore.js";
+import { analyzeTranscript } from "../engine/suggestionEngine.js";
+import { recordUtterance } from "../engine/conversationContext.js";
+import { createSuggestion, expireSuggestion, getSuggestion } from "../store/suggestionsStore.js";
+import { createVisionEvent } from "../store/visionEventsStore.js";
+import { SYSTEM_ACTOR } from "../store/auditStore.js";
+import { applyAutoApproval } from "../store/suggestionApproval.js";
+import { getActor, getPatientId } from "../middleware/auth.js";
 
 const TranscriptRequestSchema = z.object({
   transcript: z.string(),
   visionEventId: z.string().optional(),
   frameAssetId: z.string().optional(),
+  sessionId: z.string().optional(), // stable per conversation; falls back to visionEventId
 });
 
 /**
  * POST /transcript
  * Process a transcript and generate suggestions
+ * Utterances sharing a sessionId are read together, so a name and a relationship split across
+ * chunks become one suggestion and the earlier, partial one is expired into it.
  */
-export function transcriptHandler(req: Request, res: Response) {
+export async function transcriptHandler(req: Request, res: Response) {
   console.log('📥 POST /transcript received:', {
     transcript: req.body.transcript?.substring(0, 50) + '...',
     hasVisionEventId: !!req.body.visionEventId,
@@ -31,21 +39,59 @@ export function transcriptHandler(req: Request, res: Response) {
   }
 
   const { transcript, visionEventId, frameAssetId } = validation.data;
+  const sessionId = validation.data.sessionId ?? visionEventId;
+  const patientId = getPatientId(res);
 
   console.log('🔍 Processing transcript:', transcript);
 
-  // Generate suggestions from transcript
-  const suggestionInputs = generateSuggestionsFromTranscript(transcript, {
-    visionEventId,
-    frameAssetId,
-  });
+  try {
+    // Generate suggestions from transcript
+    const { suggestions: suggestionInputs, recognizedPeople, supersededSuggestionIds } =
+      await analyzeTranscript(patientId, transcript, { visionEventId, frameAssetId, sessionId });
+
+    // Known people mentioned by name are logged as person_candidate events
+    for (const recognized of recognizedPeople) {
+      createVisionEvent(patientId, {
+        type: "person_candidate",
+        confidence: recognized.confidence,
+        labels: [recognized.displayName],
+        evidence: {
+          transcriptSnippet: transcript,
+          frameAssetId,
+          raw: recognized,
+        },
+        source: "other",
+      });
+      console.log(`👤 Recognized known person "${recognized.displayName}" (heard "${recognized.spokenName}")`);
+    }
+
+    console.log(`💡 Generated ${suggestionInputs.length} suggestion(s) from transcript`);
 
-  console.log(`💡 Generated ${suggestionInputs.length} suggestion(s) from transcript`);
+    // Create all suggestions in the store (rules may decide some of them straight away)
+    const created = suggestionInputs.map((input) => createSuggestion(patientId, input, getActor(res)).suggestion);
+    for (const suggestion of created) {
+      await applyAutoApproval(patientId, suggestion);
+    }
 
-  // Create all suggestions in the store
-  const created = suggestionInputs.map((input) => createSuggestion(input));
+    console.log('✅ Created suggestions:', created.map(s => ({ id: s.id, type: s.type, text: s.text.substring(0, 50) })));
 
-  console.log('✅ Created suggestions:', created.map(s => ({ id: s.id, type: s.type, text: s.text.substring(0, 50) })));
+    // Partial suggestions completed by this utterance are merged into the combined one, which is
+    // the only identify_person suggestion when there is something to supersede
+    const combined = created.find((s) => s.type === "identify_person");
+    for (const id of supersededSuggestionIds) {
+      if (getSuggestion(patientId, id)?.status === "pending") {
+        expireSuggestion(patientId, id, SYSTEM_ACTOR, combined?.id);
+        console.log(`🔗 Superseded suggestion ${id} with a combined introduction`);
+      }
+    }
 
-  res.json(created);
+    if (sessionId) {
+      recordUtterance(patientId, sessionId, transcript, created.map((s) => s.id));
+    }
+
+    res.json(created);
+  } catch (error) {
+    console.error("❌ Error processing transcript:", error);
+    res.status(500).json({ error: "Failed to process transcript" });
+  }
 }
\ No newline at end of file
@@ -0,0 +1,53 @@
+import type { Request, Response } from "express";
+import { z } from "zod";
+import OpenAI from "openai";
+
+const TtsRequestSchema = z.object({
+  text: z.string().min(1).max(500), // Reminders are short spoken prompts
+  voice: z.enum(["alloy", "echo", "fable", "onyx", "nova", "shimmer"]).optional(),
+});
+
+/**
+ * POST /tts
+ * Render a short reminder sentence to speech (audio/mpeg) using OpenAI TTS
+ * Optional: the web app uses browser speechSynthesis unless NEXT_PUBLIC_TTS_PROVIDER=server
+ */
+export async function ttsHandler(req: Request, res: Response) {
+  const openaiApiKey = process.env.OPENAI_API_KEY;
+
+  if (!openaiApiKey) {
+    res.status(500).json({ error: "OPENAI_API_KEY not configured on server" });
+    return;
+  }
+
+  const validation = TtsRequestSchema.safeParse(req.body);
+  if (!validation.success) {
+    res.status(400).json({
+      error: "Invalid request data",
+      details: validation.error.errors,
+    });
+    return;
+  }
+
+  const { text, voice } = validation.data;
+
+  try {
+    const openai = new OpenAI({ apiKey: openaiApiKey });
+    const speech = await openai.audio.speech.create({
+      model: process.env.OPENAI_TTS_MODEL || "tts-1",
+      voice: voice || "alloy",
+      input: text,
+      response_format: "mp3",
+    });
+
+    const audio = Buffer.from(await speech.arrayBuffer());
+    res.setHeader("Content-Type", "audio/mpeg");
+    res.setHeader("Content-Length", audio.length);
+    res.send(audio);
+  } catch (error) {
+    console.error("❌ TTS error:", error);
+    res.status(502).json({
+      error: error instanceof Error ? error.message : "Failed to generate speech",
+    });
+  }
+}
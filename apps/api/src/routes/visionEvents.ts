@@ -0,0 +1,46 @@
+import type { Request, Response } from "express";
+import { z } from "zod";
+import { VisionEventCreateSchema, VisionEventSchema } from "@cuelens/shared";
+import { createVisionEvent, listVisionEvents } from "../store/visionEventsStore.js";
+import { getPatientId } from "../middleware/auth.js";
+
+const ListVisionEventsQuerySchema = z.object({
+  since: z.coerce.number().optional(),
+  type: VisionEventSchema.shape.type.optional(),
+});
+
+/**
+ * POST /vision-events
+ * Record a vision event (room match, person candidate, scene hint)
+ */
+export function createVisionEventHandler(req: Request, res: Response) {
+  const validation = VisionEventCreateSchema.safeParse(req.body);
+  if (!validation.success) {
+    res.status(400).json({
+      error: "Invalid vision event data",
+      details: validation.error.errors,
+    });
+    return;
+  }
+
+  const event = createVisionEvent(getPatientId(res), validation.data);
+  res.status(201).json(event);
+}
+
+/**
+ * GET /vision-events?since=<timestamp>&type=person_candidate|place_candidate|scene_hint
+ * List vision events, optionally filtered by time and type
+ */
+export function listVisionEventsHandler(req: Request, res: Response) {
+  const validation = ListVisionEventsQuerySchema.safeParse(req.query);
+  if (!validation.success) {
+    res.status(400).json({
+      error: "Invalid query parameters",
+      details: validation.error.errors,
+    });
+    return;
+  }
+
+  const events = listVisionEvents(getPatientId(res), validation.data);
+  res.json(events);
+}
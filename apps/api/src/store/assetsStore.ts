@@ -0,0 +1,98 @@
+import type { Asset } from "@cuelens/shared";
+import { AssetSchema } from "@cuelens/shared";
+import { createHash, randomUUID } from "crypto";
+import { createPatientScopedRepository } from "./repository.js";
+import { readBlob, writeBlob } from "./blobStore.js";
+import { getFrame, readFrameContent } from "./framesStore.js";
+import { generateThumbnail } from "../media/thumbnails.js";
+
+const assets = createPatientScopedRepository<Asset>({
+  name: "assets",
+  schema: AssetSchema,
+  version: 1,
+});
+
+const ASSETS_FOLDER = "assets"; // blobs keyed by content hash
+
+function thumbnailName(hash: string): string {
+  return `${hash}.thumb.jpg`;
+}
+
+/**
+ * Store binary content as an asset
+ * Identical content (same sha256) returns the existing asset with `created: false`.
+ */
+export async function createAsset(
+  patientId: string,
+  data: Buffer,
+  mimeType: string
+): Promise<{ asset: Asset; created: boolean }> {
+  const hash = createHash("sha256").update(data).digest("hex");
+  const findExisting = () => assets(patientId).list().find((a) => a.hash === hash);
+  const existing = findExisting();
+  if (existing) {
+    return { asset: existing, created: false };
+  }
+
+  writeBlob(patientId, ASSETS_FOLDER, hash, data);
+  const thumbnail = await generateThumbnail(data);
+  if (thumbnail) {
+    writeBlob(patientId, ASSETS_FOLDER, thumbnailName(hash), thumbnail);
+  }
+
+  // An identical upload may have finished while the thumbnail was generated (same blobs either way)
+  const stored = findExisting();
+  if (stored) {
+    return { asset: stored, created: false };
+  }
+
+  const asset = AssetSchema.parse({
+    id: randomUUID(),
+    hash,
+    mimeType,
+    size: data.length,
+    hasThumbnail: !!thumbnail,
+    createdAt: Date.now(),
+  });
+  assets(patientId).set(asset);
+  return { asset, created: true };
+}
+
+/**
+ * Get asset metadata by ID
+ */
+export function getAsset(patientId: string, id: string): Asset | undefined {
+  return assets(patientId).get(id);
+}
+
+/**
+ * Read an asset's bytes, or its thumbnail (falls back to the original when there is none)
+ */
+export function readAssetContent(
+  patientId: string,
+  asset: Asset,
+  options: { thumbnail?: boolean } = {}
+): { data: Buffer; mimeType: string } | undefined {
+  if (options.thumbnail && asset.hasThumbnail) {
+    const thumbnail = readBlob(patientId, ASSETS_FOLDER, thumbnailName(asset.hash));
+    if (thumbnail) {
+      return { data: thumbnail, mimeType: "image/jpeg" };
+    }
+  }
+  const data = readBlob(patientId, ASSETS_FOLDER, asset.hash);
+  return data ? { data, mimeType: asset.mimeType } : undefined;
+}
+
+/**
+ * Copy a captured frame into the asset store
+ * Used when a frame becomes a person photo, and to migrate photo IDs saved before assets existed.
+ */
+export async function importFrameAsset(patientId: string, frameId: string): Promise<Asset | undefined> {
+  const frame = getFrame(patientId, frameId);
+  const content = frame && readFrameContent(patientId, frame);
+  if (!content) {
+    return undefined;
+  }
+  const { asset } = await createAsset(patientId, content.data, content.mimeType);
+  return asset;
+}
@@ -0,0 +1,90 @@
+import type { AuditActor, AuditEntry } from "@cuelens/shared";
+import { AuditEntrySchema } from "@cuelens/shared";
+import { randomUUID } from "crypto";
+import { createPatientScopedRepository } from "./repository.js";
+
+const auditEntries = createPatientScopedRepository<AuditEntry>({
+  name: "audit",
+  schema: AuditEntrySchema,
+  version: 1,
+});
+
+/**
+ * Actor for changes the API makes on its own
+ */
+export const SYSTEM_ACTOR: AuditActor = { type: "system" };
+
+// Bumped on every write, so it only adds noise to diffs
+const IGNORED_FIELDS = new Set(["updatedAt"]);
+
+/**
+ * Top-level field differences between two snapshots of a record
+ */
+function diff(
+  before: Record<string, unknown> | undefined,
+  after: Record<string, unknown> | undefined
+): AuditEntry["changes"] {
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  const changes: AuditEntry["changes"] = [];
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) continue;
+    const previous = before?.[field];
+    const next = after?.[field];
+    if (JSON.stringify(previous) !== JSON.stringify(next)) {
+      changes.push({ field, before: previous, after: next });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Append an audit entry for a mutation
+ * Pass `before` undefined for creations and `after` undefined for deletions.
+ */
+export function recordAudit<T extends { id: string }>(
+  patientId: string,
+  input: {
+    entity: AuditEntry["entity"];
+    action: AuditEntry["action"];
+    actor: AuditActor;
+    before?: T;
+    after?: T;
+  }
+): AuditEntry {
+  const entityId = input.after?.id ?? input.before?.id;
+  if (!entityId) {
+    throw new Error("Audit entry needs a before or after snapshot");
+  }
+
+  const entry: AuditEntry = {
+    id: randomUUID(),
+    entity: input.entity,
+    entityId,
+    action: input.action,
+    actor: input.actor,
+    timestamp: Date.now(),
+    changes: diff(
+      input.before as Record<string, unknown> | undefined,
+      input.after as Record<string, unknown> | undefined
+    ),
+  };
+
+  const validated = AuditEntrySchema.parse(entry);
+  auditEntries(patientId).set(validated);
+  return validated;
+}
+
+/**
+ * List audit entries newest first, optionally for one entity type and/or record
+ */
+export function listAuditEntries(
+  patientId: string,
+  filter?: { entity?: AuditEntry["entity"]; id?: string }
+): AuditEntry[] {
+  return auditEntries(patientId)
+    .list()
+    .reverse() // Entries written in the same millisecond stay newest first after the stable sort
+    .filter((e) => !filter?.entity || e.entity === filter.entity)
+    .filter((e) => !filter?.id || e.entityId === filter.id)
+    .sort((a, b) => b.timestamp - a.timestamp);
+}
@@ -0,0 +1,45 @@
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import { getPatientDataDir, getStorageDriver } from "./repository.js";
+
+// Binary content (photos, webcam frames) lives outside the JSONL collections: files under
+// <patient dir>/<folder> with the file driver, an in-process map with the memory driver.
+const memoryBlobs = new Map<string, Buffer>();
+
+function blobDir(patientId: string, folder: string): string {
+  return join(getPatientDataDir(patientId), folder);
+}
+
+/**
+ * Write a blob, replacing any existing content under the same name
+ */
+export function writeBlob(patientId: string, folder: string, name: string, data: Buffer): void {
+  if (getStorageDriver() === "memory") {
+    memoryBlobs.set(`${patientId}/${folder}/${name}`, data);
+    return;
+  }
+  mkdirSync(blobDir(patientId, folder), { recursive: true });
+  writeFileSync(join(blobDir(patientId, folder), name), data);
+}
+
+/**
+ * Read a blob, or undefined when it does not exist
+ */
+export function readBlob(patientId: string, folder: string, name: string): Buffer | undefined {
+  if (getStorageDriver() === "memory") {
+    return memoryBlobs.get(`${patientId}/${folder}/${name}`);
+  }
+  const path = join(blobDir(patientId, folder), name);
+  return existsSync(path) ? readFileSync(path) : undefined;
+}
+
+/**
+ * Delete a blob (no-op when it does not exist)
+ */
+export function deleteBlob(patientId: string, folder: string, name: string): void {
+  if (getStorageDriver() === "memory") {
+    memoryBlobs.delete(`${patientId}/${folder}/${name}`);
+    return;
+  }
+  rmSync(join(blobDir(patientId, folder), name), { force: true });
+}
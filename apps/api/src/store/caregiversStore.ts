@@ -0,0 +1,177 @@
+import type { Caregiver } from "@cuelens/shared";
+import { CaregiverSchema } from "@cuelens/shared";
+import { randomBytes, randomUUID, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { z } from "zod";
+import { createRepository } from "./repository.js";
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: string,
+  keylen: number
+) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+
+/**
+ * Stored caregiver: the public contract plus the password hash, which never leaves the API
+ */
+const StoredCaregiverSchema = CaregiverSchema.extend({
+  passwordHash: z.string(), // "scrypt:<salt>:<hash>"
+});
+
+type StoredCaregiver = z.infer<typeof StoredCaregiverSchema>;
+
+const caregivers = createRepository<StoredCaregiver>({
+  name: "caregivers",
+  schema: StoredCaregiverSchema,
+  version: 1,
+});
+
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt:${salt}:${hash.toString("hex")}`;
+}
+
+async function verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+  const [scheme, salt, hash] = passwordHash.split(":");
+  if (scheme !== "scrypt" || !salt || !hash) {
+    return false;
+  }
+  const expected = Buffer.from(hash, "hex");
+  const actual = await scryptAsync(password, salt, expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+function toCaregiver(stored: StoredCaregiver): Caregiver {
+  const { passwordHash: _passwordHash, ...caregiver } = stored;
+  return caregiver;
+}
+
+function findByEmail(email: string): StoredCaregiver | undefined {
+  return caregivers.list().find((c) => c.email.toLowerCase() === email.toLowerCase());
+}
+
+interface CaregiverInput {
+  email: string;
+  password: string;
+  displayName: string;
+  role: Caregiver["role"];
+  patientIds?: string[];
+}
+
+async function buildCaregiver(input: CaregiverInput): Promise<StoredCaregiver> {
+  const now = Date.now();
+  return StoredCaregiverSchema.parse({
+    id: randomUUID(),
+    email: input.email.toLowerCase(),
+    displayName: input.displayName,
+    role: input.role,
+    patientIds: input.patientIds ?? [],
+    passwordHash: await hashPassword(input.password),
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+// Checked after hashing, with nothing awaited before the write, so concurrent requests can't both pass
+function insertCaregiver(caregiver: StoredCaregiver): Caregiver {
+  if (findByEmail(caregiver.email)) {
+    throw new Error("A caregiver with this email already exists");
+  }
+  caregivers.set(caregiver);
+  return toCaregiver(caregiver);
+}
+
+/**
+ * Create a caregiver account
+ * Throws if the email is already registered
+ */
+export async function createCaregiver(input: CaregiverInput): Promise<Caregiver> {
+  return insertCaregiver(await buildCaregiver(input));
+}
+
+/**
+ * Create the first (admin) account during setup
+ * Returns undefined when a caregiver already exists, including one created by a concurrent
+ * registration while this password was being hashed.
+ */
+export async function createFirstAdmin(
+  input: Omit<CaregiverInput, "role" | "patientIds">
+): Promise<Caregiver | undefined> {
+  const caregiver = await buildCaregiver({ ...input, role: "admin" });
+  if (hasCaregivers()) {
+    return undefined;
+  }
+  return insertCaregiver(caregiver);
+}
+
+/**
+ * Check an email/password pair
+ * Returns the caregiver on success, undefined otherwise
+ */
+export async function authenticateCaregiver(
+  email: string,
+  password: string
+): Promise<Caregiver | undefined> {
+  const stored = findByEmail(email);
+  if (!stored || !(await verifyPassword(password, stored.passwordHash))) {
+    return undefined;
+  }
+  return toCaregiver(stored);
+}
+
+/**
+ * Whether any caregiver account exists (first-run setup is open until one does)
+ */
+export function hasCaregivers(): boolean {
+  return caregivers.list().length > 0;
+}
+
+/**
+ * List all caregivers
+ */
+export function listCaregivers(): Caregiver[] {
+  return caregivers.list().map(toCaregiver);
+}
+
+/**
+ * Get a caregiver by ID
+ */
+export function getCaregiver(id: string): Caregiver | undefined {
+  const stored = caregivers.get(id);
+  return stored ? toCaregiver(stored) : undefined;
+}
+
+/**
+ * Update a caregiver (optionally resetting the password)
+ */
+export async function updateCaregiver(
+  id: string,
+  updates: Partial<Pick<Caregiver, "displayName" | "role" | "patientIds">> & { password?: string }
+): Promise<Caregiver> {
+  const stored = caregivers.get(id);
+  if (!stored) {
+    throw new Error("Caregiver not found");
+  }
+
+  const { password, ...fields } = updates;
+  const updated: StoredCaregiver = {
+    ...stored,
+    ...fields,
+    passwordHash: password ? await hashPassword(password) : stored.passwordHash,
+    updatedAt: Date.now(),
+  };
+
+  const validated = StoredCaregiverSchema.parse(updated);
+  caregivers.set(validated);
+  return toCaregiver(validated);
+}
+
+/**
+ * Whether a caregiver may access a patient's data
+ */
+export function canAccessPatient(caregiver: Caregiver, patientId: string): boolean {
+  return caregiver.role === "admin" || caregiver.patientIds.includes(patientId);
+}
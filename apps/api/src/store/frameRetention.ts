@@ -0,0 +1,113 @@
+import type { StoredFrame } from "./framesStore.js";
+import { deleteFrame, discardFrameOriginal, listFrames } from "./framesStore.js";
+import { listSuggestions } from "./suggestionsStore.js";
+import { listPeople } from "./peopleStore.js";
+import { listPatients } from "./patientsStore.js";
+
+// Frequent enough that unredacted originals don't outlive their retention by much
+const SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * Frame retention limits from the environment
+ * FRAME_TTL_HOURS (default 72) and FRAME_STORAGE_MAX_MB per patient (default 500); 0 disables a limit.
+ * FRAME_ORIGINAL_RETENTION_MINUTES (default 60) bounds how long unredacted originals are kept;
+ * 0 discards them right away.
+ */
+export function getFrameRetention(): { ttlMs: number; maxBytes: number; originalTtlMs: number } {
+  const ttlHours = Number(process.env.FRAME_TTL_HOURS || 72);
+  const maxMb = Number(process.env.FRAME_STORAGE_MAX_MB || 500);
+  const originalMinutes = Number(process.env.FRAME_ORIGINAL_RETENTION_MINUTES || 60);
+  if (!Number.isFinite(ttlHours) || ttlHours < 0) {
+    throw new Error(`Invalid FRAME_TTL_HOURS "${process.env.FRAME_TTL_HOURS}". Must be a number >= 0`);
+  }
+  if (!Number.isFinite(maxMb) || maxMb < 0) {
+    throw new Error(`Invalid FRAME_STORAGE_MAX_MB "${process.env.FRAME_STORAGE_MAX_MB}". Must be a number >= 0`);
+  }
+  if (!Number.isFinite(originalMinutes) || originalMinutes < 0) {
+    throw new Error(
+      `Invalid FRAME_ORIGINAL_RETENTION_MINUTES "${process.env.FRAME_ORIGINAL_RETENTION_MINUTES}". Must be a number >= 0`
+    );
+  }
+  return {
+    ttlMs: ttlHours * 60 * 60 * 1000,
+    maxBytes: maxMb * 1024 * 1024,
+    originalTtlMs: originalMinutes * 60 * 1000,
+  };
+}
+
+/**
+ * Frames that must be kept regardless of age or size: evidence of pending suggestions (still
+ * to be reviewed) and approved ones, and photo IDs on people (people saved before the asset
+ * store point at frames until migrateLegacyPhotos has copied them)
+ */
+function pinnedFrameIds(patientId: string): Set<string> {
+  const pinned = new Set<string>();
+  listSuggestions(patientId).forEach((s) => {
+    if (s.evidence.frameAssetId && (s.status === "pending" || s.status === "approved")) {
+      pinned.add(s.evidence.frameAssetId);
+    }
+  });
+  listPeople(patientId).forEach((p) => p.photoAssetIds.forEach((id) => pinned.add(id)));
+  return pinned;
+}
+
+/**
+ * Discard expired unredacted originals (pinned frames included), delete unpinned frames
+ * older than the TTL, then evict least recently used frames until the total size is within the limit
+ * Returns the number of frames deleted
+ */
+export function pruneFrames(patientId: string): number {
+  const { ttlMs, maxBytes } = getFrameRetention();
+  const pinned = pinnedFrameIds(patientId);
+  const now = Date.now();
+  let removed = 0;
+
+  const kept: StoredFrame[] = [];
+  for (let frame of listFrames(patientId)) {
+    if (frame.original && frame.original.expiresAt <= now) {
+      frame = discardFrameOriginal(patientId, frame);
+    }
+    if (ttlMs > 0 && !pinned.has(frame.id) && now - frame.createdAt > ttlMs) {
+      deleteFrame(patientId, frame.id);
+      removed++;
+    } else {
+      kept.push(frame);
+    }
+  }
+
+  if (maxBytes > 0) {
+    let totalBytes = kept.reduce((sum, frame) => sum + frame.size, 0);
+    const evictable = kept
+      .filter((frame) => !pinned.has(frame.id))
+      .sort((a, b) => a.lastAccessedAt - b.lastAccessedAt);
+    for (const frame of evictable) {
+      if (totalBytes <= maxBytes) break;
+      deleteFrame(patientId, frame.id);
+      totalBytes -= frame.size;
+      removed++;
+    }
+  }
+
+  if (removed > 0) {
+    console.log(`[frames] 🧹 Removed ${removed} frame(s) for patient ${patientId}`);
+  }
+  return removed;
+}
+
+/**
+ * Prune every patient's frames now and then hourly (frames are also pruned on upload)
+ */
+export function startFrameRetentionSweep(): void {
+  getFrameRetention(); // fail fast on invalid configuration
+  const sweep = () => {
+    listPatients().forEach((patient) => {
+      try {
+        pruneFrames(patient.id);
+      } catch (error) {
+        console.error(`[frames] ❌ Error pruning frames for patient ${patient.id}:`, error);
+      }
+    });
+  };
+  sweep();
+  setInterval(sweep, SWEEP_INTERVAL_MS).unref();
+}
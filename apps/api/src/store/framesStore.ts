@@ -0,0 +1,167 @@
+import { z } from "zod";
+import { createHash, randomUUID } from "crypto";
+import { createPatientScopedRepository } from "./repository.js";
+import { deleteBlob, readBlob, writeBlob } from "./blobStore.js";
+
+/**
+ * Stored frame (image captured from the webcam)
+ * Frames are an API-internal asset, so the schema lives here rather than in @cuelens/shared.
+ * The image bytes are a blob under <patient dir>/frames; the record only holds metadata.
+ */
+const StoredFrameSchema = z.object({
+  id: z.string(),
+  mimeType: z.string(),
+  size: z.number(), // bytes stored, including a kept original
+  hash: z.string(), // sha256 of the image bytes, used as the ETag
+  image: z.string().optional(), // base64 data URL, only on frames stored before version 2
+  redacted: z.boolean().default(false), // bystanders/screens blurred before storing
+  // Unredacted image kept for a limited time after redaction (blob <id>.original)
+  original: z
+    .object({
+      mimeType: z.string(),
+      size: z.number(),
+      expiresAt: z.number(),
+    })
+    .optional(),
+  createdAt: z.number(), // unix timestamp in milliseconds
+  lastAccessedAt: z.number(), // for LRU eviction, updated at most every ACCESS_RESOLUTION_MS
+});
+
+export type StoredFrame = z.infer<typeof StoredFrameSchema>;
+
+const DATA_URL_PATTERN = /^data:([\w/+.-]+);base64,(.*)$/s;
+
+const frames = createPatientScopedRepository<StoredFrame>({
+  name: "frames",
+  schema: StoredFrameSchema,
+  version: 2,
+  migrations: {
+    // Version 1 kept the data URL inline; keep it there (read as a fallback) and add metadata
+    1: (record) => {
+      const match = typeof record.image === "string" ? record.image.match(DATA_URL_PATTERN) : null;
+      const data = Buffer.from(match?.[2] ?? "", "base64");
+      return {
+        ...record,
+        mimeType: match?.[1] ?? "image/jpeg",
+        size: data.length,
+        hash: createHash("sha256").update(data).digest("hex"),
+        lastAccessedAt: record.createdAt,
+      };
+    },
+  },
+});
+
+const FRAMES_FOLDER = "frames";
+// Access times only need to be coarse for LRU, and every update appends to the log
+const ACCESS_RESOLUTION_MS = 10 * 60 * 1000;
+
+/**
+ * Decode a base64 data URL into bytes, or undefined when it is not one
+ */
+export function decodeDataUrl(dataUrl: string): { data: Buffer; mimeType: string } | undefined {
+  const match = dataUrl.match(DATA_URL_PATTERN);
+  if (!match?.[1] || !match[2]) {
+    return undefined;
+  }
+  return { data: Buffer.from(match[2], "base64"), mimeType: match[1] };
+}
+
+function originalBlobName(id: string): string {
+  return `${id}.original`;
+}
+
+/**
+ * Store a frame and return it with its generated ID
+ * Pass `redaction` only when the image was actually blurred; `original` keeps the unredacted
+ * image until `expiresAt`.
+ */
+export function createFrame(
+  patientId: string,
+  data: Buffer,
+  mimeType: string,
+  redaction?: { original?: { data: Buffer; mimeType: string; expiresAt: number } }
+): StoredFrame {
+  const now = Date.now();
+  const original = redaction?.original;
+  const frame: StoredFrame = {
+    id: randomUUID(),
+    mimeType,
+    size: data.length + (original?.data.length ?? 0),
+    hash: createHash("sha256").update(data).digest("hex"),
+    redacted: !!redaction,
+    original: original && { mimeType: original.mimeType, size: original.data.length, expiresAt: original.expiresAt },
+    createdAt: now,
+    lastAccessedAt: now,
+  };
+  writeBlob(patientId, FRAMES_FOLDER, frame.id, data);
+  if (original) {
+    writeBlob(patientId, FRAMES_FOLDER, originalBlobName(frame.id), original.data);
+  }
+  frames(patientId).set(frame);
+  return frame;
+}
+
+/**
+ * Get a frame by ID
+ */
+export function getFrame(patientId: string, id: string): StoredFrame | undefined {
+  return frames(patientId).get(id);
+}
+
+/**
+ * List all frames (metadata only)
+ */
+export function listFrames(patientId: string): StoredFrame[] {
+  return frames(patientId).list();
+}
+
+/**
+ * Read a frame's image bytes and mark the frame as recently used
+ */
+export function readFrameContent(
+  patientId: string,
+  frame: StoredFrame
+): { data: Buffer; mimeType: string } | undefined {
+  const now = Date.now();
+  if (now - frame.lastAccessedAt >= ACCESS_RESOLUTION_MS) {
+    frames(patientId).set({ ...frame, lastAccessedAt: now });
+  }
+  if (frame.image) {
+    return decodeDataUrl(frame.image);
+  }
+  const data = readBlob(patientId, FRAMES_FOLDER, frame.id);
+  return data ? { data, mimeType: frame.mimeType } : undefined;
+}
+
+/**
+ * Read the unredacted image of a redacted frame, while it is still kept
+ */
+export function readFrameOriginal(
+  patientId: string,
+  frame: StoredFrame
+): { data: Buffer; mimeType: string } | undefined {
+  if (!frame.original || frame.original.expiresAt <= Date.now()) {
+    return undefined;
+  }
+  const data = readBlob(patientId, FRAMES_FOLDER, originalBlobName(frame.id));
+  return data ? { data, mimeType: frame.original.mimeType } : undefined;
+}
+
+/**
+ * Delete the unredacted image of a redacted frame, keeping the redacted one
+ */
+export function discardFrameOriginal(patientId: string, frame: StoredFrame): StoredFrame {
+  deleteBlob(patientId, FRAMES_FOLDER, originalBlobName(frame.id));
+  const updated: StoredFrame = { ...frame, original: undefined, size: frame.size - (frame.original?.size ?? 0) };
+  frames(patientId).set(updated);
+  return updated;
+}
+
+/**
+ * Delete a frame and its images
+ */
+export function deleteFrame(patientId: string, id: string): boolean {
+  deleteBlob(patientId, FRAMES_FOLDER, id);
+  deleteBlob(patientId, FRAMES_FOLDER, originalBlobName(id));
+  return frames(patientId).delete(id);
+}
@@ -0,0 +1,159 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { join } from "path";
+import type { CollectionDefinition, Repository } from "./repository.js";
+
+/**
+ * One line of the append-only log
+ * The first line of a compacted file is always a "meta" entry carrying the schema version
+ */
+type LogEntry =
+  | { op: "meta"; version: number }
+  | { op: "set"; record: Record<string, unknown> }
+  | { op: "delete"; id: string };
+
+/**
+ * Append-only JSON-lines repository
+ *
+ * Every mutation is appended to `<dataDir>/<collection>.jsonl`. On startup the log is
+ * replayed, records are migrated to the current schema version and validated against
+ * the collection's Zod contract, and the file is compacted to a single snapshot.
+ * Unreadable lines and records that fail validation are not compacted away silently: they are
+ * appended to `<dataDir>/<collection>.rejected.jsonl` so they can be inspected and recovered.
+ */
+export class JsonFileRepository<T extends { id: string }> implements Repository<T> {
+  private records = new Map<string, T>();
+  private readonly filePath: string;
+  private readonly rejectedPath: string;
+
+  constructor(
+    dataDir: string,
+    private readonly definition: CollectionDefinition<T>
+  ) {
+    mkdirSync(dataDir, { recursive: true });
+    this.filePath = join(dataDir, `${definition.name}.jsonl`);
+    this.rejectedPath = join(dataDir, `${definition.name}.rejected.jsonl`);
+    this.load();
+  }
+
+  list(): T[] {
+    return Array.from(this.records.values());
+  }
+
+  get(id: string): T | undefined {
+    return this.records.get(id);
+  }
+
+  set(record: T): void {
+    this.records.set(record.id, record);
+    this.append({ op: "set", record: record as unknown as Record<string, unknown> });
+  }
+
+  delete(id: string): boolean {
+    const deleted = this.records.delete(id);
+    if (deleted) {
+      this.append({ op: "delete", id });
+    }
+    return deleted;
+  }
+
+  private append(entry: LogEntry): void {
+    appendFileSync(this.filePath, `${JSON.stringify(entry)}\n`);
+  }
+
+  /**
+   * Replay the log, run migrations, validate and compact
+   */
+  private load(): void {
+    const { name, schema, version } = this.definition;
+    let storedVersion = version;
+    const raw = new Map<string, Record<string, unknown>>();
+
+    if (existsSync(this.filePath)) {
+      const lines = readFileSync(this.filePath, "utf8").split("\n");
+      storedVersion = 1; // Files written before versioning have no meta line
+
+      lines.forEach((line, index) => {
+        if (!line.trim()) return;
+        let entry: LogEntry;
+        try {
+          entry = JSON.parse(line) as LogEntry;
+        } catch {
+          // A crash mid-append can leave a truncated last line - skip it
+          console.warn(`[store] ⚠️ Skipping unreadable line ${index + 1} in ${this.filePath}`);
+          this.reject({ reason: "unreadable", line });
+          return;
+        }
+        if (entry.op === "meta") {
+          storedVersion = entry.version;
+        } else if (entry.op === "set" && typeof entry.record?.id === "string") {
+          raw.set(entry.record.id, entry.record);
+        } else if (entry.op === "delete") {
+          raw.delete(entry.id);
+        }
+      });
+    }
+
+    if (storedVersion > version) {
+      throw new Error(
+        `[store] ${name} data is at schema version ${storedVersion}, newer than supported version ${version}`
+      );
+    }
+
+    for (const [id, record] of raw) {
+      const migrated = this.migrate(record, storedVersion);
+      const validation = schema.safeParse(migrated);
+      if (!validation.success) {
+        console.warn(
+          `[store] ⚠️ Moving invalid ${name} record ${id} to ${this.rejectedPath}:`,
+          validation.error.errors
+        );
+        this.reject({ reason: "invalid", version: storedVersion, record, errors: validation.error.errors });
+        continue;
+      }
+      this.records.set(validation.data.id, validation.data);
+    }
+
+    if (storedVersion < version) {
+      console.log(`[store] Migrated ${name} from schema version ${storedVersion} to ${version}`);
+    }
+
+    this.compact();
+  }
+
+  /**
+   * Keep data that compaction would otherwise drop
+   */
+  private reject(entry: Record<string, unknown>): void {
+    appendFileSync(this.rejectedPath, `${JSON.stringify({ ...entry, rejectedAt: Date.now() })}\n`);
+  }
+
+  /**
+   * Apply migrations in order from the stored version up to the current version
+   */
+  private migrate(record: Record<string, unknown>, fromVersion: number): Record<string, unknown> {
+    const { migrations = {}, version } = this.definition;
+    let current = record;
+    for (let v = fromVersion; v < version; v++) {
+      const migration = migrations[v];
+      if (migration) {
+        current = migration(current);
+      }
+    }
+    return current;
+  }
+
+  /**
+   * Rewrite the log as a single snapshot (written to a temp file, then renamed)
+   */
+  private compact(): void {
+    const entries: LogEntry[] = [
+      { op: "meta", version: this.definition.version },
+      ...this.list().map(
+        (record): LogEntry => ({ op: "set", record: record as unknown as Record<string, unknown> })
+      ),
+    ];
+    const tmpPath = `${this.filePath}.tmp`;
+    writeFileSync(tmpPath, entries.map((entry) => `${JSON.stringify(entry)}\n`).join(""));
+    renameSync(tmpPath, this.filePath);
+  }
+}
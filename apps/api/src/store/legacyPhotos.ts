@@ -0,0 +1,46 @@
+import { getAsset, importFrameAsset } from "./assetsStore.js";
+import { listPeople, updatePerson } from "./peopleStore.js";
+import { listPatients } from "./patientsStore.js";
+
+/**
+ * Point a patient's people at assets instead of frames
+ * People saved before the asset store have frame IDs as photo IDs; those frames are copied into
+ * the asset store and the IDs replaced. Photo IDs whose frame is gone are left as they are.
+ * Returns the number of people updated
+ */
+export async function migrateLegacyPhotos(patientId: string): Promise<number> {
+  let migrated = 0;
+  for (const person of listPeople(patientId)) {
+    const replacements = new Map<string, string>();
+    for (const id of person.photoAssetIds) {
+      if (getAsset(patientId, id)) continue;
+      const asset = await importFrameAsset(patientId, id);
+      if (asset) replacements.set(id, asset.id);
+    }
+    if (replacements.size === 0) continue;
+
+    const replace = (id: string) => replacements.get(id) ?? id;
+    updatePerson(patientId, person.id, {
+      photoAssetIds: person.photoAssetIds.map(replace),
+      photoAssetId: person.photoAssetId && replace(person.photoAssetId),
+    });
+    migrated++;
+  }
+  return migrated;
+}
+
+/**
+ * Run the legacy photo migration for every patient at startup (nothing to do once every photo is an asset)
+ */
+export async function migrateAllLegacyPhotos(): Promise<void> {
+  for (const patient of listPatients()) {
+    try {
+      const migrated = await migrateLegacyPhotos(patient.id);
+      if (migrated > 0) {
+        console.log(`[assets] Moved frame photos of ${migrated} person(s) to the asset store for patient ${patient.id}`);
+      }
+    } catch (error) {
+      console.error(`[assets] ❌ Error migrating frame photos for patient ${patient.id}:`, error);
+    }
+  }
+}
@@ -0,0 +1,25 @@
+import type { Repository } from "./repository.js";
+
+/**
+ * In-memory repository (data is lost on restart)
+ * Used for tests and throwaway local sessions
+ */
+export class MemoryRepository<T extends { id: string }> implements Repository<T> {
+  private records = new Map<string, T>();
+
+  list(): T[] {
+    return Array.from(this.records.values());
+  }
+
+  get(id: string): T | undefined {
+    return this.records.get(id);
+  }
+
+  set(record: T): void {
+    this.records.set(record.id, record);
+  }
+
+  delete(id: string): boolean {
+    return this.records.delete(id);
+  }
+}
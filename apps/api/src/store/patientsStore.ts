@@ -0,0 +1,98 @@
+import type { Patient } from "@cuelens/shared";
+import { PatientSchema } from "@cuelens/shared";
+import { randomUUID } from "crypto";
+import { existsSync, mkdirSync, renameSync } from "fs";
+import { join } from "path";
+import { createRepository, getDataDir, getPatientDataDir, getStorageDriver } from "./repository.js";
+
+const patients = createRepository<Patient>({
+  name: "patients",
+  schema: PatientSchema,
+  version: 1,
+});
+
+// Collections written before multi-patient support, stored directly in the data dir
+const LEGACY_COLLECTIONS = ["people", "places", "suggestions", "frames", "visionEvents"];
+
+/**
+ * Create a new patient
+ */
+export function createPatient(input: { displayName: string; notes?: string }): Patient {
+  const now = Date.now();
+  const patient: Patient = {
+    id: randomUUID(),
+    displayName: input.displayName,
+    notes: input.notes,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  // Validate with schema
+  const validated = PatientSchema.parse(patient);
+  patients.set(validated);
+  return validated;
+}
+
+/**
+ * List all patients
+ */
+export function listPatients(): Patient[] {
+  return patients.list();
+}
+
+/**
+ * Get a patient by ID
+ */
+export function getPatient(id: string): Patient | undefined {
+  return patients.get(id);
+}
+
+/**
+ * Update a patient
+ */
+export function updatePatient(
+  id: string,
+  updates: Partial<Omit<Patient, "id" | "createdAt">>
+): Patient {
+  const patient = patients.get(id);
+  if (!patient) {
+    throw new Error("Patient not found");
+  }
+
+  const updated: Patient = {
+    ...patient,
+    ...updates,
+    updatedAt: Date.now(),
+  };
+
+  const validated = PatientSchema.parse(updated);
+  patients.set(validated);
+  return validated;
+}
+
+/**
+ * Create a default patient on first start and move single-patient data into it
+ * Deployments that predate multi-patient support keep their people, places and suggestions.
+ */
+export function ensureDefaultPatient(): void {
+  if (patients.list().length > 0) {
+    return;
+  }
+
+  const patient = createPatient({ displayName: "Default patient" });
+  console.log(`[patients] Created default patient ${patient.id}`);
+
+  if (getStorageDriver() !== "file") {
+    return;
+  }
+
+  const patientDir = getPatientDataDir(patient.id);
+  for (const name of LEGACY_COLLECTIONS) {
+    const legacyPath = join(getDataDir(), `${name}.jsonl`);
+    if (existsSync(legacyPath)) {
+      mkdirSync(patientDir, { recursive: true });
+      renameSync(legacyPath, join(patientDir, `${name}.jsonl`));
+      console.log(`[patients] Moved existing ${name} data to the default patient`);
+    }
+  }
+}
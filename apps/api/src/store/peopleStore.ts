@@ -1,27 +1,86 @@
-import type { Person } from "@cuelens/shared";
+import type { AuditActor, Person, PersonRelationship, RelationshipEdge } from "@cuelens/shared";
 import { PersonSchema } from "@cuelens/shared";
 import { randomUUID } from "crypto";
+import { createPatientScopedRepository } from "./repository.js";
+import { recordAudit, SYSTEM_ACTOR } from "./auditStore.js";
+import { relationshipFromLabel } from "../engine/relationships.js";
 
-const people = new Map<string, Person>();
+const people = createPatientScopedRepository<Person>({
+  name: "people",
+  schema: PersonSchema,
+  version: 3,
+  migrations: {
+    // v1 -> v2: single photoAssetId becomes the primary entry of photoAssetIds
+    1: (record) => ({
+      ...record,
+      photoAssetIds: typeof record.photoAssetId === "string" ? [record.photoAssetId] : [],
+    }),
+    // v2 -> v3: free-text relationship becomes a typed edge to the patient
+    2: (record) => ({
+      ...record,
+      relationships:
+        typeof record.relationship === "string" && record.relationship.trim()
+          ? [relationshipFromLabel(record.relationship)]
+          : [],
+    }),
+  },
+});
+
+/**
+ * Dedupe a person's photo list and pick the primary photo
+ * A primary that is not in the list is added to it; without one the first photo is primary.
+ */
+function withPhotos(
+  photoAssetIds: string[],
+  primary: string | undefined
+): Pick<Person, "photoAssetIds" | "photoAssetId"> {
+  const ids = [...new Set(primary && !photoAssetIds.includes(primary) ? [primary, ...photoAssetIds] : photoAssetIds)];
+  return { photoAssetIds: ids, photoAssetId: primary ?? ids[0] };
+}
+
+/**
+ * Keep the free-text relationship label and the typed edge to the patient in sync
+ * Explicit edges win and their patient edge provides the label; otherwise a new label
+ * replaces the patient edge (an empty label removes it).
+ */
+function withRelationships(
+  current: Pick<Person, "relationship" | "relationships">,
+  changes: { relationship?: string; relationships?: PersonRelationship[] }
+): Pick<Person, "relationship" | "relationships"> {
+  if (changes.relationships) {
+    const patientEdge = changes.relationships.find((r) => !r.personId);
+    return { relationship: patientEdge?.label, relationships: changes.relationships };
+  }
+  if (changes.relationship === undefined) {
+    return { relationship: current.relationship, relationships: current.relationships };
+  }
+  const label = changes.relationship.trim();
+  const others = current.relationships.filter((r) => r.personId);
+  return label
+    ? { relationship: label, relationships: [relationshipFromLabel(label), ...others] }
+    : { relationship: undefined, relationships: others };
+}
 
 /**
  * Create a new person
  */
-export function createPerson(input: {
+export function createPerson(patientId: string, input: {
   displayName: string;
   relationship?: string;
+  relationships?: PersonRelationship[];
   notes?: string;
   photoAssetId?: string;
+  photoAssetIds?: string[];
   embeddingId?: string;
   remindersEnabled?: boolean;
-}): Person {
+}, actor: AuditActor = SYSTEM_ACTOR): Person {
   const now = Date.now();
   const person: Person = {
     id: randomUUID(),
     displayName: input.displayName,
-    relationship: input.relationship,
+    ...withRelationships({ relationship: undefined, relationships: [] }, input),
     notes: input.notes,
-    photoAssetId: input.photoAssetId,
+    ...withPhotos(input.photoAssetIds ?? [], input.photoAssetId),
     embeddingId: input.embeddingId,
     remindersEnabled: input.remindersEnabled,
     createdAt: now,
@@ -30,23 +89,26 @@ export function createPerson(input: {
 
   // Validate with schema
   const validated = PersonSchema.parse(person);
-  people.set(validated.id, validated);
+  people(patientId).set(validated);
+  recordAudit(patientId, { entity: "person", action: "create", actor, after: validated });
   return validated;
 }
 
 /**
  * Update an existing person or create if not exists
  */
-export function upsertPerson(input: {
+export function upsertPerson(patientId: string, input: {
   displayName: string;
   relationship?: string;
+  relationships?: PersonRelationship[];
   notes?: string;
   photoAssetId?: string;
+  photoAssetIds?: string[];
   embeddingId?: string;
   remindersEnabled?: boolean;
-}): Person {
+}, actor: AuditActor = SYSTEM_ACTOR): Person {
   // Check if person with same displayName exists
-  const existing = Array.from(people.values()).find(
+  const existing = people(patientId).list().find(
     (p) => p.displayName.toLowerCase() === input.displayName.toLowerCase()
   );
 
@@ -55,41 +117,46 @@ export function upsertPerson(input: {
     const updated: Person = {
       ...existing,
       displayName: input.displayName,
-      relationship: input.relationship ?? existing.relationship,
+      ...withRelationships(existing, input),
       notes: input.notes ?? existing.notes,
-      photoAssetId: input.photoAssetId ?? existing.photoAssetId,
+      // New photos are added to the existing ones rather than replacing them
+      ...withPhotos(
+        [...existing.photoAssetIds, ...(input.photoAssetIds ?? [])],
+        input.photoAssetId ?? existing.photoAssetId
+      ),
       embeddingId: input.embeddingId ?? existing.embeddingId,
       remindersEnabled: input.remindersEnabled ?? existing.remindersEnabled,
       updatedAt: Date.now(),
     };
     const validated = PersonSchema.parse(updated);
-    people.set(existing.id, validated);
+    people(patientId).set(validated);
+    recordAudit(patientId, { entity: "person", action: "update", actor, before: existing, after: validated });
     return validated;
   }
 
   // Create new person
-  return createPerson(input);
+  return createPerson(patientId, input, actor);
 }
 
 /**
  * List all people
  */
-export function listPeople(): Person[] {
-  return Array.from(people.values());
+export function listPeople(patientId: string): Person[] {
+  return people(patientId).list();
 }
 
 /**
  * Get a person by ID
  */
-export function getPerson(id: string): Person | undefined {
-  return people.get(id);
+export function getPerson(patientId: string, id: string): Person | undefined {
+  return people(patientId).get(id);
 }
 
 /**
  * Get a person by display name (case-insensitive)
  */
-export function getPersonByName(displayName: string): Person | undefined {
-  return Array.from(people.values()).find(
+export function getPersonByName(patientId: string, displayName: string): Person | undefined {
+  return people(patientId).list().find(
     (p) => p.displayName.toLowerCase() === displayName.toLowerCase()
   );
 }
@@ -98,28 +165,149 @@ export function getPersonByName(displayName: string): Person | undefined {
  * Update a person
  */
 export function updatePerson(
+  patientId: string,
   id: string,
-  updates: Partial<Omit<Person, "id" | "createdAt">>
+  updates: Partial<Omit<Person, "id" | "createdAt">>,
+  actor: AuditActor = SYSTEM_ACTOR
 ): Person {
-  const person = people.get(id);
+  const person = people(patientId).get(id);
   if (!person) {
     throw new Error("Person not found");
   }
 
+  const photoAssetIds = updates.photoAssetIds ?? person.photoAssetIds;
+  const primary =
+    updates.photoAssetId ??
+    (person.photoAssetId && photoAssetIds.includes(person.photoAssetId) ? person.photoAssetId : undefined);
+
   const updated: Person = {
     ...person,
     ...updates,
+    ...withPhotos(photoAssetIds, primary),
+    ...withRelationships(person, updates),
     updatedAt: Date.now(),
   };
 
   const validated = PersonSchema.parse(updated);
-  people.set(id, validated);
+  people(patientId).set(validated);
+  recordAudit(patientId, { entity: "person", action: "update", actor, before: person, after: validated });
+  return validated;
+}
+
+/**
+ * Put a person back to an earlier snapshot (recreating them if deleted since)
+ * With `changedTo`, the person as the change being undone left them, only the fields that change
+ * set and nobody has edited since are put back.
+ */
+export function restorePerson(
+  patientId: string,
+  snapshot: Person,
+  actor: AuditActor = SYSTEM_ACTOR,
+  changedTo?: Person
+): Person {
+  const current = people(patientId).get(snapshot.id);
+  let restored = snapshot;
+  if (current && changedTo) {
+    const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+    const fields = (Object.keys(PersonSchema.shape) as Array<keyof Person>).filter(
+      (key) => !same(snapshot[key], changedTo[key]) && same(current[key], changedTo[key])
+    );
+    restored = { ...current, ...Object.fromEntries(fields.map((key) => [key, snapshot[key]])) };
+  }
+  const validated = PersonSchema.parse({ ...restored, updatedAt: Date.now() });
+  people(patientId).set(validated);
+  recordAudit(patientId, {
+    entity: "person",
+    action: current ? "update" : "create",
+    actor,
+    before: current,
+    after: validated,
+  });
   return validated;
 }
 
 /**
- * Delete a person
+ * Fold a duplicate person into another and delete the duplicate
+ * The kept person's fields win; the duplicate fills in anything missing and its notes are appended.
+ */
+export function mergePeople(
+  patientId: string,
+  id: string,
+  duplicateId: string,
+  actor: AuditActor = SYSTEM_ACTOR
+): Person {
+  const person = people(patientId).get(id);
+  const duplicate = people(patientId).get(duplicateId);
+  if (!person || !duplicate) {
+    throw new Error("Person not found");
+  }
+
+  const notes = [person.notes, duplicate.notes]
+    .filter((n): n is string => !!n?.trim())
+    .filter((n, i, all) => all.indexOf(n) === i);
+
+  // Edges of both minus any between the two, one per target (the kept person's win)
+  const relationships = [...person.relationships, ...duplicate.relationships]
+    .filter((r) => r.personId !== id && r.personId !== duplicateId)
+    .filter((r, i, all) => all.findIndex((o) => o.personId === r.personId) === i);
+  // People pointing at the duplicate now point at the kept person
+  repointRelationships(patientId, duplicateId, id, actor);
+
+  const merged = updatePerson(patientId, id, {
+    relationships,
+    notes: notes.length > 0 ? notes.join("\n\n") : undefined,
+    photoAssetIds: [...person.photoAssetIds, ...duplicate.photoAssetIds],
+    photoAssetId: person.photoAssetId ?? duplicate.photoAssetId,
+    embeddingId: person.embeddingId ?? duplicate.embeddingId,
+    remindersEnabled: person.remindersEnabled || duplicate.remindersEnabled,
+  }, actor);
+  deletePerson(patientId, duplicateId, actor);
+  return merged;
+}
+
+/**
+ * Relationship graph around a person: their own edges and edges from others pointing at them
+ */
+export function listRelationshipEdges(patientId: string, id: string): RelationshipEdge[] {
+  const toEdge = (from: Person, r: PersonRelationship): RelationshipEdge => ({
+    fromPersonId: from.id,
+    toPersonId: r.personId,
+    type: r.type,
+    label: r.label,
+  });
+  const all = people(patientId).list();
+  const person = all.find((p) => p.id === id);
+  const outgoing = person ? person.relationships.map((r) => toEdge(person, r)) : [];
+  const incoming = all
+    .filter((p) => p.id !== id)
+    .flatMap((p) => p.relationships.filter((r) => r.personId === id).map((r) => toEdge(p, r)));
+  return [...outgoing, ...incoming];
+}
+
+/**
+ * Point other people's edges at `toId` instead of `fromId` (dropped when `toId` is undefined)
+ */
+function repointRelationships(patientId: string, fromId: string, toId: string | undefined, actor: AuditActor): void {
+  for (const other of people(patientId).list()) {
+    if (other.id === fromId || !other.relationships.some((r) => r.personId === fromId)) continue;
+    const relationships = other.relationships.flatMap((r) => {
+      if (r.personId !== fromId) return [r];
+      return toId && toId !== other.id ? [{ ...r, personId: toId }] : [];
+    });
+    updatePerson(patientId, other.id, { relationships }, actor);
+  }
+}
+
+/**
+ * Delete a person (edges from other people to them are removed too)
  */
-export function deletePerson(id: string): boolean {
-  return people.delete(id);
+export function deletePerson(patientId: string, id: string, actor: AuditActor = SYSTEM_ACTOR): boolean {
+  const person = people(patientId).get(id);
+  if (!person) {
+    return false;
+  }
+  repointRelationships(patientId, id, undefined, actor);
+  people(patientId).delete(id);
+  recordAudit(patientId, { entity: "person", action: "delete", actor, before: person });
+  return true;
 }
@@ -0,0 +1,85 @@
+import type { Place, RoomObservation } from "@cuelens/shared";
+import { PlaceSchema } from "@cuelens/shared";
+import { randomUUID } from "crypto";
+import { createPatientScopedRepository } from "./repository.js";
+
+const places = createPatientScopedRepository<Place>({
+  name: "places",
+  schema: PlaceSchema,
+  version: 1,
+});
+
+/**
+ * Create a new place
+ */
+export function createPlace(patientId: string, input: {
+  displayName: string;
+  notes?: string;
+  photoAssetId?: string;
+  embeddingId?: string;
+  fingerprint?: RoomObservation;
+  observationCount?: number;
+}): Place {
+  const now = Date.now();
+  const place: Place = {
+    id: randomUUID(),
+    displayName: input.displayName,
+    notes: input.notes,
+    photoAssetId: input.photoAssetId,
+    embeddingId: input.embeddingId,
+    fingerprint: input.fingerprint,
+    observationCount: input.observationCount,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  // Validate with schema
+  const validated = PlaceSchema.parse(place);
+  places(patientId).set(validated);
+  return validated;
+}
+
+/**
+ * List all places
+ */
+export function listPlaces(patientId: string): Place[] {
+  return places(patientId).list();
+}
+
+/**
+ * Get a place by ID
+ */
+export function getPlace(patientId: string, id: string): Place | undefined {
+  return places(patientId).get(id);
+}
+
+/**
+ * Update a place
+ */
+export function updatePlace(
+  patientId: string,
+  id: string,
+  updates: Partial<Omit<Place, "id" | "createdAt">>
+): Place {
+  const place = places(patientId).get(id);
+  if (!place) {
+    throw new Error("Place not found");
+  }
+
+  const updated: Place = {
+    ...place,
+    ...updates,
+    updatedAt: Date.now(),
+  };
+
+  const validated = PlaceSchema.parse(updated);
+  places(patientId).set(validated);
+  return validated;
+}
+
+/**
+ * Delete a place
+ */
+export function deletePlace(patientId: string, id: string): boolean {
+  return places(patientId).delete(id);
+}
@@ -0,0 +1,97 @@
+import type { ZodType, ZodTypeDef } from "zod";
+import { join } from "path";
+import { MemoryRepository } from "./memoryRepository.js";
+import { JsonFileRepository } from "./jsonFileRepository.js";
+
+/**
+ * Storage backend behind the store modules
+ * Selected once at startup via STORAGE_DRIVER=memory|file (default: file)
+ */
+export interface Repository<T extends { id: string }> {
+  list(): T[];
+  get(id: string): T | undefined;
+  set(record: T): void;
+  delete(id: string): boolean;
+}
+
+/**
+ * Migration from schema version N to N+1, keyed by N
+ * Receives the raw stored record and returns the upgraded record
+ */
+export type Migration = (record: Record<string, unknown>) => Record<string, unknown>;
+
+/**
+ * Describes a persisted collection
+ * `schema` is the Zod contract every record must satisfy after migrations run
+ */
+export interface CollectionDefinition<T extends { id: string }> {
+  name: string;
+  schema: ZodType<T, ZodTypeDef, unknown>;
+  version: number;
+  migrations?: Record<number, Migration>;
+}
+
+export type StorageDriver = "memory" | "file";
+
+/**
+ * Resolve the storage driver from the environment
+ */
+export function getStorageDriver(): StorageDriver {
+  const driver = (process.env.STORAGE_DRIVER || "file").toLowerCase();
+  if (driver !== "memory" && driver !== "file") {
+    throw new Error(`Invalid STORAGE_DRIVER "${driver}". Must be 'memory' or 'file'`);
+  }
+  return driver;
+}
+
+/**
+ * Directory used by the file driver (default: ./data relative to the API working directory)
+ */
+export function getDataDir(): string {
+  return process.env.DATA_DIR || "data";
+}
+
+/**
+ * Create the repository for a collection using the configured driver
+ */
+export function createRepository<T extends { id: string }>(
+  definition: CollectionDefinition<T>
+): Repository<T> {
+  if (getStorageDriver() === "memory") {
+    return new MemoryRepository<T>();
+  }
+  return new JsonFileRepository<T>(getDataDir(), definition);
+}
+
+/**
+ * Directory holding one patient's collections (file driver)
+ */
+export function getPatientDataDir(patientId: string): string {
+  // Patient IDs become path segments, so refuse anything that could escape the data dir
+  if (!/^[\w-]+$/.test(patientId)) {
+    throw new Error(`Invalid patient ID "${patientId}"`);
+  }
+  return join(getDataDir(), "patients", patientId);
+}
+
+/**
+ * Create a per-patient repository factory for a collection
+ * Each patient's records live in a separate repository (file driver: one file per patient),
+ * created on first access and reused afterwards
+ */
+export function createPatientScopedRepository<T extends { id: string }>(
+  definition: CollectionDefinition<T>
+): (patientId: string) => Repository<T> {
+  const repositories = new Map<string, Repository<T>>();
+  return (patientId) => {
+    let repository = repositories.get(patientId);
+    if (!repository) {
+      repository =
+        getStorageDriver() === "memory"
+          ? new MemoryRepository<T>()
+          : new JsonFileRepository<T>(getPatientDataDir(patientId), definition);
+      repositories.set(patientId, repository);
+    }
+    return repository;
+  };
+}
@@ -0,0 +1,83 @@
+import { createHash, randomBytes } from "crypto";
+import { z } from "zod";
+import { createRepository } from "./repository.js";
+
+const CAREGIVER_SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+/**
+ * Stored session
+ * Caregiver sessions come from logging in; device sessions are long-lived tokens bound to
+ * one patient (e.g. the camera/HUD in a resident's room). Only a hash of the token is stored.
+ */
+const StoredSessionSchema = z.object({
+  id: z.string(), // sha256 of the bearer token
+  kind: z.enum(["caregiver", "device"]),
+  caregiverId: z.string().optional(), // set for caregiver sessions
+  patientId: z.string().optional(), // set for device sessions
+  label: z.string().optional(), // human-readable device name
+  createdAt: z.number(), // unix timestamp in milliseconds
+  expiresAt: z.number().optional(), // unix timestamp in milliseconds, device tokens never expire
+});
+
+export type StoredSession = z.infer<typeof StoredSessionSchema>;
+
+const sessions = createRepository<StoredSession>({
+  name: "sessions",
+  schema: StoredSessionSchema,
+  version: 1,
+});
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function issue(session: Omit<StoredSession, "id" | "createdAt">): { token: string; session: StoredSession } {
+  const token = randomBytes(32).toString("base64url");
+  const stored = StoredSessionSchema.parse({
+    ...session,
+    id: hashToken(token),
+    createdAt: Date.now(),
+  });
+  sessions.set(stored);
+  return { token, session: stored };
+}
+
+/**
+ * Start a caregiver session and return its bearer token
+ */
+export function createCaregiverSession(caregiverId: string): { token: string; expiresAt: number } {
+  const expiresAt = Date.now() + CAREGIVER_SESSION_TTL_MS;
+  const { token } = issue({ kind: "caregiver", caregiverId, expiresAt });
+  return { token, expiresAt };
+}
+
+/**
+ * Issue a device token bound to a single patient
+ */
+export function createDeviceSession(patientId: string, label?: string): { token: string } {
+  const { token } = issue({ kind: "device", patientId, label });
+  return { token };
+}
+
+/**
+ * Resolve a bearer token to its session
+ * Expired sessions are removed and treated as missing
+ */
+export function getSessionByToken(token: string): StoredSession | undefined {
+  const session = sessions.get(hashToken(token));
+  if (!session) {
+    return undefined;
+  }
+  if (session.expiresAt !== undefined && session.expiresAt <= Date.now()) {
+    sessions.delete(session.id);
+    return undefined;
+  }
+  return session;
+}
+
+/**
+ * End the session for a bearer token
+ */
+export function deleteSessionByToken(token: string): boolean {
+  return sessions.delete(hashToken(token));
+}
@@ -0,0 +1,38 @@
+import type { AuditActor, PatientSettings, PatientSettingsUpdate } from "@cuelens/shared";
+import { PatientSettingsSchema } from "@cuelens/shared";
+import { z } from "zod";
+import { createPatientScopedRepository } from "./repository.js";
+import { recordAudit, SYSTEM_ACTOR } from "./auditStore.js";
+
+// A single record per patient, keyed by the patient ID
+const StoredSettingsSchema = PatientSettingsSchema.extend({ id: z.string() });
+
+type StoredSettings = z.infer<typeof StoredSettingsSchema>;
+
+const settings = createPatientScopedRepository<StoredSettings>({
+  name: "settings",
+  schema: StoredSettingsSchema,
+  version: 1,
+});
+
+/**
+ * Get a patient's settings (defaults for anything never changed)
+ */
+export function getSettings(patientId: string): PatientSettings {
+  return PatientSettingsSchema.parse(settings(patientId).get(patientId) ?? {});
+}
+
+/**
+ * Change some of a patient's settings
+ */
+export function updateSettings(
+  patientId: string,
+  changes: PatientSettingsUpdate,
+  actor: AuditActor = SYSTEM_ACTOR
+): PatientSettings {
+  const current = StoredSettingsSchema.parse({ ...getSettings(patientId), id: patientId });
+  const updated = StoredSettingsSchema.parse({ ...current, ...changes, updatedAt: Date.now() });
+  settings(patientId).set(updated);
+  recordAudit(patientId, { entity: "settings", action: "update", actor, before: current, after: updated });
+  return PatientSettingsSchema.parse(updated);
+}
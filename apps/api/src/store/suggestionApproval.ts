@@ -0,0 +1,217 @@
+import type { AuditActor, Person, Suggestion, SuggestionApprove } from "@cuelens/shared";
+import { getApprovalEffect, recordApprovalEffect } from "./suggestionsStore.js";
+import {
+  deletePerson,
+  getPerson,
+  getPersonByName,
+  restorePerson,
+  updatePerson,
+  upsertPerson,
+} from "./peopleStore.js";
+import { createPlace, deletePlace } from "./placesStore.js";
+import { importFrameAsset } from "./assetsStore.js";
+import { toTitleCase } from "../engine/nameDetection/index.js";
+import { ruleActor } from "../engine/suggestionRules.js";
+
+/**
+ * Apply a suggestion a rule approved on creation; no-op for any other suggestion
+ * A suggestion about a known person updates that person rather than whoever has the spoken name.
+ * Failures are logged, the suggestion stays approved.
+ */
+export async function applyAutoApproval(patientId: string, suggestion: Suggestion): Promise<void> {
+  if (suggestion.status !== "approved" || suggestion.autoDecision?.action !== "approve") {
+    return;
+  }
+  const { personId } = suggestion.related;
+  const edits: SuggestionApprove = personId ? { personId } : {};
+  try {
+    await applySuggestionApproval(patientId, suggestion, edits, ruleActor(suggestion.autoDecision));
+  } catch (error) {
+    console.error(`[suggestions] ❌ Error applying auto-approved ${suggestion.type} suggestion:`, error);
+  }
+}
+
+/**
+ * The person an approval saves: the existing person given as `personId`, and the name to save under
+ * Relationship suggestions name the person after the relationship unless the caregiver names them.
+ */
+function resolveApprovalPerson(patientId: string, suggestion: Suggestion, edits: SuggestionApprove) {
+  const { proposed } = suggestion;
+  const target = edits.personId ? getPerson(patientId, edits.personId) : undefined;
+  const proposedName =
+    suggestion.type === "identify_person"
+      ? proposed.displayName
+      : proposed.relationship && toTitleCase(proposed.relationship);
+  return { target, personName: edits.displayName || target?.displayName || proposedName };
+}
+
+/**
+ * Why approving the suggestion with these edits would fail, if it would
+ * Checked before anything is written, so an approval that can't be applied changes nothing.
+ */
+export function checkSuggestionApproval(
+  patientId: string,
+  suggestion: Suggestion,
+  edits: SuggestionApprove
+): string | undefined {
+  if (suggestion.type === "identify_place") {
+    return undefined;
+  }
+  const { target, personName } = resolveApprovalPerson(patientId, suggestion, edits);
+  if (edits.personId && !target) return "Person to attach the suggestion to was not found";
+  if (!personName) return "No name to save the person under";
+  return undefined;
+}
+
+/**
+ * Copy the suggestion's evidence frame into the asset store, unless the caregiver chose not to keep it
+ * Frames are short-lived webcam captures, so a photo worth keeping becomes an asset.
+ */
+async function importEvidencePhoto(patientId: string, suggestion: Suggestion, edits: SuggestionApprove) {
+  const { frameAssetId } = suggestion.evidence;
+  if (!frameAssetId || edits.photo === "none") {
+    return undefined;
+  }
+  return importFrameAsset(patientId, frameAssetId).catch((error) => {
+    console.error(`[suggestions] ❌ Error importing evidence frame as a photo:`, error);
+    return undefined;
+  });
+}
+
+/**
+ * Create the place an identify_place suggestion describes, using the observed room as its
+ * recognition fingerprint so the web app recognizes the room from then on
+ */
+async function applyPlaceApproval(patientId: string, suggestion: Suggestion, edits: SuggestionApprove) {
+  const { id, proposed, evidence } = suggestion;
+  const photo = await importEvidencePhoto(patientId, suggestion, edits);
+  const place = createPlace(patientId, {
+    displayName: edits.displayName || proposed.displayName || "New place",
+    notes: edits.notes,
+    photoAssetId: photo?.id,
+    fingerprint: evidence.roomObservation,
+    observationCount: evidence.observationCount,
+  });
+  if (!getApprovalEffect(patientId, id)) {
+    recordApprovalEffect(patientId, { id, placeId: place.id });
+  }
+  console.log(`[suggestions] ✅ Created place from identify_place suggestion:`, {
+    placeId: place.id,
+    displayName: place.displayName,
+    suggestionId: id,
+  });
+}
+
+/**
+ * Create or update the person an approval refers to, remembering their prior state so it can
+ * be reverted. Re-approving keeps the first recorded effect, which is the state before any approval.
+ */
+function savePersonForApproval(
+  patientId: string,
+  suggestionId: string,
+  target: Person | undefined,
+  input: Parameters<typeof upsertPerson>[1],
+  actor: AuditActor
+): Person {
+  const previous = target ?? getPersonByName(patientId, input.displayName);
+  let person: Person;
+  if (target) {
+    // updatePerson overwrites every key it is given, so only pass the fields being changed
+    const updates: Parameters<typeof updatePerson>[2] = {
+      displayName: input.displayName,
+      photoAssetIds: [...target.photoAssetIds, ...(input.photoAssetIds ?? [])],
+    };
+    if (input.relationship !== undefined) updates.relationship = input.relationship;
+    if (input.notes !== undefined) updates.notes = input.notes;
+    if (input.photoAssetId !== undefined) updates.photoAssetId = input.photoAssetId;
+    if (input.remindersEnabled !== undefined) updates.remindersEnabled = input.remindersEnabled;
+    person = updatePerson(patientId, target.id, updates, actor);
+  } else {
+    person = upsertPerson(patientId, input, actor);
+  }
+  if (!getApprovalEffect(patientId, suggestionId)) {
+    recordApprovalEffect(patientId, {
+      id: suggestionId,
+      personId: person.id,
+      previous,
+      applied: previous && person,
+    });
+  }
+  return person;
+}
+
+/**
+ * Apply an approved suggestion to the people or places store
+ * identify_place creates a place from the observed room. identify_person and
+ * relationship_suggestion create or update the person (matched by name, or the existing person
+ * given as `personId`) with the caregiver's edits applied over the proposed values; the evidence
+ * frame, if any, is copied into the asset store and added to the person's photos unless `photo`
+ * is "none". Throws when the person or place can't be saved, leaving the
+ * suggestion's status to the caller. Used for caregiver approvals and approvals made by rules.
+ */
+export async function applySuggestionApproval(
+  patientId: string,
+  suggestion: Suggestion,
+  edits: SuggestionApprove,
+  actor: AuditActor
+): Promise<void> {
+  if (suggestion.type === "identify_place") {
+    await applyPlaceApproval(patientId, suggestion, edits);
+    return;
+  }
+  const { id, proposed } = suggestion;
+  const { target, personName } = resolveApprovalPerson(patientId, suggestion, edits);
+  if (!personName) {
+    return;
+  }
+
+  const photo = await importEvidencePhoto(patientId, suggestion, edits);
+
+  const source = suggestion.type === "identify_person" ? "suggestion" : "relationship suggestion";
+  const generatedNotes = target
+    ? undefined // an existing person's notes are only replaced on request
+    : `Added via ${source} approval from transcript: "${suggestion.evidence.transcriptSnippet}"`;
+
+  const person = savePersonForApproval(patientId, id, target, {
+    displayName: personName,
+    relationship: edits.relationship ?? proposed.relationship,
+    notes: edits.notes ?? generatedNotes,
+    photoAssetIds: photo ? [photo.id] : undefined,
+    photoAssetId: photo && edits.photo === "primary" ? photo.id : undefined,
+    remindersEnabled: edits.remindersEnabled ?? (target ? undefined : false),
+  }, actor);
+  console.log(`[suggestions] ✅ Created/updated person from ${suggestion.type} suggestion:`, {
+    personId: person.id,
+    displayName: person.displayName,
+    relationship: person.relationship,
+    suggestionId: id,
+  });
+}
+
+/**
+ * Reverse what approving a suggestion did to the people or places store: a person or place it
+ * created is deleted, a person it updated gets back the fields it changed (unless edited since). Putting the
+ * suggestion itself back to pending is up to the caller.
+ */
+export function undoSuggestionApproval(patientId: string, suggestionId: string, actor: AuditActor): void {
+  const effect = getApprovalEffect(patientId, suggestionId);
+  if (effect?.placeId) {
+    deletePlace(patientId, effect.placeId);
+    console.log(`[suggestions] ↩️ Deleted place created by reverted suggestion:`, {
+      placeId: effect.placeId,
+      suggestionId,
+    });
+  } else if (effect?.previous) {
+    restorePerson(patientId, effect.previous, actor, effect.applied);
+    console.log(`[suggestions] ↩️ Restored person after reverting suggestion:`, {
+      personId: effect.personId,
+      suggestionId,
+    });
+  } else if (effect?.personId && getPerson(patientId, effect.personId)) {
+    deletePerson(patientId, effect.personId, actor);
+    console.log(`[suggestions] ↩️ Deleted person created by reverted suggestion:`, {
+      personId: effect.personId,
+      suggestionId,
+    });
+  }
+}
@@ -0,0 +1,101 @@
+import type {
+  AuditActor,
+  Suggestion,
+  SuggestionApprove,
+  SuggestionBulkRequest,
+  SuggestionBulkResult,
+} from "@cuelens/shared";
+import {
+  approveSuggestion,
+  getSuggestion,
+  rejectSuggestion,
+  revertSuggestion,
+} from "./suggestionsStore.js";
+import {
+  applySuggestionApproval,
+  checkSuggestionApproval,
+  undoSuggestionApproval,
+} from "./suggestionApproval.js";
+
+/**
+ * Why a listed suggestion cannot be decided in this batch, if it can't
+ * `edits` are the approval edits when approving, so approvals that can't be applied fail here.
+ */
+function checkItem(
+  patientId: string,
+  id: string,
+  edits: SuggestionApprove | undefined,
+  seen: Set<string>
+): string | undefined {
+  if (seen.has(id)) return "Listed more than once";
+  seen.add(id);
+  const suggestion = getSuggestion(patientId, id);
+  if (!suggestion) return "Suggestion not found";
+  if (suggestion.status !== "pending") return `Suggestion is already ${suggestion.status}`;
+  return edits ? checkSuggestionApproval(patientId, suggestion, edits) : undefined;
+}
+
+/**
+ * Approve or reject a batch of pending suggestions, all or nothing
+ * Every item, including the person or place each approval would save, is checked before anything
+ * is written. Only if a write then fails (a storage error) are the items already decided reverted
+ * in reverse order, undoing their people and places changes; the audit log shows those decisions
+ * followed by their reverts.
+ */
+export async function applyBulkReview(
+  patientId: string,
+  request: SuggestionBulkRequest,
+  actor: AuditActor
+): Promise<SuggestionBulkResult> {
+  const { action, ids, overrides = {} } = request;
+
+  const seen = new Set<string>();
+  const errors = ids.map((id) =>
+    checkItem(patientId, id, action === "approve" ? (overrides[id] ?? {}) : undefined, seen)
+  );
+  if (errors.some((error) => error !== undefined)) {
+    return {
+      applied: false,
+      results: ids.map((id, i) => ({
+        id,
+        outcome: errors[i] ? "failed" : "skipped",
+        error: errors[i],
+        suggestion: getSuggestion(patientId, id),
+      })),
+    };
+  }
+
+  const decided: Suggestion[] = [];
+  for (const id of ids) {
+    try {
+      if (action === "approve") {
+        const approved = approveSuggestion(patientId, id, actor);
+        decided.push(approved);
+        await applySuggestionApproval(patientId, approved, overrides[id] ?? {}, actor);
+      } else {
+        decided.push(rejectSuggestion(patientId, id, actor));
+      }
+    } catch (error) {
+      console.error(`[suggestions] ❌ Bulk ${action} failed on ${id}, rolling back:`, error);
+      for (const suggestion of [...decided].reverse()) {
+        if (action === "approve") undoSuggestionApproval(patientId, suggestion.id, actor);
+        revertSuggestion(patientId, suggestion.id, actor);
+      }
+      return {
+        applied: false,
+        results: ids.map((itemId) => ({
+          id: itemId,
+          outcome: itemId === id ? "failed" : "skipped",
+          error: itemId === id ? (error instanceof Error ? error.message : String(error)) : undefined,
+          suggestion: getSuggestion(patientId, itemId),
+        })),
+      };
+    }
+  }
+
+  console.log(`[suggestions] ✅ Bulk ${action}: ${decided.length} suggestion(s)`);
+  return {
+    applied: true,
+    results: decided.map((suggestion) => ({ id: suggestion.id, outcome: "applied", suggestion })),
+  };
+}
@@ -0,0 +1,77 @@
+import type { Suggestion } from "@cuelens/shared";
+import {
+  collapseSuggestions,
+  expireSuggestion,
+  listSuggestions,
+  suggestionCollapseKey,
+} from "./suggestionsStore.js";
+import { listPatients } from "./patientsStore.js";
+
+const SWEEP_INTERVAL_MS = 15 * 60 * 1000;
+
+/**
+ * How long a suggestion may stay pending, from SUGGESTION_EXPIRY_HOURS (default 48; 0 disables)
+ * Measured from the latest occurrence, so a suggestion that keeps coming up stays pending.
+ */
+export function getSuggestionExpiryMs(): number {
+  const hours = Number(process.env.SUGGESTION_EXPIRY_HOURS || 48);
+  if (!Number.isFinite(hours) || hours < 0) {
+    throw new Error(
+      `Invalid SUGGESTION_EXPIRY_HOURS "${process.env.SUGGESTION_EXPIRY_HOURS}". Must be a number >= 0`
+    );
+  }
+  return hours * 60 * 60 * 1000;
+}
+
+/**
+ * Expire stale pending suggestions, then collapse near-identical ones left pending into the oldest
+ * Suggestions held by a rule are left alone. Returns the number of suggestions expired either way
+ */
+export function sweepSuggestions(patientId: string): number {
+  const expiryMs = getSuggestionExpiryMs();
+  const now = Date.now();
+  let expired = 0;
+
+  const groups = new Map<string, Suggestion[]>();
+  for (const suggestion of listSuggestions(patientId, "pending")) {
+    // A rule held it for a caregiver to decide, so it waits however long that takes
+    if (suggestion.autoDecision?.action === "hold") continue;
+    if (expiryMs > 0 && now - (suggestion.lastSeenAt ?? suggestion.createdAt) > expiryMs) {
+      expireSuggestion(patientId, suggestion.id);
+      expired++;
+      continue;
+    }
+    const key = suggestionCollapseKey(suggestion);
+    groups.set(key, [...(groups.get(key) ?? []), suggestion]);
+  }
+
+  for (const group of groups.values()) {
+    const [keep, ...duplicates] = group.sort((a, b) => a.createdAt - b.createdAt);
+    if (!keep || duplicates.length === 0) continue;
+    collapseSuggestions(patientId, keep, duplicates);
+    expired += duplicates.length;
+  }
+
+  if (expired > 0) {
+    console.log(`[suggestions] 🧹 Expired ${expired} pending suggestion(s) for patient ${patientId}`);
+  }
+  return expired;
+}
+
+/**
+ * Sweep every patient's pending suggestions now and then every 15 minutes
+ */
+export function startSuggestionExpirySweep(): void {
+  getSuggestionExpiryMs(); // fail fast on invalid configuration
+  const sweep = () => {
+    listPatients().forEach((patient) => {
+      try {
+        sweepSuggestions(patient.id);
+      } catch (error) {
+        console.error(`[suggestions] ❌ Error sweeping suggestions for patient ${patient.id}:`, error);
+      }
+    });
+  };
+  sweep();
+  setInterval(sweep, SWEEP_INTERVAL_MS).unref();
+}
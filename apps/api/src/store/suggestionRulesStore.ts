@@ -0,0 +1,75 @@
+import type { AuditActor, SuggestionRule, SuggestionRuleCreate, SuggestionRuleUpdate } from "@cuelens/shared";
+import { SuggestionRuleSchema } from "@cuelens/shared";
+import { randomUUID } from "crypto";
+import { createPatientScopedRepository } from "./repository.js";
+import { recordAudit, SYSTEM_ACTOR } from "./auditStore.js";
+
+const rules = createPatientScopedRepository<SuggestionRule>({
+  name: "suggestion_rules",
+  schema: SuggestionRuleSchema,
+  version: 1,
+});
+
+/**
+ * List rules in evaluation order (priority, then oldest first)
+ */
+export function listSuggestionRules(patientId: string): SuggestionRule[] {
+  return rules(patientId)
+    .list()
+    .sort((a, b) => a.priority - b.priority || a.createdAt - b.createdAt);
+}
+
+/**
+ * Get a rule by ID
+ */
+export function getSuggestionRule(patientId: string, id: string): SuggestionRule | undefined {
+  return rules(patientId).get(id);
+}
+
+/**
+ * Create a new rule
+ */
+export function createSuggestionRule(
+  patientId: string,
+  input: SuggestionRuleCreate,
+  actor: AuditActor = SYSTEM_ACTOR
+): SuggestionRule {
+  const now = Date.now();
+  const validated = SuggestionRuleSchema.parse({ ...input, id: randomUUID(), createdAt: now, updatedAt: now });
+  rules(patientId).set(validated);
+  recordAudit(patientId, { entity: "suggestion_rule", action: "create", actor, after: validated });
+  return validated;
+}
+
+/**
+ * Update a rule
+ */
+export function updateSuggestionRule(
+  patientId: string,
+  id: string,
+  updates: SuggestionRuleUpdate,
+  actor: AuditActor = SYSTEM_ACTOR
+): SuggestionRule {
+  const rule = rules(patientId).get(id);
+  if (!rule) {
+    throw new Error("Rule not found");
+  }
+
+  const validated = SuggestionRuleSchema.parse({ ...rule, ...updates, updatedAt: Date.now() });
+  rules(patientId).set(validated);
+  recordAudit(patientId, { entity: "suggestion_rule", action: "update", actor, before: rule, after: validated });
+  return validated;
+}
+
+/**
+ * Delete a rule
+ */
+export function deleteSuggestionRule(patientId: string, id: string, actor: AuditActor = SYSTEM_ACTOR): boolean {
+  const rule = rules(patientId).get(id);
+  if (!rule) {
+    return false;
+  }
+  rules(patientId).delete(id);
+  recordAudit(patientId, { entity: "suggestion_rule", action: "delete", actor, before: rule });
+  return true;
+}
@@ -1,14 +1,127 @@
-import type { Suggestion, SuggestionCreate } from "@cuelens/shared";
-import { SuggestionSchema } from "@cuelens/shared";
+import type {
+  AuditActor,
+  RoomObservation,
+  Suggestion,
+  SuggestionAutoDecision,
+  SuggestionCreate,
+  SuggestionEvent,
+  SuggestionPage,
+  SuggestionStatus,
+} from "@cuelens/shared";
+import { PersonSchema, SuggestionListQuerySchema, SuggestionSchema } from "@cuelens/shared";
 import { randomUUID } from "crypto";
+import { EventEmitter } from "events";
+import { z } from "zod";
+import { createPatientScopedRepository } from "./repository.js";
+import { recordAudit, SYSTEM_ACTOR } from "./auditStore.js";
+import { listSuggestionRules } from "./suggestionRulesStore.js";
+import { findMatchingRule, ruleActor } from "../engine/suggestionRules.js";
 
-const suggestions = new Map<string, Suggestion>();
+const suggestions = createPatientScopedRepository<Suggestion>({
+  name: "suggestions",
+  schema: SuggestionSchema,
+  version: 1,
+});
+
+/**
+ * What approving a suggestion did to the people or places store, kept so the approval can be reverted
+ * `previous` is the person before an update and `applied` the person as the update left them;
+ * undefined means the approval created the person. Place approvals always create the place.
+ */
+const ApprovalEffectSchema = z.object({
+  id: z.string(), // suggestion ID
+  personId: z.string().optional(),
+  previous: PersonSchema.optional(),
+  applied: PersonSchema.optional(),
+  placeId: z.string().optional(),
+});
+
+export type ApprovalEffect = z.infer<typeof ApprovalEffectSchema>;
+
+const approvalEffects = createPatientScopedRepository<ApprovalEffect>({
+  name: "suggestion_effects",
+  schema: ApprovalEffectSchema,
+  version: 1,
+});
+
+// Notifies subscribers (e.g. the SSE stream) of every suggestion change
+const suggestionEvents = new EventEmitter();
+suggestionEvents.setMaxListeners(0); // One listener per connected caregiver client
+
+function emitSuggestionEvent(patientId: string, event: SuggestionEvent) {
+  suggestionEvents.emit("change", patientId, event);
+}
+
+/**
+ * Subscribe to suggestion changes across all patients
+ * Returns an unsubscribe function
+ */
+export function subscribeToSuggestionEvents(
+  listener: (patientId: string, event: SuggestionEvent) => void
+): () => void {
+  suggestionEvents.on("change", listener);
+  return () => {
+    suggestionEvents.off("change", listener);
+  };
+}
+
+function normalizeKeyPart(value: string | undefined): string {
+  return (value ?? "").toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+/**
+ * What an observed room contains, independent of the order it was reported in
+ */
+function roomKeyPart(room: RoomObservation): string {
+  const items = [...room.distinctive_markers, ...room.fixed_elements.major_furniture.map((f) => f.name)];
+  return [...new Set(items.map(normalizeKeyPart))].sort().join(",");
+}
+
+/**
+ * Key shared by near-identical suggestions: same type, related person/place and proposed
+ * name and relationship, or the same text when nothing is proposed or related
+ * Unknown rooms also need the same contents, so two different kitchens stay separate.
+ */
+export function suggestionCollapseKey(suggestion: SuggestionCreate): string {
+  const { personId, placeId } = suggestion.related;
+  const { displayName, relationship } = suggestion.proposed;
+  const parts = [personId, placeId, displayName, relationship].map(normalizeKeyPart);
+  if (parts.join("") === "") {
+    parts.push(normalizeKeyPart(suggestion.text));
+  }
+  const { roomObservation } = suggestion.evidence;
+  if (roomObservation) {
+    parts.push(roomKeyPart(roomObservation));
+  }
+  return [suggestion.type, ...parts].join("|");
+}
 
 /**
  * Create a new suggestion from input data
+ * A near-identical pending suggestion absorbs it instead (its occurrence count goes up), and is
+ * returned with `created: false`.
+ * Otherwise the patient's suggestion rules run first: the first matching rule approves or
+ * rejects it straight away (audited as that rule) or holds it for review. Applying an
+ * approval to the people store is up to the caller, as for manual approvals.
  */
-export function createSuggestion(input: SuggestionCreate): Suggestion {
+export function createSuggestion(
+  patientId: string,
+  input: SuggestionCreate,
+  actor: AuditActor = SYSTEM_ACTOR
+): { suggestion: Suggestion; created: boolean } {
   const now = Date.now();
+  const key = suggestionCollapseKey(input);
+  const similar = listSuggestions(patientId, "pending").find((s) => suggestionCollapseKey(s) === key);
+  if (similar) {
+    const suggestion = recordOccurrences(patientId, similar, 1, now, input.evidence.confidence, actor);
+    return { suggestion, created: false };
+  }
+
+  const rule = findMatchingRule(listSuggestionRules(patientId), input);
+  const autoDecision: SuggestionAutoDecision | undefined = rule
+    ? { ruleId: rule.id, ruleName: rule.name, action: rule.action, decidedAt: now }
+    : undefined;
+
   const suggestion: Suggestion = {
     id: randomUUID(),
     status: "pending",
@@ -17,39 +130,145 @@ export function createSuggestion(input: SuggestionCreate): Suggestion {
     related: input.related,
     proposed: input.proposed,
     evidence: input.evidence,
+    autoDecision: autoDecision?.action === "hold" ? autoDecision : undefined,
     createdAt: now,
     updatedAt: now,
   };
 
   // Validate with schema
   const validated = SuggestionSchema.parse(suggestion);
-  suggestions.set(validated.id, validated);
-  return validated;
+  suggestions(patientId).set(validated);
+  recordAudit(patientId, { entity: "suggestion", action: "create", actor, after: validated });
+  emitSuggestionEvent(patientId, { type: "created", suggestion: validated });
+
+  if (autoDecision?.action === "approve") {
+    const approved = approveSuggestion(patientId, validated.id, ruleActor(autoDecision), autoDecision);
+    return { suggestion: approved, created: true };
+  }
+  if (autoDecision?.action === "reject") {
+    const rejected = rejectSuggestion(patientId, validated.id, ruleActor(autoDecision), autoDecision);
+    return { suggestion: rejected, created: true };
+  }
+  return { suggestion: validated, created: true };
+}
+
+/**
+ * Count more occurrences on a pending suggestion, keeping the highest confidence seen
+ */
+function recordOccurrences(
+  patientId: string,
+  suggestion: Suggestion,
+  count: number,
+  lastSeenAt: number,
+  confidence: number | undefined,
+  actor: AuditActor
+): Suggestion {
+  const highest = Math.max(suggestion.evidence.confidence ?? 0, confidence ?? 0);
+  const updated: Suggestion = {
+    ...suggestion,
+    occurrences: (suggestion.occurrences ?? 1) + count,
+    lastSeenAt: Math.max(suggestion.lastSeenAt ?? suggestion.createdAt, lastSeenAt),
+    evidence: { ...suggestion.evidence, confidence: highest > 0 ? highest : undefined },
+    updatedAt: Date.now(),
+  };
+
+  suggestions(patientId).set(updated);
+  recordAudit(patientId, { entity: "suggestion", action: "update", actor, before: suggestion, after: updated });
+  emitSuggestionEvent(patientId, { type: "updated", suggestion: updated });
+  return updated;
 }
 
 /**
  * List suggestions, optionally filtered by status
  */
-export function listSuggestions(status?: Suggestion["status"]): Suggestion[] {
-  const all = Array.from(suggestions.values());
+export function listSuggestions(patientId: string, status?: SuggestionStatus): Suggestion[] {
+  const all = suggestions(patientId).list();
   if (status) {
     return all.filter((s) => s.status === status);
   }
   return all;
 }
 
+type SuggestionQuery = z.infer<typeof SuggestionListQuerySchema>;
+
+// Position after the last item of a page: its sort value and ID (ties broken by ID)
+const CursorSchema = z.tuple([z.number(), z.string()]);
+
+function encodeCursor(value: number, id: string): string {
+  return Buffer.from(JSON.stringify([value, id])).toString("base64url");
+}
+
+function decodeCursor(cursor: string): [number, string] {
+  try {
+    return CursorSchema.parse(JSON.parse(Buffer.from(cursor, "base64url").toString()));
+  } catch {
+    throw new Error("Invalid cursor");
+  }
+}
+
+function matchesQuery(s: Suggestion, query: SuggestionQuery): boolean {
+  const statuses = query.status === undefined ? undefined : [query.status].flat();
+  if (statuses && !statuses.includes(s.status)) return false;
+  if (query.type && s.type !== query.type) return false;
+  if (query.personId && s.related.personId !== query.personId) return false;
+  if (query.createdFrom !== undefined && s.createdAt < query.createdFrom) return false;
+  if (query.createdTo !== undefined && s.createdAt > query.createdTo) return false;
+  if (query.minOccurrences !== undefined && (s.occurrences ?? 1) < query.minOccurrences) return false;
+  if (query.collapsedInto && s.collapsedInto !== query.collapsedInto) return false;
+  if (query.q) {
+    const needle = query.q.toLowerCase();
+    const haystacks = [s.text, s.evidence.transcriptSnippet ?? ""];
+    if (!haystacks.some((text) => text.toLowerCase().includes(needle))) return false;
+  }
+  return true;
+}
+
+/**
+ * Filter, sort and page suggestions (GET /suggestions)
+ * The cursor holds the last item's sort value and ID, so suggestions created after the first
+ * page don't shift later ones. Throws "Invalid cursor" for a cursor it did not issue.
+ */
+export function querySuggestions(patientId: string, query: SuggestionQuery): SuggestionPage {
+  const { sort, order, limit } = query;
+  const direction = order === "asc" ? 1 : -1;
+  const compare = (a: Suggestion, b: Suggestion) =>
+    direction * (a[sort] - b[sort] || a.id.localeCompare(b.id));
+
+  let matches = suggestions(patientId)
+    .list()
+    .filter((s) => matchesQuery(s, query))
+    .sort(compare);
+
+  if (query.cursor) {
+    const [value, id] = decodeCursor(query.cursor);
+    matches = matches.filter((s) => direction * (s[sort] - value || s.id.localeCompare(id)) > 0);
+  }
+
+  const items = matches.slice(0, limit);
+  const last = items[items.length - 1];
+  return {
+    items,
+    nextCursor: matches.length > limit && last ? encodeCursor(last[sort], last.id) : undefined,
+  };
+}
+
 /**
  * Get a suggestion by ID
  */
-export function getSuggestion(id: string): Suggestion | undefined {
-  return suggestions.get(id);
+export function getSuggestion(patientId: string, id: string): Suggestion | undefined {
+  return suggestions(patientId).get(id);
 }
 
 /**
- * Approve a suggestion
+ * Approve a suggestion (`autoDecision` when a rule approved it)
  */
-export function approveSuggestion(id: string): Suggestion {
-  const suggestion = suggestions.get(id);
+export function approveSuggestion(
+  patientId: string,
+  id: string,
+  actor: AuditActor = SYSTEM_ACTOR,
+  autoDecision?: SuggestionAutoDecision
+): Suggestion {
+  const suggestion = suggestions(patientId).get(id);
   if (!suggestion) {
     throw new Error("Suggestion not found");
   }
@@ -57,18 +276,27 @@ export function approveSuggestion(id: string): Suggestion {
   const updated: Suggestion = {
     ...suggestion,
     status: "approved",
+    autoDecision: autoDecision ?? suggestion.autoDecision,
+    decidedAt: Date.now(),
     updatedAt: Date.now(),
   };
 
-  suggestions.set(id, updated);
+  suggestions(patientId).set(updated);
+  recordAudit(patientId, { entity: "suggestion", action: "approve", actor, before: suggestion, after: updated });
+  emitSuggestionEvent(patientId, { type: "approved", suggestion: updated });
   return updated;
 }
 
 /**
- * Reject a suggestion
+ * Reject a suggestion (`autoDecision` when a rule rejected it)
  */
-export function rejectSuggestion(id: string): Suggestion {
-  const suggestion = suggestions.get(id);
+export function rejectSuggestion(
+  patientId: string,
+  id: string,
+  actor: AuditActor = SYSTEM_ACTOR,
+  autoDecision?: SuggestionAutoDecision
+): Suggestion {
+  const suggestion = suggestions(patientId).get(id);
   if (!suggestion) {
     throw new Error("Suggestion not found");
   }
@@ -76,9 +304,136 @@ export function rejectSuggestion(id: string): Suggestion {
   const updated: Suggestion = {
     ...suggestion,
     status: "rejected",
+    autoDecision: autoDecision ?? suggestion.autoDecision,
+    decidedAt: Date.now(),
+    updatedAt: Date.now(),
+  };
+
+  suggestions(patientId).set(updated);
+  recordAudit(patientId, { entity: "suggestion", action: "reject", actor, before: suggestion, after: updated });
+  emitSuggestionEvent(patientId, { type: "rejected", suggestion: updated });
+  return updated;
+}
+
+/**
+ * Expire a pending suggestion (`collapsedInto` when it was merged into another suggestion)
+ */
+export function expireSuggestion(
+  patientId: string,
+  id: string,
+  actor: AuditActor = SYSTEM_ACTOR,
+  collapsedInto?: string
+): Suggestion {
+  const suggestion = suggestions(patientId).get(id);
+  if (!suggestion) {
+    throw new Error("Suggestion not found");
+  }
+
+  const updated: Suggestion = {
+    ...suggestion,
+    status: "expired",
+    collapsedInto,
     updatedAt: Date.now(),
   };
 
-  suggestions.set(id, updated);
+  suggestions(patientId).set(updated);
+  recordAudit(patientId, { entity: "suggestion", action: "expire", actor, before: suggestion, after: updated });
+  emitSuggestionEvent(patientId, { type: "expired", suggestion: updated });
   return updated;
-}
\ No newline at end of file
+}
+
+/**
+ * Fold near-identical pending suggestions into one: the kept suggestion counts their
+ * occurrences, and each duplicate is expired pointing at it
+ */
+export function collapseSuggestions(
+  patientId: string,
+  keep: Suggestion,
+  duplicates: Suggestion[],
+  actor: AuditActor = SYSTEM_ACTOR
+): Suggestion {
+  const count = duplicates.reduce((sum, s) => sum + (s.occurrences ?? 1), 0);
+  const lastSeenAt = Math.max(...duplicates.map((s) => s.lastSeenAt ?? s.createdAt));
+  const confidence = Math.max(...duplicates.map((s) => s.evidence.confidence ?? 0));
+
+  duplicates.forEach((s) => expireSuggestion(patientId, s.id, actor, keep.id));
+  return recordOccurrences(patientId, keep, count, lastSeenAt, confidence || undefined, actor);
+}
+
+/**
+ * Remember the people-store change made when approving a suggestion
+ */
+export function recordApprovalEffect(patientId: string, effect: ApprovalEffect): void {
+  approvalEffects(patientId).set(ApprovalEffectSchema.parse(effect));
+}
+
+/**
+ * People-store change made by a suggestion's approval, if any
+ */
+export function getApprovalEffect(patientId: string, id: string): ApprovalEffect | undefined {
+  return approvalEffects(patientId).get(id);
+}
+
+/**
+ * Put an approved or rejected suggestion back to pending
+ * Forgets its approval effect; undoing that effect on the people store is up to the caller.
+ */
+export function revertSuggestion(
+  patientId: string,
+  id: string,
+  actor: AuditActor = SYSTEM_ACTOR
+): Suggestion {
+  const suggestion = suggestions(patientId).get(id);
+  if (!suggestion) {
+    throw new Error("Suggestion not found");
+  }
+
+  const updated: Suggestion = {
+    ...suggestion,
+    status: "pending",
+    autoDecision: undefined, // back with the caregiver
+    collapsedInto: undefined,
+    decidedAt: undefined,
+    updatedAt: Date.now(),
+  };
+
+  suggestions(patientId).set(updated);
+  approvalEffects(patientId).delete(id);
+  recordAudit(patientId, { entity: "suggestion", action: "revert", actor, before: suggestion, after: updated });
+  emitSuggestionEvent(patientId, { type: "reverted", suggestion: updated });
+  return updated;
+}
+
+/**
+ * Re-point suggestions about one person to another (after merging duplicates)
+ * Approval effects on the merged-away person are dropped: reverting those approvals
+ * must not delete or roll back the person they were merged into.
+ */
+export function reassignSuggestionsPerson(
+  patientId: string,
+  fromPersonId: string,
+  toPersonId: string,
+  actor: AuditActor = SYSTEM_ACTOR
+): number {
+  const affected = suggestions(patientId)
+    .list()
+    .filter((s) => s.related.personId === fromPersonId);
+
+  for (const suggestion of affected) {
+    const updated: Suggestion = {
+      ...suggestion,
+      related: { ...suggestion.related, personId: toPersonId },
+      updatedAt: Date.now(),
+    };
+    suggestions(patientId).set(updated);
+    recordAudit(patientId, { entity: "suggestion", action: "update", actor, before: suggestion, after: updated });
+    emitSuggestionEvent(patientId, { type: "updated", suggestion: updated });
+  }
+
+  approvalEffects(patientId)
+    .list()
+    .filter((e) => e.personId === fromPersonId)
+    .forEach((e) => approvalEffects(patientId).delete(e.id));
+
+  return affected.length;
+}
@@ -0,0 +1,52 @@
+import type { VisionEvent, VisionEventCreate } from "@cuelens/shared";
+import { VisionEventSchema } from "@cuelens/shared";
+import { randomUUID } from "crypto";
+import { createPatientScopedRepository } from "./repository.js";
+
+const visionEvents = createPatientScopedRepository<VisionEvent>({
+  name: "visionEvents",
+  schema: VisionEventSchema,
+  version: 1,
+});
+
+/**
+ * Record a new vision event
+ */
+export function createVisionEvent(patientId: string, input: VisionEventCreate): VisionEvent {
+  const event: VisionEvent = {
+    id: randomUUID(),
+    type: input.type,
+    timestamp: input.timestamp ?? Date.now(),
+    confidence: input.confidence,
+    labels: input.labels,
+    evidence: input.evidence,
+    source: input.source,
+  };
+
+  // Validate with schema
+  const validated = VisionEventSchema.parse(event);
+  visionEvents(patientId).set(validated);
+  return validated;
+}
+
+/**
+ * List vision events in timestamp order, optionally filtered
+ * `since` is exclusive so clients can pass the last timestamp they saw
+ */
+export function listVisionEvents(patientId: string, filter?: {
+  since?: number;
+  type?: VisionEvent["type"];
+}): VisionEvent[] {
+  return visionEvents(patientId)
+    .list()
+    .filter((e) => filter?.since === undefined || e.timestamp > filter.since)
+    .filter((e) => !filter?.type || e.type === filter.type)
+    .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Get a vision event by ID
+ */
+export function getVisionEvent(patientId: string, id: string): VisionEvent | undefined {
+  return visionEvents(patientId).get(id);
+}
@@ -0,0 +1,123 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { AuditEntry } from '@cuelens/shared';
+import { fetchAuditEntries } from '@/lib/auditApi';
+
+interface AuditHistoryPanelProps {
+  // Any value that changes when the underlying records do (triggers a refetch while open)
+  refreshKey?: unknown;
+}
+
+const ACTION_LABELS: Record<AuditEntry['action'], string> = {
+  create: 'created',
+  update: 'updated',
+  delete: 'deleted',
+  approve: 'approved',
+  reject: 'rejected',
+  revert: 'reverted to pending',
+  expire: 'expired',
+};
+
+const ACTION_STYLES: Record<AuditEntry['action'], string> = {
+  create: 'bg-primary/20 text-primary',
+  update: 'bg-white/10 text-gray-300',
+  delete: 'bg-red-500/20 text-red-400',
+  approve: 'bg-emerald-500/20 text-emerald-400',
+  reject: 'bg-red-500/20 text-red-400',
+  revert: 'bg-yellow-500/20 text-yellow-400',
+  expire: 'bg-white/10 text-gray-400',
+};
+
+const MAX_ENTRIES = 50;
+
+function actorLabel(actor: AuditEntry['actor']): string {
+  if (actor.type === 'system') return actor.name || 'System';
+  if (actor.type === 'device') return actor.name ? `Device "${actor.name}"` : 'Patient device';
+  return actor.name || 'Caregiver';
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return '—';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+}
+
+/**
+ * Collapsible history of who changed which suggestion or person, and how
+ */
+export default function AuditHistoryPanel({ refreshKey }: AuditHistoryPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    fetchAuditEntries()
+      .then((result) => {
+        if (cancelled) return;
+        setEntries(result.slice(0, MAX_ENTRIES));
+        setError(null);
+      })
+      .catch((err) => {
+        console.error('Error fetching audit trail:', err);
+        if (!cancelled) setError('Failed to load history');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, refreshKey]);
+
+  return (
+    <div className="glass-panel rounded-xl p-6">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between mb-4 hover:opacity-80 transition-opacity"
+      >
+        <h2 className="text-xl font-semibold text-white">History</h2>
+        <span className={`material-symbols-outlined text-white transition-transform ${isOpen ? 'rotate-180' : ''}`}>
+          expand_more
+        </span>
+      </button>
+      {isOpen && (
+        <>
+          {error && <p className="text-red-400 text-sm mb-4">{error}</p>}
+          {entries.length === 0 && !error ? (
+            <p className="text-gray-400 text-sm">No changes recorded yet</p>
+          ) : (
+            <ul className="space-y-3">
+              {entries.map((entry) => (
+                <li key={entry.id} className="bg-white/5 border border-white/10 rounded-xl p-4">
+                  <div className="flex flex-wrap items-center gap-2 mb-2">
+                    <span className="text-white text-sm font-medium">{actorLabel(entry.actor)}</span>
+                    <span className={`text-xs px-2 py-1 rounded-full font-semibold ${ACTION_STYLES[entry.action]}`}>
+                      {ACTION_LABELS[entry.action]}
+                    </span>
+                    <span className="text-gray-400 text-sm">
+                      {entry.entity} <span className="font-mono text-xs">{entry.entityId.slice(0, 8)}</span>
+                    </span>
+                    <span className="ml-auto text-gray-500 text-xs">
+                      {new Date(entry.timestamp).toLocaleString()}
+                    </span>
+                  </div>
+                  {entry.action !== 'create' && entry.action !== 'delete' && entry.changes.length > 0 && (
+                    <ul className="space-y-1">
+                      {entry.changes.map((change) => (
+                        <li key={change.field} className="text-xs text-gray-400">
+                          <span className="text-gray-300 font-medium">{change.field}</span>:{' '}
+                          <span className="line-through">{formatValue(change.before)}</span> →{' '}
+                          <span className="text-primary">{formatValue(change.after)}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
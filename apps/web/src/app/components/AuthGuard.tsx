@@ -0,0 +1,31 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+import { getActivePatient, getSession } from '@/lib/apiClient';
+
+/**
+ * Sends visitors without a session (or without a selected patient) to /login
+ * Children render only once the check has passed, so pages never call the API signed out.
+ */
+export default function AuthGuard({ children }: { children: React.ReactNode }) {
+  const pathname = usePathname();
+  const router = useRouter();
+  const isLoginPage = pathname === '/login';
+  const [authorized, setAuthorized] = useState(false);
+
+  useEffect(() => {
+    if (isLoginPage) return;
+    if (!getSession() || !getActivePatient()) {
+      setAuthorized(false);
+      router.replace('/login');
+      return;
+    }
+    setAuthorized(true);
+  }, [isLoginPage, pathname, router]);
+
+  if (isLoginPage || authorized) {
+    return <>{children}</>;
+  }
+  return null;
+}
@@ -0,0 +1,108 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { Person, PersonDuplicate } from '@cuelens/shared';
+import { fetchDuplicatePeople } from '@/lib/peopleApi';
+
+interface DuplicatePeoplePanelProps {
+  people: Person[];
+  onMerge: (keepId: string, duplicateId: string) => Promise<unknown>;
+}
+
+const REASON_LABELS: Record<PersonDuplicate['reason'], string> = {
+  exact: 'Same name',
+  nickname: 'Nickname',
+  phonetic: 'Sounds alike',
+  fuzzy: 'Similar spelling',
+  relationship: 'Same relative',
+};
+
+/**
+ * Likely duplicate people with one-click merge
+ * Refetched whenever the people list changes; renders nothing when there are no candidates.
+ */
+export default function DuplicatePeoplePanel({ people, onMerge }: DuplicatePeoplePanelProps) {
+  const [duplicates, setDuplicates] = useState<PersonDuplicate[]>([]);
+  const [mergingKey, setMergingKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchDuplicatePeople()
+      .then((result) => {
+        if (!cancelled) setDuplicates(result);
+      })
+      .catch((err) => console.warn('Error fetching duplicate people:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [people]);
+
+  const byId = new Map(people.map((p) => [p.id, p]));
+  const pairs = duplicates
+    .map((d) => ({ ...d, person: byId.get(d.personId), duplicate: byId.get(d.duplicateId) }))
+    .filter((d): d is typeof d & { person: Person; duplicate: Person } => !!d.person && !!d.duplicate);
+
+  if (pairs.length === 0) return null;
+
+  const handleMerge = async (keep: Person, duplicate: Person) => {
+    if (!confirm(`Merge "${duplicate.displayName}" into "${keep.displayName}"? "${duplicate.displayName}" will be removed.`)) {
+      return;
+    }
+    setMergingKey(`${keep.id}:${duplicate.id}`);
+    try {
+      await onMerge(keep.id, duplicate.id);
+    } catch (err) {
+      console.error('Error merging people:', err);
+      alert('Could not merge these people. Please try again.');
+    } finally {
+      setMergingKey(null);
+    }
+  };
+
+  return (
+    <div className="relative z-20 flex flex-col gap-3 p-5 rounded-2xl bg-yellow-500/5 border border-yellow-500/20">
+      <div className="flex items-center gap-2">
+        <span className="material-symbols-outlined text-yellow-400">group</span>
+        <h2 className="text-lg font-bold text-white">Possible duplicates ({pairs.length})</h2>
+      </div>
+      <p className="text-sm text-text-muted">
+        These profiles may be the same person. Choose which one to keep; the other is merged into it.
+      </p>
+      <div className="flex flex-col gap-2">
+        {pairs.map(({ person, duplicate, reason, score }) => {
+          const isMerging =
+            mergingKey === `${person.id}:${duplicate.id}` || mergingKey === `${duplicate.id}:${person.id}`;
+          return (
+            <div
+              key={`${person.id}:${duplicate.id}`}
+              className="flex flex-wrap items-center gap-3 px-4 py-3 rounded-xl bg-white/5 border border-white/5"
+            >
+              <span className="text-white font-semibold">{person.displayName}</span>
+              <span className="text-text-muted text-sm">and</span>
+              <span className="text-white font-semibold">{duplicate.displayName}</span>
+              <span className="text-xs px-2 py-1 rounded-full bg-yellow-500/20 text-yellow-400">
+                {REASON_LABELS[reason]} · {Math.round(score * 100)}%
+              </span>
+              <div className="ml-auto flex gap-2">
+                <button
+                  onClick={() => handleMerge(person, duplicate)}
+                  disabled={mergingKey !== null}
+                  className="px-3 py-1.5 rounded-lg bg-primary/20 hover:bg-primary/30 text-primary text-sm font-semibold disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+                >
+                  {isMerging ? 'Merging...' : `Keep ${person.displayName}`}
+                </button>
+                <button
+                  onClick={() => handleMerge(duplicate, person)}
+                  disabled={mergingKey !== null}
+                  className="px-3 py-1.5 rounded-lg bg-primary/20 hover:bg-primary/30 text-primary text-sm font-semibold disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+                >
+                  Keep {duplicate.displayName}
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
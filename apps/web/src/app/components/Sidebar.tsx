@@ -1,10 +1,30 @@
+'use client';
+
+import { useEffect, useState } from 'react';
 import Link from 'next/link';
+import type { Caregiver } from '@cuelens/shared';
+import { getActivePatient, getSession, type ActivePatient } from '@/lib/apiClient';
+import { logout } from '@/lib/authApi';
 
 interface SidebarProps {
   activePage?: 'live-vision' | 'places' | 'people' | 'settings' | 'suggestions';
 }
 
 export default function Sidebar({ activePage = 'live-vision' }: SidebarProps) {
+  const [caregiver, setCaregiver] = useState<Caregiver | null>(null);
+  const [patient, setPatient] = useState<ActivePatient | null>(null);
+
+  // Read from localStorage after mount so server and client render the same markup
+  useEffect(() => {
+    setCaregiver(getSession()?.caregiver ?? null);
+    setPatient(getActivePatient());
+  }, []);
+
+  const handleLogout = async () => {
+    await logout();
+    window.location.href = '/login';
+  };
+
   return (
     <nav className="w-72 h-full flex flex-col bg-[#1e2124] border-r border-white/5 z-20 shrink-0">
       <div className="p-6 pb-2">
@@ -91,7 +111,7 @@ export default function Sidebar({ activePage = 'live-vision' }: SidebarProps) {
             </span>
           </Link>
           <Link
-            href="#"
+            href="/settings"
             className={`flex items-center gap-4 px-4 py-3 rounded-xl transition-colors ${
               activePage === 'settings'
                 ? 'bg-primary/15 text-primary border border-primary/10'
@@ -105,20 +125,28 @@ export default function Sidebar({ activePage = 'live-vision' }: SidebarProps) {
           </Link>
         </div>
       </div>
-      <div className="mt-auto p-6 border-t border-white/5">
+      <div className="mt-auto p-6 border-t border-white/5 flex flex-col gap-3">
+        <Link
+          href="/login"
+          className="flex items-center gap-3 px-4 py-3 rounded-xl text-gray-400 hover:text-white hover:bg-white/5 transition-colors"
+          title="Switch patient"
+        >
+          <span className="material-symbols-outlined">person</span>
+          <div className="flex flex-col min-w-0">
+            <p className="text-gray-500 text-[11px] font-medium uppercase tracking-wide">Patient</p>
+            <p className="text-white text-sm font-semibold truncate">{patient?.displayName ?? 'Select a patient'}</p>
+          </div>
+          <span className="material-symbols-outlined ml-auto text-[20px]">swap_horiz</span>
+        </Link>
         <div className="flex items-center gap-3 p-3 rounded-xl bg-white/5 border border-white/5">
-          <div
-            className="size-10 rounded-full bg-cover bg-center shrink-0"
-            style={{
-              backgroundImage:
-                "url('https://lh3.googleusercontent.com/aida-public/AB6AXuB37SbgebeFpVQM3gTbyVMsZNN3ov2Iz9ZkDaKyKtG-IpeE-pby1vC-eu22ty8560U9tX69imTfZJNz4W1bGf8nnsoY3JyGeKwaMcNK36tPhRfrNwNGlkWd53Ah801SK6ZPNXl23m1bcQQ0j2f33FDyIkdVcnVeFS899-2CTpXdiopBywbo-BbewLurnxTZV2NDkgERz2lKMXIrNU7HE-OOs7mi65IZmv1oAVmo1PTVUqFey2VylosGZGrGf6_n4cvrVufGgpWlBXJx')",
-            }}
-          />
+          <div className="size-10 rounded-full bg-primary/20 text-primary flex items-center justify-center shrink-0 font-bold">
+            {caregiver?.displayName.charAt(0).toUpperCase() ?? '?'}
+          </div>
           <div className="flex flex-col min-w-0">
-            <p className="text-white text-sm font-semibold truncate">Arthur Dent</p>
-            <p className="text-gray-400 text-xs truncate">arthur@cuelens.app</p>
+            <p className="text-white text-sm font-semibold truncate">{caregiver?.displayName}</p>
+            <p className="text-gray-400 text-xs truncate">{caregiver?.email}</p>
           </div>
-          <button className="ml-auto text-gray-400 hover:text-white">
+          <button onClick={handleLogout} className="ml-auto text-gray-400 hover:text-white" title="Sign out">
             <span className="material-symbols-outlined text-[20px]">logout</span>
           </button>
         </div>
@@ -4,15 +4,25 @@ import { useEffect, useRef, useState, useCallback } from 'react';
 
 import { useOvershootVision } from '@/hooks/useOvershootVision';
 import { useRoomProfiles } from '@/hooks/useRoomProfiles';
+import { usePeopleProfiles } from '@/hooks/usePeopleProfiles';
 import { ROOM_OBSERVATION_PROMPT, ROOM_OBSERVATION_OUTPUT_SCHEMA } from '@/lib/roomSchema';
 import { pickBestMatch } from '@/lib/roomMatching';
+import { aggregateObservations } from '@/lib/roomAggregation';
+import { emitVisionEvent } from '@/lib/visionEventsApi';
+import { ReminderService, findMentionedPeople } from '@/lib/reminderService';
+import { createTTSProvider } from '@/lib/tts';
 import type { RoomObservation } from '@/types/room';
 import DetectedRoomModal from './DetectedRoomModal';
 
 // STT (from Om branch)
 import { captureFrameFromVideo, uploadFrame } from '@/lib/frameCapture';
+import { apiFetch } from '@/lib/apiClient';
 import { OpenAIRealtimeClient } from '@/lib/openaiRealtimeClient';
 import { HTTPSTTClient } from '@/lib/httpSttClient';
+import { DEFAULT_SETTINGS, fetchSettings } from '@/lib/settingsApi';
+
+// Unchanged scenes are recorded at most this often (every change of room type is recorded)
+const SCENE_HINT_INTERVAL_MS = 30 * 1000;
 
 export default function WebcamFeed() {
   const videoRef = useRef<HTMLVideoElement>(null);
@@ -36,13 +46,20 @@ export default function WebcamFeed() {
   const observationBufferRef = useRef<RoomObservation[]>([]);
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const profilesRef = useRef<any[]>([]);
+  // Unrecognized room streak, suggested to the caregiver as a new place once it lasts long enough
+  const unmatchedSinceRef = useRef<number | null>(null);
+  const unmatchedObservationsRef = useRef<RoomObservation[]>([]);
+  // Rooms already suggested this session, so the same unknown room is not suggested again
+  const suggestedRoomsRef = useRef<RoomObservation[]>([]);
 
   // STT (Om branch) - audio only (no UI)
   const audioStreamRef = useRef<MediaStream | null>(null);
   const openaiRealtimeRef = useRef<OpenAIRealtimeClient | null>(null);
   const httpSttRef = useRef<HTTPSTTClient | null>(null);
-  const sessionIdRef = useRef<string>(`session_${Date.now()}_${Math.random().toString(36).slice(2)}`);
   const isConnectingRef = useRef<boolean>(false);
+  // Most recent vision event, linked from transcript suggestions as evidence
+  const lastVisionEventIdRef = useRef<string | null>(null);
+  const lastSceneHintRef = useRef<{ roomType: string; at: number } | null>(null);
 
   // Feature flag: USE_REALTIME_STT=true uses WebSocket realtime, else uses HTTP chunk fallback
   const useRealtimeSTT = (process.env.NEXT_PUBLIC_USE_REALTIME_STT || 'false').toLowerCase() === 'true';
@@ -55,6 +72,99 @@ export default function WebcamFeed() {
     profilesRef.current = profiles;
   }, [profiles]);
 
+  // Known people (for spoken reminders when someone is named in conversation)
+  const { people } = usePeopleProfiles();
+  const peopleRef = useRef(people);
+  useEffect(() => {
+    peopleRef.current = people;
+  }, [people]);
+
+  // Room match rules are tuned per patient; stock values until they load
+  const settingsRef = useRef(DEFAULT_SETTINGS);
+  useEffect(() => {
+    fetchSettings()
+      .then((settings) => {
+        settingsRef.current = settings;
+      })
+      .catch((err) => console.warn('⚠️ Failed to load settings, using defaults:', err));
+  }, []);
+
+  // Spoken reminders for recognized rooms and people
+  const [reminderService] = useState(() => new ReminderService(createTTSProvider()));
+
+  // Raise an identify_place suggestion for a room no saved profile matches
+  const suggestUnknownRoom = useCallback(async (roomObservation: RoomObservation, observationCount: number) => {
+    const roomType = roomObservation.room_type.replace('_', ' ');
+    const roomName = roomType === 'unknown' ? undefined : roomType.charAt(0).toUpperCase() + roomType.slice(1);
+
+    let frameAssetId: string | undefined = undefined;
+    if (videoRef.current) {
+      const frameBase64 = captureFrameFromVideo(videoRef.current);
+      if (frameBase64) {
+        try {
+          const uploadedId = await uploadFrame(frameBase64);
+          frameAssetId = uploadedId || undefined;
+        } catch (err) {
+          console.warn('⚠️ Failed to upload frame:', err);
+        }
+      }
+    }
+
+    try {
+      await apiFetch('/suggestions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          type: 'identify_place',
+          text: `Possible new place: ${roomName ?? 'Unrecognized room'}`,
+          related: { visionEventId: lastVisionEventIdRef.current ?? undefined },
+          proposed: { displayName: roomName },
+          evidence: {
+            transcriptSnippet: roomObservation.summary || undefined,
+            frameAssetId,
+            roomObservation,
+            observationCount,
+          },
+        }),
+      });
+    } catch (err) {
+      console.error('❌ Error suggesting unknown room:', err);
+    }
+  }, []);
+
+  // Track how long the camera has shown a room that matches no profile
+  const trackUnmatchedRoom = useCallback(
+    (obs: RoomObservation, now: number) => {
+      const { placeSuggestionDelaySeconds, placeConsecutiveMatches, placeMatchThreshold } = settingsRef.current;
+      if (placeSuggestionDelaySeconds <= 0) return;
+
+      unmatchedSinceRef.current ??= now;
+      unmatchedObservationsRef.current.push(obs);
+      if (unmatchedObservationsRef.current.length > 10) {
+        unmatchedObservationsRef.current.shift();
+      }
+
+      if (
+        now - unmatchedSinceRef.current >= placeSuggestionDelaySeconds * 1000 &&
+        unmatchedObservationsRef.current.length >= placeConsecutiveMatches
+      ) {
+        // Matched against earlier suggestions the same way saved rooms are, not by room type
+        const roomObservation = aggregateObservations(unmatchedObservationsRef.current);
+        const suggested = pickBestMatch(
+          roomObservation,
+          suggestedRoomsRef.current.map((profile, i) => ({ profile, id: String(i), name: '' }))
+        );
+        if (suggested.score < placeMatchThreshold) {
+          suggestedRoomsRef.current.push(roomObservation);
+          void suggestUnknownRoom(roomObservation, unmatchedObservationsRef.current.length);
+        }
+        unmatchedSinceRef.current = null;
+        unmatchedObservationsRef.current = [];
+      }
+    },
+    [suggestUnknownRoom]
+  );
+
   // Handle observations from Overshoot with stable callback
   const handleObservation = useCallback((obs: RoomObservation) => {
     setLiveObservation(obs);
@@ -65,10 +175,27 @@ export default function WebcamFeed() {
     }
 
     const currentProfiles = profilesRef.current;
-    if (currentProfiles.length === 0) return;
-
     const now = Date.now();
 
+    // Record the scene as a hint when it changes, or now and then (Overshoot does not report a confidence)
+    const lastSceneHint = lastSceneHintRef.current;
+    if (!lastSceneHint || lastSceneHint.roomType !== obs.room_type || now - lastSceneHint.at >= SCENE_HINT_INTERVAL_MS) {
+      lastSceneHintRef.current = { roomType: obs.room_type, at: now };
+      void emitVisionEvent({
+        type: 'scene_hint',
+        confidence: 1,
+        labels: [obs.room_type, ...obs.distinctive_markers],
+        evidence: { raw: obs },
+        source: 'overshoot',
+      }).then((event) => {
+        if (event) lastVisionEventIdRef.current = event.id;
+      });
+    }
+    if (currentProfiles.length === 0) {
+      trackUnmatchedRoom(obs, now);
+      return;
+    }
+
     // Cooldown check
     if (now < cooldownUntilRef.current) return;
 
@@ -82,8 +209,23 @@ export default function WebcamFeed() {
       }))
     );
 
-    // 50% threshold
-    if (best.score >= 0.5) {
+    const { placeMatchThreshold, placeConsecutiveMatches, placeReminderCooldownSeconds } = settingsRef.current;
+
+    // Match threshold (default 50%)
+    if (best.score >= placeMatchThreshold) {
+      unmatchedSinceRef.current = null;
+      unmatchedObservationsRef.current = [];
+
+      void emitVisionEvent({
+        type: 'place_candidate',
+        confidence: best.score,
+        labels: [best.name, obs.room_type],
+        evidence: { raw: { roomProfileId: best.id, observation: obs } },
+        source: 'overshoot',
+      }).then((event) => {
+        if (event) lastVisionEventIdRef.current = event.id;
+      });
+
       if (lastMatchRef.current && lastMatchRef.current.id === best.id) {
         consecMatchRef.current += 1;
       } else {
@@ -92,17 +234,19 @@ export default function WebcamFeed() {
 
       lastMatchRef.current = { id: best.id, name: best.name, score: best.score };
 
-      // Need 3 consecutive matches
-      if (consecMatchRef.current >= 3) {
+      // Need N consecutive matches (default 3)
+      if (consecMatchRef.current >= placeConsecutiveMatches) {
         setDetectedRoom({ name: best.name, score: best.score });
-        cooldownUntilRef.current = now + 30000; // 30s cooldown
+        void reminderService.remindPlace({ id: best.id, name: best.name });
+        cooldownUntilRef.current = now + placeReminderCooldownSeconds * 1000; // default 30s cooldown
         consecMatchRef.current = 0;
       }
     } else {
       consecMatchRef.current = 0;
       lastMatchRef.current = null;
+      trackUnmatchedRoom(obs, now);
     }
-  }, []);
+  }, [reminderService, trackUnmatchedRoom]);
 
   // Enable Overshoot vision with room observation schema
   const {
@@ -269,6 +413,8 @@ export default function WebcamFeed() {
   // STT effect (audio-only). Keeps vision/video logic separate.
   useEffect(() => {
     let mounted = true;
+    // One conversation per STT session, so the backend can read consecutive transcripts together
+    const sessionId = crypto.randomUUID();
 
     const startSTT = async () => {
       try {
@@ -296,6 +442,11 @@ export default function WebcamFeed() {
 
           console.log(`✅ STT transcript (FINAL): ${text}`);
 
+          // Remind who a known person is when they are named (respects remindersEnabled)
+          for (const person of findMentionedPeople(text, peopleRef.current)) {
+            void reminderService.remindPerson(person);
+          }
+
           // Attach a frame snapshot for backend context (optional)
           let frameAssetId: string | undefined = undefined;
           if (videoRef.current) {
@@ -312,14 +463,14 @@ export default function WebcamFeed() {
 
           // Send to backend suggestion engine
           try {
-            const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:3001';
-            await fetch(`${API_BASE_URL}/transcript`, {
+            await apiFetch('/transcript', {
               method: 'POST',
               headers: { 'Content-Type': 'application/json' },
               body: JSON.stringify({
                 transcript: text,
-                visionEventId: sessionIdRef.current,
+                visionEventId: lastVisionEventIdRef.current ?? undefined,
                 frameAssetId,
+                sessionId,
               }),
             });
           } catch (err) {
@@ -408,7 +559,7 @@ export default function WebcamFeed() {
         audioStreamRef.current = null;
       }
     };
-  }, [useRealtimeSTT]);
+  }, [useRealtimeSTT, reminderService]);
 
   // Vision error handling - only show critical errors
   useEffect(() => {
@@ -0,0 +1,201 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { Patient } from '@cuelens/shared';
+import { fetchAuthStatus, fetchMe, login, logout, register } from '@/lib/authApi';
+import { getActivePatient, getSession, setActivePatient } from '@/lib/apiClient';
+
+type Step = 'loading' | 'setup' | 'login' | 'select-patient';
+
+const inputClassName =
+  'w-full bg-[#21272c] border border-[#2e373d] text-white placeholder-[#a2afb9] rounded-lg py-3 px-4 focus:ring-2 focus:ring-primary focus:border-transparent outline-none transition-all';
+
+export default function LoginPage() {
+  const [step, setStep] = useState<Step>('loading');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [displayName, setDisplayName] = useState('');
+  const [patients, setPatients] = useState<Patient[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const selectPatient = (patient: Patient) => {
+    setActivePatient(patient);
+    // Full reload so hooks and module-level caches start fresh for this patient
+    window.location.href = '/';
+  };
+
+  const loadPatients = useCallback(async (autoSelect: boolean) => {
+    const me = await fetchMe();
+    setPatients(me.patients);
+    const onlyPatient = me.patients[0];
+    if (autoSelect && me.patients.length === 1 && onlyPatient) {
+      selectPatient(onlyPatient);
+      return;
+    }
+    setStep('select-patient');
+  }, []);
+
+  // Already signed in: go straight to patient selection (e.g. switching patient)
+  useEffect(() => {
+    const init = async () => {
+      try {
+        if (getSession()) {
+          await loadPatients(false);
+          return;
+        }
+        const { setupRequired } = await fetchAuthStatus();
+        setStep(setupRequired ? 'setup' : 'login');
+      } catch (err) {
+        console.error('Error loading sign-in state:', err);
+        setError('Could not reach the server.');
+        setStep('login');
+      }
+    };
+    void init();
+  }, [loadPatients]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      if (step === 'setup') {
+        await register({ email, password, displayName });
+      } else {
+        await login(email, password);
+      }
+      await loadPatients(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Sign in failed');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    await logout();
+    setPatients([]);
+    setStep('login');
+  };
+
+  const activePatientId = getActivePatient()?.id;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background-dark px-6">
+      <div className="w-full max-w-md">
+        <div className="flex items-center gap-3 mb-10 justify-center">
+          <div className="size-10 rounded-xl bg-gradient-to-br from-primary to-[#2c4e68] flex items-center justify-center text-white shadow-lg shadow-primary/20">
+            <span className="material-symbols-outlined text-[24px]">visibility</span>
+          </div>
+          <div className="flex flex-col">
+            <h1 className="text-white text-lg font-bold leading-tight tracking-tight">CueLens</h1>
+            <p className="text-gray-400 text-xs font-medium">Caregiver sign in</p>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-900/20 border border-red-500/50 rounded-lg text-red-400 text-sm">
+            {error}
+          </div>
+        )}
+
+        {step === 'loading' && <p className="text-center text-[#a2afb9]">Loading...</p>}
+
+        {(step === 'setup' || step === 'login') && (
+          <form onSubmit={handleSubmit} className="space-y-5">
+            <div className="text-center mb-6">
+              <h2 className="text-2xl font-bold tracking-tight text-white mb-2">
+                {step === 'setup' ? 'Create the admin account' : 'Welcome back'}
+              </h2>
+              <p className="text-[#a2afb9]">
+                {step === 'setup'
+                  ? 'This account can add patients and other caregivers.'
+                  : 'Sign in to review suggestions for your patients.'}
+              </p>
+            </div>
+            {step === 'setup' && (
+              <div>
+                <label className="block text-sm font-semibold text-white mb-2">Your name</label>
+                <input
+                  type="text"
+                  value={displayName}
+                  onChange={(e) => setDisplayName(e.target.value)}
+                  required
+                  className={inputClassName}
+                />
+              </div>
+            )}
+            <div>
+              <label className="block text-sm font-semibold text-white mb-2">Email</label>
+              <input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                autoComplete="email"
+                required
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-white mb-2">Password</label>
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete={step === 'setup' ? 'new-password' : 'current-password'}
+                minLength={step === 'setup' ? 8 : undefined}
+                required
+                className={inputClassName}
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="w-full px-6 py-3 rounded-lg bg-primary hover:bg-[#5a8bb0] text-white font-bold transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSubmitting ? 'Please wait...' : step === 'setup' ? 'Create account' : 'Sign in'}
+            </button>
+          </form>
+        )}
+
+        {step === 'select-patient' && (
+          <div>
+            <div className="text-center mb-6">
+              <h2 className="text-2xl font-bold tracking-tight text-white mb-2">Choose a patient</h2>
+              <p className="text-[#a2afb9]">People, places and suggestions are kept separately for each patient.</p>
+            </div>
+            {patients.length === 0 ? (
+              <p className="text-center text-[#a2afb9]">
+                No patients are assigned to your account yet. Ask an admin to give you access.
+              </p>
+            ) : (
+              <div className="flex flex-col gap-3">
+                {patients.map((patient) => (
+                  <button
+                    key={patient.id}
+                    onClick={() => selectPatient(patient)}
+                    className={`flex items-center gap-4 px-4 py-3 rounded-xl border text-left transition-colors ${
+                      patient.id === activePatientId
+                        ? 'bg-primary/15 text-primary border-primary/10'
+                        : 'border-white/5 bg-white/5 text-white hover:bg-white/10'
+                    }`}
+                  >
+                    <span className="material-symbols-outlined">person</span>
+                    <span className="font-semibold text-sm">{patient.displayName}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+            <button
+              onClick={handleSignOut}
+              className="mt-8 w-full px-6 py-2.5 rounded-lg border border-[#2e373d] text-[#a2afb9] hover:text-white hover:bg-[#2e373d] font-medium transition-colors"
+            >
+              Sign out
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
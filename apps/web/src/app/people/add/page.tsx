@@ -4,10 +4,11 @@ import { useState, useRef, useEffect, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { usePeopleProfiles } from '@/hooks/usePeopleProfiles';
-import type { PersonPhoto } from '@/types/person';
+import type { PersonPhoto, PhotoAngle } from '@/types/person';
 
 type Step = 1 | 2 | 3;
-type PhotoAngle = 'front';
+
+const PHOTO_ANGLES: PhotoAngle[] = ['front', 'left', 'right'];
 
 export default function AddPersonPage() {
   const router = useRouter();
@@ -17,7 +18,8 @@ export default function AddPersonPage() {
   const [relationship, setRelationship] = useState('');
   const [note, setNote] = useState('');
   const [photos, setPhotos] = useState<{ [key in PhotoAngle]?: PersonPhoto }>({});
-  const [currentAngle] = useState<PhotoAngle>('front');
+  const [currentAngle, setCurrentAngle] = useState<PhotoAngle>('front');
+  const [primaryAngle, setPrimaryAngle] = useState<PhotoAngle>('front');
   const [stream, setStream] = useState<MediaStream | null>(null);
   const [error, setError] = useState<string | null>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
@@ -129,7 +131,15 @@ export default function AddPersonPage() {
       capturedAt: Date.now(),
     };
 
-    setPhotos((prev) => ({ ...prev, [currentAngle]: photo }));
+    storePhoto(photo);
+  };
+
+  // Fill the active slot, then move on to the next empty one
+  const storePhoto = (photo: PersonPhoto) => {
+    const updated = { ...photos, [photo.angle]: photo };
+    setPhotos(updated);
+    const nextAngle = PHOTO_ANGLES.find((angle) => !updated[angle]);
+    if (nextAngle) setCurrentAngle(nextAngle);
   };
 
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -151,7 +161,7 @@ export default function AddPersonPage() {
         capturedAt: Date.now(),
       };
 
-      setPhotos((prev) => ({ ...prev, [currentAngle]: photo }));
+      storePhoto(photo);
       setError(null);
     };
     reader.readAsDataURL(file);
@@ -162,12 +172,13 @@ export default function AddPersonPage() {
     }
   };
 
-  const retakePhoto = () => {
+  const retakePhoto = (angle: PhotoAngle) => {
     setPhotos((prev) => {
       const updated = { ...prev };
-      delete updated.front;
+      delete updated[angle];
       return updated;
     });
+    setCurrentAngle(angle);
   };
 
   const handleNext = () => {
@@ -185,10 +196,23 @@ export default function AddPersonPage() {
     }
   };
 
-  const handleSave = () => {
-    const photoArray = Object.values(photos).filter((p): p is PersonPhoto => p !== undefined);
-    addPerson(name.trim(), relationship.trim() || undefined, note.trim() || undefined, photoArray);
-    router.push('/people');
+  const handleSave = async () => {
+    try {
+      // The primary photo goes first
+      const orderedPhotos = [...capturedPhotos].sort(
+        (a, b) => Number(b.angle === effectivePrimaryAngle) - Number(a.angle === effectivePrimaryAngle)
+      );
+      await addPerson({
+        displayName: name.trim(),
+        relationship: relationship.trim() || undefined,
+        notes: note.trim() || undefined,
+        photoDataUrls: orderedPhotos.map((photo) => photo.dataUrl),
+      });
+      router.push('/people');
+    } catch (err) {
+      console.error('Error saving person:', err);
+      setError('Could not save this person. Please check the connection and try again.');
+    }
   };
 
   const getStepProgress = () => {
@@ -198,7 +222,10 @@ export default function AddPersonPage() {
   };
 
   const progress = getStepProgress();
-  const capturedCount = Object.keys(photos).length;
+  const capturedPhotos = PHOTO_ANGLES.flatMap((angle) => photos[angle] ?? []);
+  const capturedCount = capturedPhotos.length;
+  // Falls back to the first captured photo when the chosen primary slot is empty
+  const effectivePrimaryAngle = photos[primaryAngle] ? primaryAngle : capturedPhotos[0]?.angle;
 
   return (
     <div className="bg-background-light dark:bg-background-dark font-display antialiased text-slate-900 dark:text-white min-h-screen flex flex-col">
@@ -475,19 +502,24 @@ export default function AddPersonPage() {
                 <div className="lg:col-span-5 flex flex-col h-full">
                   <div className="sticky top-24 space-y-4">
                     <div className="flex items-center justify-between mb-2">
-                      <h3 className="text-lg font-bold text-white">Photo</h3>
+                      <h3 className="text-lg font-bold text-white">Photos</h3>
                       <span className="text-xs font-semibold bg-[#2e373d] text-[#a2afb9] px-2 py-1 rounded">
-                        {capturedCount === 1 ? 'Added' : 'Optional'}
+                        {capturedCount > 0 ? `${capturedCount} of ${PHOTO_ANGLES.length} added` : 'Optional'}
                       </span>
                     </div>
 
-                    {/* Front View Slot */}
-                    <PhotoSlot
-                      angle="front"
-                      photo={photos.front}
-                      isActive={true}
-                      onRetake={retakePhoto}
-                    />
+                    {PHOTO_ANGLES.map((angle) => (
+                      <PhotoSlot
+                        key={angle}
+                        angle={angle}
+                        photo={photos[angle]}
+                        isActive={currentAngle === angle}
+                        isPrimary={effectivePrimaryAngle === angle}
+                        onSelect={() => setCurrentAngle(angle)}
+                        onRetake={() => retakePhoto(angle)}
+                        onMakePrimary={() => setPrimaryAngle(angle)}
+                      />
+                    ))}
 
                     {/* Actions Footer */}
                     <div className="pt-6 mt-6 border-t border-[#2e373d] space-y-3">
@@ -569,16 +601,21 @@ export default function AddPersonPage() {
                       <p>No photo added. You can add a photo later from the people page.</p>
                     </div>
                   ) : (
-                    <div className="max-w-md mx-auto">
-                      {photos.front && (
-                        <div className="relative">
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                      {capturedPhotos.map((photo) => (
+                        <div key={photo.id} className="relative">
                           <div
-                            className="aspect-[4/3] rounded-lg bg-cover bg-center border-2 border-primary"
-                            style={{ backgroundImage: `url(${photos.front.dataUrl})` }}
+                            className={`aspect-[4/3] rounded-lg bg-cover bg-center border-2 ${
+                              photo.angle === effectivePrimaryAngle ? 'border-primary' : 'border-[#2e373d]'
+                            }`}
+                            style={{ backgroundImage: `url(${photo.dataUrl})` }}
                           ></div>
-                          <p className="text-xs text-[#a2afb9] mt-2 text-center">Photo</p>
+                          <p className="text-xs text-[#a2afb9] mt-2 text-center">
+                            {ANGLE_LABELS[photo.angle]}
+                            {photo.angle === effectivePrimaryAngle && ' · Primary'}
+                          </p>
                         </div>
-                      )}
+                      ))}
                     </div>
                   )}
                 </div>
@@ -607,20 +644,29 @@ export default function AddPersonPage() {
   );
 }
 
+const ANGLE_LABELS: { [key in PhotoAngle]: string } = {
+  front: 'Front',
+  left: 'Left Profile',
+  right: 'Right Profile',
+};
+
 function PhotoSlot({
   angle,
   photo,
   isActive,
+  isPrimary,
+  onSelect,
   onRetake,
+  onMakePrimary,
 }: {
   angle: PhotoAngle;
   photo?: PersonPhoto;
   isActive: boolean;
+  isPrimary: boolean;
+  onSelect: () => void;
   onRetake: () => void;
+  onMakePrimary: () => void;
 }) {
-  const angleLabels: { [key in PhotoAngle]: string } = {
-    front: 'Photo',
-  };
 
   if (photo) {
     return (
@@ -637,13 +683,27 @@ function PhotoSlot({
           </div>
           <div className="flex-1">
             <h4 className="text-white font-semibold flex items-center gap-2">
-              {angleLabels[angle]}
+              {ANGLE_LABELS[angle]}
               <span className="text-[10px] uppercase tracking-wider text-green-500 bg-green-500/10 px-1.5 py-0.5 rounded font-bold">
                 Ready
               </span>
+              {isPrimary && (
+                <span className="text-[10px] uppercase tracking-wider text-primary bg-primary/10 px-1.5 py-0.5 rounded font-bold">
+                  Primary
+                </span>
+              )}
             </h4>
             <p className="text-sm text-[#a2afb9] mt-0.5">Photo captured successfully.</p>
           </div>
+          {!isPrimary && (
+            <button
+              onClick={onMakePrimary}
+              className="p-2 rounded-lg hover:bg-[#2e373d] text-[#a2afb9] hover:text-white transition-colors"
+              title="Make primary photo"
+            >
+              <span className="material-symbols-outlined">star</span>
+            </button>
+          )}
           <button
             onClick={onRetake}
             className="p-2 rounded-lg hover:bg-[#2e373d] text-[#a2afb9] hover:text-white transition-colors"
@@ -657,7 +717,10 @@ function PhotoSlot({
   }
 
   return (
-    <div className={`relative group ${isActive ? 'ring-2 ring-primary ring-offset-2 ring-offset-[#272a30] rounded-xl' : 'opacity-60 hover:opacity-100 transition-opacity'}`}>
+    <div
+      onClick={onSelect}
+      className={`relative group cursor-pointer ${isActive ? 'ring-2 ring-primary ring-offset-2 ring-offset-[#272a30] rounded-xl' : 'opacity-60 hover:opacity-100 transition-opacity'}`}
+    >
       {isActive && (
         <div className="absolute -left-4 top-1/2 -translate-y-1/2 w-1.5 h-16 bg-primary rounded-r shadow-[0_0_10px_rgba(73,120,156,0.6)]"></div>
       )}
@@ -667,7 +730,7 @@ function PhotoSlot({
         </div>
         <div className="flex-1">
           <h4 className={`font-bold flex items-center gap-2 ${isActive ? 'text-white text-primary' : 'text-[#a2afb9]'}`}>
-            {angleLabels[angle]}
+            {ANGLE_LABELS[angle]}
             {isActive && (
               <span className="relative flex h-2 w-2">
                 <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-primary opacity-75"></span>
@@ -676,7 +739,7 @@ function PhotoSlot({
             )}
           </h4>
           <p className={`text-sm mt-0.5 ${isActive ? 'text-white' : 'text-[#a2afb9]/60'}`}>
-            {isActive ? 'Waiting for capture...' : 'Upload or capture a photo.'}
+            {isActive ? 'Waiting for capture...' : 'Click to capture this angle.'}
           </p>
         </div>
         {isActive && (
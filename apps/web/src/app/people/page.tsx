@@ -2,18 +2,24 @@
 
 import { useState } from 'react';
 import Sidebar from '../components/Sidebar';
+import DuplicatePeoplePanel from '../components/DuplicatePeoplePanel';
 import Link from 'next/link';
 import { usePeopleProfiles } from '@/hooks/usePeopleProfiles';
 
 export default function PeoplePage() {
-  const { people, removePerson } = usePeopleProfiles();
+  const { people, error, removePerson, mergePerson, getPhotoUrl } = usePeopleProfiles();
   const [showDeleteMenu, setShowDeleteMenu] = useState<string | null>(null);
 
-  const totalPhotos = people.reduce((sum, person) => sum + person.photos.length, 0);
+  const totalPhotos = people.reduce((count, person) => count + person.photoAssetIds.length, 0);
 
-  const handleDelete = (id: string, name: string) => {
+  const handleDelete = async (id: string, name: string) => {
     if (confirm(`Are you sure you want to delete "${name}"?`)) {
-      removePerson(id);
+      try {
+        await removePerson(id);
+      } catch (err) {
+        console.error('Error deleting person:', err);
+        alert(`Could not delete "${name}". Please try again when the server is reachable.`);
+      }
       setShowDeleteMenu(null);
     }
   };
@@ -49,6 +55,14 @@ export default function PeoplePage() {
                 </Link>
               </header>
 
+              {error && (
+                <div className="relative z-20 px-4 py-3 rounded-xl bg-yellow-500/10 border border-yellow-500/20 text-sm text-yellow-400">
+                  {error}
+                </div>
+              )}
+
+              <DuplicatePeoplePanel people={people} onMerge={mergePerson} />
+
               {/* Stats / Filters (Optional Context Bar) */}
               <div className="flex items-center gap-4 text-sm font-medium text-text-muted">
                 <div className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-white/5 border border-white/5">
@@ -83,7 +97,7 @@ export default function PeoplePage() {
                 ) : (
                   <>
                     {people.map((person) => {
-                      const primaryPhoto = person.photos.find((p) => p.angle === 'front') || person.photos[0];
+                      const photoUrl = getPhotoUrl(person);
                       return (
                         <div
                           key={person.id}
@@ -105,7 +119,7 @@ export default function PeoplePage() {
                                   <button
                                     onClick={(e) => {
                                       e.stopPropagation();
-                                      handleDelete(person.id, person.name);
+                                      void handleDelete(person.id, person.displayName);
                                     }}
                                     className="w-full text-left px-4 py-2 text-sm text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors flex items-center gap-2"
                                   >
@@ -117,11 +131,11 @@ export default function PeoplePage() {
                             </div>
                           </div>
                           <div className="aspect-[4/3] w-full overflow-hidden">
-                            {primaryPhoto ? (
+                            {photoUrl ? (
                               <div
                                 className="w-full h-full bg-cover bg-center transition-transform duration-700 group-hover:scale-105"
                                 style={{
-                                  backgroundImage: `url(${primaryPhoto.dataUrl})`,
+                                  backgroundImage: `url(${photoUrl})`,
                                 }}
                               ></div>
                             ) : (
@@ -133,17 +147,19 @@ export default function PeoplePage() {
                           <div className="flex flex-col p-5 gap-1">
                             <div className="flex justify-between items-start">
                               <h3 className="text-xl font-bold text-white group-hover:text-primary transition-colors">
-                                {person.name}
+                                {person.displayName}
                               </h3>
-                              <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-md bg-white/5 text-[10px] font-bold uppercase tracking-wider text-text-muted border border-white/5 group-hover:border-primary/30 transition-colors">
-                                {person.photos.length} {person.photos.length === 1 ? 'Photo' : 'Photos'}
-                              </span>
+                              {person.remindersEnabled && (
+                                <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-md bg-white/5 text-[10px] font-bold uppercase tracking-wider text-text-muted border border-white/5 group-hover:border-primary/30 transition-colors">
+                                  Reminders
+                                </span>
+                              )}
                             </div>
                             {person.relationship && (
                               <p className="text-primary font-medium text-sm">{person.relationship}</p>
                             )}
                             <div className="mt-4 pt-4 border-t border-white/5 flex items-center gap-2 text-xs text-text-muted">
-                              {person.recognitionActive ? (
+                              {person.photoAssetId ? (
                                 <>
                                   <span className="material-symbols-outlined text-[16px] text-green-400">check_circle</span>
                                   <span>Recognition Active</span>
@@ -151,7 +167,7 @@ export default function PeoplePage() {
                               ) : (
                                 <>
                                   <span className="material-symbols-outlined text-[16px] text-yellow-500">warning</span>
-                                  <span>Needs more photos</span>
+                                  <span>Needs a photo</span>
                                 </>
                               )}
                             </div>
@@ -57,10 +57,10 @@ export default function PlacesPage() {
     URL.revokeObjectURL(url);
   };
 
-  const handleImport = () => {
+  const handleImport = async () => {
     try {
       setImportError(null);
-      importProfiles(importText);
+      await importProfiles(importText);
       setShowImportDialog(false);
       setImportText('');
     } catch (error) {
@@ -490,7 +490,7 @@ export default function PlacesPage() {
                 Cancel
               </button>
               <button
-                onClick={handleImport}
+                onClick={() => void handleImport()}
                 className="px-6 py-3 rounded-lg bg-primary hover:bg-primary/90 text-white font-bold transition-all"
               >
                 Import
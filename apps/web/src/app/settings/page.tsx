@@ -0,0 +1,181 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { PatientSettings, PatientSettingsUpdate } from '@cuelens/shared';
+import Sidebar from '../components/Sidebar';
+import { fetchSettings, updateSettings } from '@/lib/settingsApi';
+
+type SettingKey = keyof PatientSettingsUpdate;
+
+interface SettingField {
+  key: SettingKey;
+  label: string;
+  hint: string;
+  unit?: string;
+  step: number;
+}
+
+const SUGGESTION_FIELDS: SettingField[] = [
+  {
+    key: 'suggestionCooldownSeconds',
+    label: 'Suggestion cooldown',
+    hint: 'The same name or relationship is not suggested again within this time.',
+    unit: 'seconds',
+    step: 1,
+  },
+  {
+    key: 'repeatWindowSeconds',
+    label: 'Repeat window',
+    hint: 'Hearing the same words again within this time raises confidence.',
+    unit: 'seconds',
+    step: 1,
+  },
+  {
+    key: 'minConfidence',
+    label: 'Minimum confidence',
+    hint: 'Lowest confidence given to a suggestion (0-1).',
+    step: 0.01,
+  },
+  {
+    key: 'maxConfidence',
+    label: 'Maximum confidence',
+    hint: 'Highest confidence given to a suggestion (0-1).',
+    step: 0.01,
+  },
+];
+
+const ROOM_FIELDS: SettingField[] = [
+  {
+    key: 'placeMatchThreshold',
+    label: 'Room match threshold',
+    hint: 'How closely the camera view must match a saved room (0-1).',
+    step: 0.05,
+  },
+  {
+    key: 'placeConsecutiveMatches',
+    label: 'Matches in a row',
+    hint: 'Consecutive matches needed before a room is announced.',
+    step: 1,
+  },
+  {
+    key: 'placeReminderCooldownSeconds',
+    label: 'Room reminder cooldown',
+    hint: 'Quiet period after a room is announced.',
+    unit: 'seconds',
+    step: 1,
+  },
+  {
+    key: 'placeSuggestionDelaySeconds',
+    label: 'Suggest unknown rooms after',
+    hint: 'An unrecognized room seen this long is suggested as a new place (0 = never).',
+    unit: 'seconds',
+    step: 1,
+  },
+];
+
+export default function SettingsPage() {
+  const [settings, setSettings] = useState<PatientSettings | null>(null);
+  const [draft, setDraft] = useState<Partial<Record<SettingKey, string>>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [savedAt, setSavedAt] = useState<number | null>(null);
+
+  useEffect(() => {
+    fetchSettings()
+      .then(setSettings)
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load settings'));
+  }, []);
+
+  const changes: PatientSettingsUpdate = {};
+  for (const [key, value] of Object.entries(draft) as Array<[SettingKey, string]>) {
+    const parsed = Number(value);
+    if (value.trim() !== '' && Number.isFinite(parsed) && settings && parsed !== settings[key]) {
+      changes[key] = parsed;
+    }
+  }
+  const hasChanges = Object.keys(changes).length > 0;
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      setSettings(await updateSettings(changes));
+      setDraft({});
+      setSavedAt(Date.now());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderField = (field: SettingField) => (
+    <label key={field.key} className="flex flex-col gap-1.5">
+      <span className="text-white text-sm font-medium">{field.label}</span>
+      <div className="flex items-center gap-3">
+        <input
+          type="number"
+          step={field.step}
+          min={0}
+          value={draft[field.key] ?? String(settings?.[field.key] ?? '')}
+          onChange={(e) => setDraft((prev) => ({ ...prev, [field.key]: e.target.value }))}
+          disabled={!settings}
+          className="w-40 bg-[#21272c] border border-[#2e373d] text-white placeholder-[#a2afb9] rounded-lg py-2.5 px-4 focus:ring-2 focus:ring-primary focus:border-transparent outline-none transition-all"
+        />
+        {field.unit && <span className="text-[#a2afb9] text-sm">{field.unit}</span>}
+      </div>
+      <span className="text-[#a2afb9] text-xs">{field.hint}</span>
+    </label>
+  );
+
+  return (
+    <div className="bg-background-light dark:bg-background-dark text-slate-900 dark:text-white font-display h-screen flex overflow-hidden selection:bg-primary selection:text-white">
+      <Sidebar activePage="settings" />
+
+      <main className="flex-1 flex flex-col h-full relative overflow-hidden">
+        <div className="flex-1 overflow-y-auto p-6 md:p-10 pb-20 scroll-smooth">
+          <div className="max-w-3xl mx-auto flex flex-col gap-8">
+            <div>
+              <h2 className="text-4xl font-extrabold tracking-tight text-slate-900 dark:text-white">Settings</h2>
+              <p className="text-slate-500 dark:text-slate-400 mt-2 text-lg">
+                Tune how eagerly suggestions are made and rooms are recognized for this patient.
+              </p>
+            </div>
+
+            {error && (
+              <div className="rounded-xl bg-red-500/10 border border-red-500/30 p-4 text-red-400 text-sm">{error}</div>
+            )}
+
+            <section className="rounded-xl bg-[#1e2124] border border-[#2e373d] p-6 flex flex-col gap-5">
+              <h3 className="text-white text-lg font-bold">Suggestions from conversation</h3>
+              {SUGGESTION_FIELDS.map(renderField)}
+            </section>
+
+            <section className="rounded-xl bg-[#1e2124] border border-[#2e373d] p-6 flex flex-col gap-5">
+              <h3 className="text-white text-lg font-bold">Room recognition</h3>
+              {ROOM_FIELDS.map(renderField)}
+            </section>
+
+            <div className="flex items-center justify-end gap-4">
+              {savedAt && !hasChanges && <span className="text-emerald-400 text-sm">Saved</span>}
+              <button
+                onClick={() => setDraft({})}
+                disabled={!hasChanges || isSaving}
+                className="px-6 py-2.5 rounded-lg border border-[#2e373d] text-[#a2afb9] hover:text-white hover:bg-[#2e373d] font-medium transition-colors disabled:opacity-50"
+              >
+                Reset
+              </button>
+              <button
+                onClick={() => void handleSave()}
+                disabled={!hasChanges || isSaving}
+                className="px-6 py-2.5 rounded-lg bg-primary hover:bg-[#5a8bb0] text-white font-bold transition-all disabled:opacity-50"
+              >
+                {isSaving ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
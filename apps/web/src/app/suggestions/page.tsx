@@ -1,85 +1,274 @@
 "use client";
 
-import { useState, useEffect } from "react";
-import type { Suggestion } from "@cuelens/shared";
+import { useState, useEffect, useMemo, useRef } from "react";
+import type { Person, Suggestion, SuggestionApprove, SuggestionListQuery, SuggestionType } from "@cuelens/shared";
+import { SuggestionApproveSchema } from "@cuelens/shared";
 import Sidebar from "../components/Sidebar";
-import { usePeopleProfiles } from "@/hooks/usePeopleProfiles";
+import AuditHistoryPanel from "../components/AuditHistoryPanel";
+import { useSuggestionsStream } from "@/hooks/useSuggestionsStream";
+import { apiFetch } from "@/lib/apiClient";
+import { suggestionsClient } from "@/lib/suggestionsApi";
+import { fetchPeople } from "@/lib/peopleApi";
+
+// How long the Undo action stays available after approving/rejecting
+const UNDO_GRACE_MS = 30 * 1000;
+
+const PAST_PAGE_SIZE = 20;
+const SEARCH_DEBOUNCE_MS = 300;
+const BULK_LIMIT = 200; // most ids POST /suggestions/bulk accepts at once
+
+const TYPE_FILTERS: Array<{ value: SuggestionType | ""; label: string }> = [
+  { value: "", label: "All types" },
+  { value: "identify_person", label: "People" },
+  { value: "identify_place", label: "Places" },
+  { value: "relationship_suggestion", label: "Relationships" },
+];
+
+function autoDecisionLabel(decision: NonNullable<Suggestion["autoDecision"]>): string {
+  if (decision.action === "hold") return `Held for review by rule "${decision.ruleName}"`;
+  const verb = decision.action === "approve" ? "Auto-approved" : "Auto-rejected";
+  return `${verb} by rule "${decision.ruleName}"`;
+}
 
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || "http://localhost:3001";
+interface UndoState {
+  suggestion: Suggestion;
+  action: "approved" | "rejected";
+}
 
 interface ApproveModalState {
   suggestion: Suggestion | null;
   displayName: string;
+  relationship: string;
+  notes: string;
+  personId: string; // "" creates (or matches by name) a person
+  person: Person | null; // the existing person picked as personId, as loaded into the form
+  photo: NonNullable<SuggestionApprove["photo"]>;
   remindersEnabled: boolean;
 }
 
+/**
+ * Name the approval form starts with when no existing person is picked
+ */
+function proposedName(suggestion: Suggestion): string {
+  return suggestion.proposed.displayName || suggestion.proposed.relationship || "";
+}
+
+/**
+ * Edits to send with the approval; fields left as proposed (or as the picked person has them) are omitted
+ */
+function approvalEdits(modal: ApproveModalState): SuggestionApprove {
+  const edits: SuggestionApprove = {
+    displayName: modal.displayName.trim() || undefined,
+    notes: modal.notes.trim() || undefined,
+    photo: modal.suggestion?.evidence.frameAssetId ? modal.photo : undefined,
+  };
+  if (modal.suggestion?.type === "identify_place") return edits;
+
+  const relationship = modal.relationship.trim();
+  const { person } = modal;
+  return {
+    ...edits,
+    displayName: person && edits.displayName === person.displayName ? undefined : edits.displayName,
+    relationship: relationship !== (modal.suggestion?.proposed.relationship ?? "") ? relationship : undefined,
+    personId: modal.personId || undefined,
+    remindersEnabled:
+      person && modal.remindersEnabled === person.remindersEnabled ? undefined : modal.remindersEnabled,
+  };
+}
+
+/**
+ * Why the approval can't be sent as entered, if it can't
+ */
+function approvalError(modal: ApproveModalState): string | null {
+  if (modal.suggestion?.type === "identify_person" && !modal.personId && !modal.displayName.trim()) {
+    return "Enter a name or choose an existing person";
+  }
+  const validation = SuggestionApproveSchema.safeParse(approvalEdits(modal));
+  if (!validation.success) {
+    const issue = validation.error.errors[0];
+    return issue ? `${issue.path.join(".")}: ${issue.message}` : "Invalid approval";
+  }
+  return null;
+}
+
 export default function CaregiverPage() {
-  const [pendingSuggestions, setPendingSuggestions] = useState<Suggestion[]>([]);
-  const [pastSuggestions, setPastSuggestions] = useState<Suggestion[]>([]);
   const [isPastSuggestionsOpen, setIsPastSuggestionsOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [approveModal, setApproveModal] = useState<ApproveModalState | null>(null);
+  const [people, setPeople] = useState<Person[]>([]);
   const [frameImages, setFrameImages] = useState<Map<string, string>>(new Map());
-  const { addPerson } = usePeopleProfiles();
-
-  // Fetch suggestions
-  const fetchSuggestions = async () => {
-    try {
-      setIsLoading(true);
-      setError(null);
+  // Object URLs behind frameImages, kept in a ref so they can be revoked when replaced or on unmount
+  const frameImagesRef = useRef<Map<string, string>>(new Map());
+  const [undo, setUndo] = useState<UndoState | null>(null);
+  const undoTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [pastSuggestions, setPastSuggestions] = useState<Suggestion[]>([]);
+  const [pastCursor, setPastCursor] = useState<string | undefined>(undefined);
+  const [isPastLoading, setIsPastLoading] = useState(false);
+  const [pastSearch, setPastSearch] = useState("");
+  const [appliedSearch, setAppliedSearch] = useState("");
+  const [pastType, setPastType] = useState<SuggestionType | "">("");
+  const pastIdsRef = useRef<Set<string>>(new Set());
+  // Decided suggestions the past list has already been refreshed for
+  const refreshedIdsRef = useRef<Set<string>>(new Set());
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [focusedId, setFocusedId] = useState<string | null>(null);
+
+  // Live suggestions pushed from the API (replaces polling)
+  const { suggestions, error: streamError, upsertSuggestion } = useSuggestionsStream();
+
+  const pendingSuggestions = useMemo(
+    () =>
+      Array.from(suggestions.values())
+        .filter((s) => s.status === "pending")
+        .sort((a, b) => a.createdAt - b.createdAt),
+    [suggestions]
+  );
+  // Selection only ever covers suggestions that are still pending
+  const selectedPending = useMemo(
+    () => pendingSuggestions.filter((s) => selectedIds.has(s.id)),
+    [pendingSuggestions, selectedIds]
+  );
 
-      const [pendingRes, approvedRes, rejectedRes] = await Promise.all([
-        fetch(`${API_BASE_URL}/suggestions?status=pending`),
-        fetch(`${API_BASE_URL}/suggestions?status=approved`),
-        fetch(`${API_BASE_URL}/suggestions?status=rejected`),
-      ]);
+  // Selection is capped at what one bulk request accepts; select all takes the oldest ones
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else if (next.size < BULK_LIMIT) next.add(id);
+      return next;
+    });
+  };
+  const selectAll = () => setSelectedIds(new Set(pendingSuggestions.slice(0, BULK_LIMIT).map((s) => s.id)));
+
+  // Approved, rejected and expired suggestions are searched and paged on the API
+  const pastFilters = useMemo<SuggestionListQuery>(
+    () => ({
+      status: ["approved", "rejected", "expired"],
+      sort: "updatedAt",
+      q: appliedSearch.trim() || undefined,
+      type: pastType || undefined,
+    }),
+    [appliedSearch, pastType]
+  );
 
-      if (!pendingRes.ok || !approvedRes.ok || !rejectedRes.ok) {
-        throw new Error("Failed to fetch suggestions");
-      }
+  useEffect(() => {
+    const timer = setTimeout(() => setAppliedSearch(pastSearch), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [pastSearch]);
 
-      const pending = await pendingRes.json();
-      const approved = await approvedRes.json();
-      const rejected = await rejectedRes.json();
+  useEffect(() => {
+    pastIdsRef.current = new Set(pastSuggestions.map((s) => s.id));
+  }, [pastSuggestions]);
 
-      setPendingSuggestions(pending);
-      // Combine approved and rejected into past suggestions
-      setPastSuggestions([...approved, ...rejected].sort((a, b) => b.updatedAt - a.updatedAt));
+  // Load the first page when the list is opened or the filters change
+  useEffect(() => {
+    if (!isPastSuggestionsOpen) return;
+    let cancelled = false;
+    setIsPastLoading(true);
+    suggestionsClient
+      .list({ ...pastFilters, limit: PAST_PAGE_SIZE })
+      .then((page) => {
+        if (cancelled) return;
+        setPastSuggestions(page.items);
+        setPastCursor(page.nextCursor);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : "Failed to load past suggestions");
+        console.error("Error fetching past suggestions:", err);
+      })
+      .finally(() => {
+        if (!cancelled) setIsPastLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isPastSuggestionsOpen, pastFilters]);
+
+  // Keep shown items in step with live changes. A suggestion newly decided may belong on top, so
+  // the first page is fetched again and merged in front of what is already loaded (the cursor
+  // still points past the last loaded item).
+  useEffect(() => {
+    if (!isPastSuggestionsOpen) return;
+    setPastSuggestions((prev) =>
+      prev
+        .filter((s) => suggestions.get(s.id)?.status !== "pending")
+        .map((s) => suggestions.get(s.id) ?? s)
+    );
+    const newlyDecided = Array.from(suggestions.values()).filter(
+      (s) => s.status !== "pending" && !pastIdsRef.current.has(s.id) && !refreshedIdsRef.current.has(s.id)
+    );
+    if (newlyDecided.length === 0) return;
+    newlyDecided.forEach((s) => refreshedIdsRef.current.add(s.id));
+    let cancelled = false;
+    suggestionsClient
+      .list({ ...pastFilters, limit: PAST_PAGE_SIZE })
+      .then((page) => {
+        if (cancelled) return;
+        setPastSuggestions((prev) => {
+          const firstIds = new Set(page.items.map((s) => s.id));
+          return [...page.items, ...prev.filter((s) => !firstIds.has(s.id))];
+        });
+      })
+      .catch((err) => console.error("Error refreshing past suggestions:", err));
+    return () => {
+      cancelled = true;
+    };
+    // Only live changes trigger this; filter changes reload the list above
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [suggestions]);
+
+  const handleLoadMorePast = async () => {
+    if (!pastCursor) return;
+    try {
+      setIsPastLoading(true);
+      const page = await suggestionsClient.list({ ...pastFilters, limit: PAST_PAGE_SIZE, cursor: pastCursor });
+      setPastSuggestions((prev) => [...prev, ...page.items]);
+      setPastCursor(page.nextCursor);
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to load suggestions");
-      console.error("Error fetching suggestions:", err);
+      setError(err instanceof Error ? err.message : "Failed to load past suggestions");
+      console.error("Error fetching past suggestions:", err);
     } finally {
-      setIsLoading(false);
+      setIsPastLoading(false);
     }
   };
 
+  // Offer Undo for the latest decision until the grace period runs out
+  const offerUndo = (suggestion: Suggestion, action: UndoState["action"]) => {
+    if (undoTimerRef.current) clearTimeout(undoTimerRef.current);
+    setUndo({ suggestion, action });
+    undoTimerRef.current = setTimeout(() => setUndo(null), UNDO_GRACE_MS);
+  };
+
+  useEffect(() => {
+    const frameUrls = frameImagesRef;
+    return () => {
+      if (undoTimerRef.current) clearTimeout(undoTimerRef.current);
+      frameUrls.current.forEach((url) => URL.revokeObjectURL(url));
+    };
+  }, []);
+
   // Fetch frame images for suggestions that have frameAssetId
   const fetchFrameImage = async (frameAssetId: string) => {
-    if (frameImages.has(frameAssetId)) return;
+    if (frameImagesRef.current.has(frameAssetId)) return;
     
     try {
-      const response = await fetch(`${API_BASE_URL}/frames/${frameAssetId}`);
+      // Frames are served as image bytes; old frames may have been pruned (404)
+      const response = await apiFetch(`/frames/${frameAssetId}`);
       if (response.ok) {
-        const data = await response.json();
-        setFrameImages((prev) => new Map(prev).set(frameAssetId, data.image));
+        const imageUrl = URL.createObjectURL(await response.blob());
+        // A second fetch of the same frame may have finished first
+        const replaced = frameImagesRef.current.get(frameAssetId);
+        if (replaced) URL.revokeObjectURL(replaced);
+        frameImagesRef.current = new Map(frameImagesRef.current).set(frameAssetId, imageUrl);
+        setFrameImages(frameImagesRef.current);
       }
     } catch (err) {
       console.error("Error fetching frame image:", err);
     }
   };
 
-  useEffect(() => {
-    fetchSuggestions();
-    
-    // Auto-refresh suggestions every 3 seconds to show new ones from automatic transcription
-    const interval = setInterval(() => {
-      fetchSuggestions();
-    }, 3000);
-    
-    return () => clearInterval(interval);
-  }, []);
-
   // Fetch frame images when suggestions change
   useEffect(() => {
     const allSuggestions = [...pendingSuggestions, ...pastSuggestions];
@@ -90,106 +279,53 @@ export default function CaregiverPage() {
     });
   }, [pendingSuggestions, pastSuggestions]);
 
-  // Handle approve click - open modal for identify_person and relationship_suggestion
+  // Handle approve click - open modal for suggestions that create a person or place
   const handleApproveClick = (suggestion: Suggestion) => {
-    if (suggestion.type === "identify_person" || suggestion.type === "relationship_suggestion") {
+    if (suggestion.type === "identify_place") {
       setApproveModal({
         suggestion,
-        displayName: suggestion.proposed.displayName || suggestion.proposed.relationship || "",
+        displayName: suggestion.proposed.displayName ?? "",
+        relationship: "",
+        notes: "",
+        personId: "",
+        person: null,
+        photo: "add",
         remindersEnabled: false,
       });
+    } else if (suggestion.type === "identify_person" || suggestion.type === "relationship_suggestion") {
+      setApproveModal({
+        suggestion,
+        displayName: proposedName(suggestion),
+        relationship: suggestion.proposed.relationship ?? "",
+        notes: "",
+        // A possible duplicate still defaults to a new person; the caregiver can pick the match
+        personId: "",
+        person: null,
+        photo: "add",
+        remindersEnabled: false,
+      });
+      // Offered as people to attach the suggestion to instead of creating one
+      fetchPeople()
+        .then(setPeople)
+        .catch((err) => console.error("Error fetching people:", err));
     } else {
       handleApprove(suggestion.id);
     }
   };
 
   // Handle approve - either from modal or direct
-  const handleApprove = async (id: string, options?: { displayName?: string; remindersEnabled?: boolean }) => {
+  const handleApprove = async (id: string, edits?: SuggestionApprove) => {
     try {
       setIsLoading(true);
       setError(null);
       setApproveModal(null);
 
-      const response = await fetch(`${API_BASE_URL}/suggestions/${id}/approve`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          displayName: options?.displayName,
-          remindersEnabled: options?.remindersEnabled,
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error("Failed to approve suggestion");
-      }
-
-      const approvedSuggestion = await response.json();
-
-      // After successful approval, add person to local store if it was created
-      // This syncs with the API store (which uses in-memory Map)
-      // The API creates the person server-side, but the UI reads from localStorage
-      if (approvedSuggestion.type === "identify_person" || approvedSuggestion.type === "relationship_suggestion") {
-        const personName = options?.displayName || approvedSuggestion.proposed.displayName || approvedSuggestion.proposed.relationship || "";
-        if (personName && personName.trim()) {
-          try {
-            // Fetch frame image if available and convert to PersonPhoto
-            const photos: import("@/types/person").PersonPhoto[] = [];
-            
-            if (approvedSuggestion.evidence.frameAssetId) {
-              try {
-                // Check if we already have the frame in cache
-                let frameDataUrl: string | undefined = frameImages.get(approvedSuggestion.evidence.frameAssetId);
-                
-                // If not in cache, fetch it from API
-                if (!frameDataUrl) {
-                  const frameResponse = await fetch(`${API_BASE_URL}/frames/${approvedSuggestion.evidence.frameAssetId}`);
-                  if (frameResponse.ok) {
-                    const frameData = await frameResponse.json();
-                    frameDataUrl = frameData.image; // Base64 image from API
-                    // Also cache it for future use
-                    setFrameImages((prev) => new Map(prev).set(approvedSuggestion.evidence.frameAssetId!, frameDataUrl!));
-                  }
-                }
-                
-                // Convert frame to PersonPhoto format
-                if (frameDataUrl) {
-                  photos.push({
-                    id: crypto.randomUUID(),
-                    dataUrl: frameDataUrl,
-                    angle: 'front',
-                    capturedAt: Date.now(),
-                  });
-                  console.log(`[suggestions] ✅ Added photo from frame for person:`, personName);
-                }
-              } catch (photoError) {
-                console.error("[suggestions] ⚠️ Error fetching frame photo:", photoError);
-                // Continue without photo if fetch fails
-              }
-            }
-            
-            // Add to local store so it appears in the people page
-            addPerson(
-              personName.trim(),
-              approvedSuggestion.proposed.relationship,
-              `Added via suggestion approval from transcript: "${approvedSuggestion.evidence.transcriptSnippet || ''}"`,
-              photos // Include the captured photo if available
-            );
-            console.log(`[suggestions] ✅ Added person to local store:`, {
-              name: personName,
-              relationship: approvedSuggestion.proposed.relationship,
-              photoCount: photos.length,
-              suggestionId: id,
-            });
-          } catch (localError) {
-            console.error("[suggestions] ⚠️ Error adding person to local store:", localError);
-            // Continue even if local store update fails - person is still in API store
-          }
-        }
-      }
-
-      await fetchSuggestions();
+      // The API creates/updates the person in the people store on approval;
+      // the People page reads from the same store, so there is nothing to sync locally.
+      // The stream will also deliver this change; apply it now so the UI updates immediately.
+      const approved = await suggestionsClient.approve(id, edits);
+      upsertSuggestion(approved);
+      offerUndo(approved, "approved");
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to approve suggestion");
       console.error("Error approving suggestion:", err);
@@ -204,15 +340,9 @@ export default function CaregiverPage() {
       setIsLoading(true);
       setError(null);
 
-      const response = await fetch(`${API_BASE_URL}/suggestions/${id}/reject`, {
-        method: "POST",
-      });
-
-      if (!response.ok) {
-        throw new Error("Failed to reject suggestion");
-      }
-
-      await fetchSuggestions();
+      const rejected = await suggestionsClient.reject(id);
+      upsertSuggestion(rejected);
+      offerUndo(rejected, "rejected");
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to reject suggestion");
       console.error("Error rejecting suggestion:", err);
@@ -221,6 +351,101 @@ export default function CaregiverPage() {
     }
   };
 
+  // Handle undo - the API puts the suggestion back to pending and reverses any person change
+  const handleUndo = async () => {
+    if (!undo) return;
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      upsertSuggestion(await suggestionsClient.revert(undo.suggestion.id));
+      if (undoTimerRef.current) clearTimeout(undoTimerRef.current);
+      setUndo(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to undo");
+      console.error("Error reverting suggestion:", err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Handle bulk approve/reject - all or nothing; proposed names and relationships are used as-is
+  const handleBulk = async (action: "approve" | "reject", targets: Suggestion[]) => {
+    if (targets.length === 0) return;
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const result = await suggestionsClient.bulk({ action, ids: targets.map((s) => s.id) });
+      result.results.forEach((item) => item.suggestion && upsertSuggestion(item.suggestion));
+      if (!result.applied) {
+        const failed = result.results.filter((item) => item.outcome === "failed");
+        throw new Error(
+          `Nothing was ${action === "approve" ? "approved" : "rejected"}: ` +
+            failed.map((item) => `${item.suggestion?.text ?? item.id} (${item.error})`).join(", ")
+        );
+      }
+      setSelectedIds(new Set());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to ${action} suggestions`);
+      console.error(`Error during bulk ${action}:`, err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Keyboard shortcuts for the pending queue (ignored while typing or in the approve dialog)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (approveModal || isLoading || e.metaKey || e.ctrlKey || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target && ["INPUT", "SELECT", "TEXTAREA"].includes(target.tagName)) return;
+
+      const index = pendingSuggestions.findIndex((s) => s.id === focusedId);
+      const focused = pendingSuggestions[index];
+      const moveFocus = (offset: number) => {
+        const next = pendingSuggestions[Math.min(pendingSuggestions.length - 1, Math.max(0, index + offset))];
+        if (!next) return;
+        setFocusedId(next.id);
+        document.getElementById(`suggestion-${next.id}`)?.scrollIntoView({ block: "nearest" });
+      };
+      const targets = selectedPending.length > 0 ? selectedPending : focused ? [focused] : [];
+
+      switch (e.key) {
+        case "j":
+        case "ArrowDown":
+          moveFocus(1);
+          break;
+        case "k":
+        case "ArrowUp":
+          moveFocus(-1);
+          break;
+        case "x":
+          if (focused) toggleSelected(focused.id);
+          break;
+        case "s":
+          selectAll();
+          break;
+        case "Escape":
+          setSelectedIds(new Set());
+          break;
+        case "a":
+          void handleBulk("approve", targets);
+          break;
+        case "r":
+          void handleBulk("reject", targets);
+          break;
+        default:
+          return;
+      }
+      e.preventDefault();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  });
+
+  const approveModalError = approveModal ? approvalError(approveModal) : null;
+
   return (
     <div className="bg-background-dark text-white font-display overflow-hidden h-screen flex w-full">
       <Sidebar activePage="suggestions" />
@@ -236,9 +461,25 @@ export default function CaregiverPage() {
           </div>
 
           {/* Error message */}
-          {error && (
+          {(error || streamError) && (
             <div className="glass-panel rounded-xl p-4 border border-red-500/20 bg-red-500/10">
-              <p className="text-red-400 text-sm">{error}</p>
+              <p className="text-red-400 text-sm">{error || streamError}</p>
+            </div>
+          )}
+
+          {/* Undo banner for the latest approve/reject */}
+          {undo && (
+            <div className="glass-panel rounded-xl p-4 border border-white/10 flex items-center justify-between gap-4">
+              <p className="text-gray-300 text-sm">
+                {undo.action === "approved" ? "Approved" : "Rejected"}: {undo.suggestion.text}
+              </p>
+              <button
+                onClick={handleUndo}
+                disabled={isLoading}
+                className="px-4 py-2 rounded-lg bg-white/5 hover:bg-white/10 text-white text-sm font-semibold disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+              >
+                Undo
+              </button>
             </div>
           )}
 
@@ -251,9 +492,53 @@ export default function CaregiverPage() {
 
           {/* Pending suggestions */}
           <div className="glass-panel rounded-xl p-6">
-            <h2 className="text-xl font-semibold text-white mb-4">
-              Pending Suggestions ({pendingSuggestions.length})
-            </h2>
+            <div className="flex items-center justify-between gap-4 mb-4">
+              <h2 className="text-xl font-semibold text-white">
+                Pending Suggestions ({pendingSuggestions.length})
+              </h2>
+              {pendingSuggestions.length > 0 && (
+                <label className="flex items-center gap-2 text-gray-400 text-sm cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={selectedPending.length === Math.min(pendingSuggestions.length, BULK_LIMIT)}
+                    onChange={(e) => (e.target.checked ? selectAll() : setSelectedIds(new Set()))}
+                    className="accent-primary"
+                  />
+                  {pendingSuggestions.length > BULK_LIMIT ? `Select first ${BULK_LIMIT}` : "Select all"}
+                </label>
+              )}
+            </div>
+            {selectedPending.length > 0 && (
+              <div className="flex items-center gap-2 mb-4 p-3 rounded-xl bg-primary/10 border border-primary/20">
+                <span className="text-primary text-sm font-semibold mr-auto">{selectedPending.length} selected</span>
+                <button
+                  onClick={() => void handleBulk("approve", selectedPending)}
+                  disabled={isLoading}
+                  className="px-4 py-2 rounded-lg bg-emerald-500/20 hover:bg-emerald-500/30 text-emerald-400 text-sm font-semibold disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+                >
+                  Approve selected
+                </button>
+                <button
+                  onClick={() => void handleBulk("reject", selectedPending)}
+                  disabled={isLoading}
+                  className="px-4 py-2 rounded-lg bg-red-500/20 hover:bg-red-500/30 text-red-400 text-sm font-semibold disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+                >
+                  Reject selected
+                </button>
+                <button
+                  onClick={() => setSelectedIds(new Set())}
+                  disabled={isLoading}
+                  className="px-4 py-2 rounded-lg bg-white/5 hover:bg-white/10 text-gray-300 text-sm font-semibold disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+                >
+                  Clear
+                </button>
+              </div>
+            )}
+            {pendingSuggestions.length > 0 && (
+              <p className="text-gray-500 text-xs mb-4">
+                Shortcuts: j/k move, x select, s select all, Esc clear, a approve, r reject (selected, or the highlighted one)
+              </p>
+            )}
             {pendingSuggestions.length === 0 ? (
               <p className="text-gray-400 text-sm">No pending suggestions</p>
             ) : (
@@ -261,9 +546,20 @@ export default function CaregiverPage() {
                 {pendingSuggestions.map((suggestion) => (
                   <div
                     key={suggestion.id}
-                    className="bg-white/5 border border-white/10 rounded-xl p-4 space-y-3"
+                    id={`suggestion-${suggestion.id}`}
+                    onClick={() => setFocusedId(suggestion.id)}
+                    className={`bg-white/5 border rounded-xl p-4 space-y-3 ${
+                      focusedId === suggestion.id ? "border-primary" : "border-white/10"
+                    }`}
                   >
                     <div className="flex items-start gap-4">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.has(suggestion.id)}
+                        onChange={() => toggleSelected(suggestion.id)}
+                        aria-label={`Select ${suggestion.text}`}
+                        className="mt-1 accent-primary"
+                      />
                       {/* Frame image if available */}
                       {suggestion.evidence.frameAssetId && frameImages.has(suggestion.evidence.frameAssetId) && (
                         <div className="flex-shrink-0">
@@ -278,6 +574,11 @@ export default function CaregiverPage() {
                       <div className="flex-1">
                         <div className="flex items-center gap-2 mb-2">
                           <p className="text-white font-medium">{suggestion.text}</p>
+                          {suggestion.occurrences && suggestion.occurrences > 1 && (
+                            <span className="text-xs px-2 py-1 rounded-full bg-white/10 text-gray-300">
+                              Heard {suggestion.occurrences} times
+                            </span>
+                          )}
                           {suggestion.evidence.confidence && (
                             <span className="text-xs px-2 py-1 rounded-full bg-primary/20 text-primary">
                               {Math.round(suggestion.evidence.confidence * 100)}% confidence
@@ -304,6 +605,11 @@ export default function CaregiverPage() {
                             ⚠️ Possible duplicate - please review carefully
                           </p>
                         )}
+                        {suggestion.autoDecision && (
+                          <p className="text-gray-400 text-xs mt-1">
+                            {autoDecisionLabel(suggestion.autoDecision)}
+                          </p>
+                        )}
                       </div>
                     </div>
                     <div className="flex gap-2">
@@ -343,8 +649,28 @@ export default function CaregiverPage() {
             </button>
             {isPastSuggestionsOpen && (
               <>
+                <div className="flex gap-3 mb-4">
+                  <input
+                    type="search"
+                    value={pastSearch}
+                    onChange={(e) => setPastSearch(e.target.value)}
+                    placeholder="Search text or transcript"
+                    className="flex-1 px-4 py-2 rounded-lg bg-white/5 border border-white/10 text-white text-sm placeholder-gray-500 focus:outline-none focus:border-primary"
+                  />
+                  <select
+                    value={pastType}
+                    onChange={(e) => setPastType(e.target.value as SuggestionType | "")}
+                    className="px-4 py-2 rounded-lg bg-white/5 border border-white/10 text-white text-sm focus:outline-none focus:border-primary"
+                  >
+                    {TYPE_FILTERS.map((filter) => (
+                      <option key={filter.value} value={filter.value} className="bg-background-dark">
+                        {filter.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
                 {pastSuggestions.length === 0 ? (
-                  <p className="text-gray-400 text-sm">No past suggestions</p>
+                  <p className="text-gray-400 text-sm">{isPastLoading ? "Loading..." : "No past suggestions"}</p>
                 ) : (
                   <div className="space-y-4">
                     {pastSuggestions.map((suggestion) => (
@@ -371,6 +697,10 @@ export default function CaregiverPage() {
                                 <span className="text-xs px-2 py-1 rounded-full bg-emerald-500/20 text-emerald-400 font-semibold">
                                   ✓ Approved
                                 </span>
+                              ) : suggestion.status === "expired" ? (
+                                <span className="text-xs px-2 py-1 rounded-full bg-white/10 text-gray-400 font-semibold">
+                                  {suggestion.collapsedInto ? "Merged into a similar suggestion" : "Expired"}
+                                </span>
                               ) : (
                                 <span className="text-xs px-2 py-1 rounded-full bg-red-500/20 text-red-400 font-semibold">
                                   ✗ Rejected
@@ -397,10 +727,16 @@ export default function CaregiverPage() {
                                 Proposed relationship: {suggestion.proposed.relationship}
                               </p>
                             )}
+                            {suggestion.autoDecision && (
+                              <p className="text-gray-400 text-xs mt-1">
+                                {autoDecisionLabel(suggestion.autoDecision)}
+                              </p>
+                            )}
                           </div>
                         </div>
-                        {/* Allow re-approving rejected suggestions */}
-                        {suggestion.status === "rejected" && (
+                        {/* Allow re-approving rejected and expired suggestions (not merged duplicates) */}
+                        {(suggestion.status === "rejected" ||
+                          (suggestion.status === "expired" && !suggestion.collapsedInto)) && (
                           <div className="flex gap-2 pt-2 border-t border-white/10">
                             <button
                               onClick={() => handleApproveClick(suggestion)}
@@ -413,11 +749,23 @@ export default function CaregiverPage() {
                         )}
                       </div>
                     ))}
+                    {pastCursor && (
+                      <button
+                        onClick={() => void handleLoadMorePast()}
+                        disabled={isPastLoading}
+                        className="w-full px-4 py-2 rounded-lg bg-white/5 hover:bg-white/10 text-gray-300 text-sm font-semibold disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+                      >
+                        {isPastLoading ? "Loading..." : "Load more"}
+                      </button>
+                    )}
                   </div>
                 )}
               </>
             )}
           </div>
+
+          {/* Audit history - who approved/rejected/edited what */}
+          <AuditHistoryPanel refreshKey={suggestions} />
         </div>
       </main>
 
@@ -428,7 +776,9 @@ export default function CaregiverPage() {
             <h3 className="text-xl font-semibold text-white mb-4">
               {approveModal.suggestion.type === "relationship_suggestion" 
                 ? "Approve Relationship" 
-                : "Approve Person"}
+                : approveModal.suggestion.type === "identify_place"
+                  ? "Approve Place"
+                  : "Approve Person"}
             </h3>
             
             {approveModal.suggestion.evidence.duplicateFlag && (
@@ -450,6 +800,34 @@ export default function CaregiverPage() {
             )}
 
             <div className="space-y-4">
+              {approveModal.suggestion.type !== "identify_place" && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Person</label>
+                  <select
+                    value={approveModal.personId}
+                    onChange={(e) => {
+                      const person = people.find((p) => p.id === e.target.value) ?? null;
+                      setApproveModal({
+                        ...approveModal,
+                        personId: e.target.value,
+                        person,
+                        displayName: person?.displayName ?? proposedName(approveModal.suggestion!),
+                        remindersEnabled: person?.remindersEnabled ?? false,
+                      });
+                    }}
+                    className="w-full bg-white/5 border border-white/10 rounded-lg p-2 text-white focus:outline-none focus:ring-2 focus:ring-primary"
+                  >
+                    <option value="" className="bg-background-dark">New person (or match by name)</option>
+                    {people.map((person) => (
+                      <option key={person.id} value={person.id} className="bg-background-dark">
+                        {person.displayName}
+                        {person.relationship ? ` (${person.relationship})` : ""}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
               <div>
                 <label className="block text-sm font-medium text-gray-300 mb-2">
                   {approveModal.suggestion.type === "relationship_suggestion" 
@@ -465,10 +843,72 @@ export default function CaregiverPage() {
                   className="w-full bg-white/5 border border-white/10 rounded-lg p-2 text-white focus:outline-none focus:ring-2 focus:ring-primary"
                   placeholder={approveModal.suggestion.type === "relationship_suggestion" 
                     ? "Enter name (optional)" 
-                    : "Enter name"}
+                    : approveModal.suggestion.type === "identify_place"
+                      ? "e.g. Kitchen, Living room"
+                      : "Enter name"}
                 />
               </div>
 
+              {approveModal.suggestion.type !== "identify_place" && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Relationship</label>
+                  <input
+                    type="text"
+                    value={approveModal.relationship}
+                    onChange={(e) => setApproveModal({ ...approveModal, relationship: e.target.value })}
+                    className="w-full bg-white/5 border border-white/10 rounded-lg p-2 text-white focus:outline-none focus:ring-2 focus:ring-primary"
+                    placeholder="e.g. daughter, neighbor (leave empty for none)"
+                  />
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">Notes</label>
+                <textarea
+                  value={approveModal.notes}
+                  onChange={(e) => setApproveModal({ ...approveModal, notes: e.target.value })}
+                  rows={3}
+                  className="w-full bg-white/5 border border-white/10 rounded-lg p-2 text-white focus:outline-none focus:ring-2 focus:ring-primary"
+                  placeholder={
+                    approveModal.suggestion.type === "identify_place"
+                      ? "Optional"
+                      : approveModal.personId
+                        ? "Keep their current notes"
+                        : "Defaults to the transcript snippet"
+                  }
+                />
+              </div>
+
+              {approveModal.suggestion.evidence.frameAssetId && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Captured photo</label>
+                  <div className="flex gap-4">
+                    {(approveModal.suggestion.type === "identify_place"
+                      ? ([
+                          ["add", "Use as place photo"],
+                          ["none", "Don't keep"],
+                        ] as const)
+                      : ([
+                          ["add", "Add to photos"],
+                          ["primary", "Use as main photo"],
+                          ["none", "Don't keep"],
+                        ] as const)
+                    ).map(([value, label]) => (
+                      <label key={value} className="flex items-center gap-2 text-sm text-gray-300">
+                        <input
+                          type="radio"
+                          name="approvePhoto"
+                          checked={approveModal.photo === value}
+                          onChange={() => setApproveModal({ ...approveModal, photo: value })}
+                          className="accent-primary"
+                        />
+                        {label}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {(approveModal.suggestion.type === "identify_person" || approveModal.suggestion.type === "relationship_suggestion") && (
                 <div className="flex items-center gap-3">
                   <input
@@ -486,15 +926,12 @@ export default function CaregiverPage() {
                 </div>
               )}
 
+              {approveModalError && <p className="text-red-400 text-sm">{approveModalError}</p>}
+
               <div className="flex gap-3">
                 <button
-                  onClick={() =>
-                    handleApprove(approveModal.suggestion!.id, {
-                      displayName: approveModal.displayName,
-                      remindersEnabled: approveModal.remindersEnabled,
-                    })
-                  }
-                  disabled={isLoading || (approveModal.suggestion.type === "identify_person" && !approveModal.displayName.trim())}
+                  onClick={() => handleApprove(approveModal.suggestion!.id, approvalEdits(approveModal))}
+                  disabled={isLoading || approveModalError !== null}
                   className="flex-1 px-4 py-2 rounded-lg bg-emerald-500/20 hover:bg-emerald-500/30 text-emerald-400 text-sm font-semibold disabled:opacity-50 disabled:cursor-not-allowed transition-all"
                 >
                   Approve
@@ -1,179 +1,206 @@
-import { useState, useEffect, useCallback } from 'react';
-import type { Person, PersonPhoto } from '@/types/person';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { Person } from '@cuelens/shared';
+import { PersonSchema } from '@cuelens/shared';
+import type { LegacyPersonProfile } from '@/types/person';
+import {
+  fetchPeople,
+  createPerson,
+  upsertPerson,
+  updatePerson as patchPerson,
+  deletePerson,
+  mergePeople,
+  type PersonInput,
+} from '@/lib/peopleApi';
+import { dataUrlToBlob, fetchAssetObjectUrl, uploadAsset } from '@/lib/assetsApi';
+
+// Offline cache of the last people list fetched from the API
+const CACHE_KEY = 'cuelens_people_cache';
+// Pre-API localStorage profiles, migrated once and then removed
+const LEGACY_STORAGE_KEY = 'cuelens_people_profiles';
+
+function loadCachedPeople(): Person[] | null {
+  try {
+    const raw = localStorage.getItem(CACHE_KEY);
+    if (!raw) return null;
+    const result = PersonSchema.array().safeParse(JSON.parse(raw));
+    return result.success ? result.data : null;
+  } catch (e) {
+    console.error('Failed to load cached people:', e);
+    return null;
+  }
+}
+
+function saveCachedPeople(people: Person[]) {
+  try {
+    localStorage.setItem(CACHE_KEY, JSON.stringify(people));
+  } catch (e) {
+    console.error('Failed to cache people:', e);
+  }
+}
+
+/**
+ * Upload photo data URLs as binary assets, keeping their order
+ */
+async function uploadPhotos(dataUrls: string[]): Promise<string[]> {
+  const ids: string[] = [];
+  for (const dataUrl of dataUrls) {
+    const asset = await uploadAsset(await dataUrlToBlob(dataUrl));
+    ids.push(asset.id);
+  }
+  return ids;
+}
+
+/**
+ * One-time migration of pre-API localStorage profiles into the people store
+ * Untouched hardcoded defaults (Om/Keeret/Michael with no photos or notes) are dropped.
+ * Each profile leaves localStorage only once it is stored; ones that fail stay for the next page load.
+ * Uses upsert so a profile stored just before a failure can safely be migrated again.
+ */
+async function migrateLegacyProfiles(): Promise<void> {
+  const raw = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!raw) return;
+
+  let legacy: LegacyPersonProfile[] = [];
+  try {
+    const arr = JSON.parse(raw);
+    legacy = Array.isArray(arr) ? arr : [];
+  } catch (e) {
+    console.error('[usePeopleProfiles] Discarding unreadable legacy profiles:', e);
+  }
+
+  const remaining = [...legacy];
+  const saveRemaining = () => {
+    if (remaining.length === 0) {
+      localStorage.removeItem(LEGACY_STORAGE_KEY);
+    } else {
+      localStorage.setItem(LEGACY_STORAGE_KEY, JSON.stringify(remaining));
+    }
+  };
 
-const STORAGE_KEY = 'cuelens_people_profiles';
+  for (const profile of legacy) {
+    const isUntouchedDefault =
+      profile?.id?.startsWith('default-') && profile.photos.length === 0 && !profile.note;
+    if (profile && typeof profile.name === 'string' && profile.name.trim() && !isUntouchedDefault) {
+      try {
+        // Front photo first so it becomes the primary one
+        const photos = [...profile.photos].sort((a, b) => Number(b.angle === 'front') - Number(a.angle === 'front'));
+        const photoAssetIds = await uploadPhotos(photos.map((p) => p.dataUrl));
+
+        await upsertPerson({
+          displayName: profile.name.trim(),
+          relationship: profile.relationship || undefined,
+          notes: profile.note || undefined,
+          photoAssetIds,
+        });
+        console.log('[usePeopleProfiles] Migrated legacy profile to API:', profile.name);
+      } catch (e) {
+        console.error('[usePeopleProfiles] Failed to migrate legacy profile, will retry:', profile.name, e);
+        continue;
+      }
+    }
+
+    remaining.splice(remaining.indexOf(profile), 1);
+    saveRemaining();
+  }
+
+  saveRemaining();
+}
+
+// Shared across hook instances so concurrent mounts (and React strict mode) migrate only once.
+// Kept for the whole page load: profiles that failed are retried after a reload, not on every refresh.
+let migrationPromise: Promise<void> | null = null;
 
 export function usePeopleProfiles() {
   const [people, setPeople] = useState<Person[]>([]);
   const [loaded, setLoaded] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Primary photo thumbnails as object URLs, keyed by asset ID (mirrored in a ref for revoking)
+  const [photoUrls, setPhotoUrls] = useState<Map<string, string>>(new Map());
+  const photoUrlsRef = useRef<Map<string, string>>(new Map());
 
-  // Default people data
-  const getDefaultPeople = (): Person[] => {
-    const now = Date.now();
-    return [
-      {
-        id: 'default-om',
-        name: 'Om',
-        relationship: 'Brother',
-        note: '',
-        photos: [],
-        createdAt: now,
-        updatedAt: now,
-        recognitionActive: false,
-      },
-      {
-        id: 'default-keeret',
-        name: 'Keeret',
-        relationship: 'Brother',
-        note: '',
-        photos: [],
-        createdAt: now,
-        updatedAt: now,
-        recognitionActive: false,
-      },
-      {
-        id: 'default-michael',
-        name: 'Michael',
-        relationship: 'Brother',
-        note: '',
-        photos: [],
-        createdAt: now,
-        updatedAt: now,
-        recognitionActive: false,
-      },
-    ];
-  };
-
-  // Load people from localStorage on mount
-  useEffect(() => {
+  const refresh = useCallback(async () => {
     try {
-      const raw = localStorage.getItem(STORAGE_KEY);
-      if (raw) {
-        const arr = JSON.parse(raw) as Person[];
-        // Basic validation
-        if (Array.isArray(arr) && arr.length > 0) {
-          setPeople(arr);
-        } else {
-          // Array is empty or invalid, initialize with defaults
-          const defaultPeople = getDefaultPeople();
-          setPeople(defaultPeople);
-          localStorage.setItem(STORAGE_KEY, JSON.stringify(defaultPeople));
-        }
-      } else {
-        // Initialize with default people if localStorage is empty
-        const defaultPeople = getDefaultPeople();
-        setPeople(defaultPeople);
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(defaultPeople));
-      }
-      setLoaded(true);
+      migrationPromise ??= migrateLegacyProfiles().catch((e) => {
+        console.error('[usePeopleProfiles] Legacy profile migration failed:', e);
+      });
+      await migrationPromise;
+
+      const fetched = await fetchPeople();
+      setPeople(fetched);
+      saveCachedPeople(fetched);
+      setError(null);
     } catch (e) {
-      console.error('Failed to load people profiles:', e);
-      // On error, initialize with defaults
-      const defaultPeople = getDefaultPeople();
-      setPeople(defaultPeople);
-      try {
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(defaultPeople));
-      } catch (saveError) {
-        console.error('Failed to save default people:', saveError);
-      }
+      console.warn('[usePeopleProfiles] People API unavailable, using cached people:', e);
+      setError('Could not reach the server. Showing saved people.');
+    } finally {
       setLoaded(true);
     }
   }, []);
 
-  // Save people to localStorage whenever they change
+  // Show cached people immediately, then load from the API on mount
   useEffect(() => {
-    if (loaded) {
-      try {
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(people));
-      } catch (e) {
-        console.error('Failed to save people profiles:', e);
-      }
+    const cached = loadCachedPeople();
+    if (cached) {
+      setPeople(cached);
     }
-  }, [people, loaded]);
+    void refresh();
+  }, [refresh]);
 
+  // The first photo data URL becomes the primary photo
   const addPerson = useCallback(
-    (name: string, relationship?: string, note?: string, photos: PersonPhoto[] = []): Person => {
-      const person: Person = {
-        id: crypto.randomUUID(),
-        name: name.trim(),
-        relationship: relationship?.trim(),
-        note: note?.trim(),
-        photos,
-        createdAt: Date.now(),
-        updatedAt: Date.now(),
-        recognitionActive: photos.length >= 3, // Active if at least 3 photos
-      };
-
-      console.log('[usePeopleProfiles] Creating person:', {
+    async (
+      input: Omit<PersonInput, 'photoAssetId' | 'photoAssetIds'> & { photoDataUrls?: string[] }
+    ): Promise<Person> => {
+      const { photoDataUrls = [], ...fields } = input;
+      const photoAssetIds = await uploadPhotos(photoDataUrls);
+      const person = await createPerson({ ...fields, photoAssetIds });
+
+      console.log('[usePeopleProfiles] Created person:', {
         id: person.id,
-        name: person.name,
-        photoCount: person.photos.length,
+        displayName: person.displayName,
+        photos: person.photoAssetIds.length,
       });
 
       setPeople((prev) => {
         const updated = [...prev, person];
-        console.log('[usePeopleProfiles] Updated people list:', updated.length, 'people');
+        saveCachedPeople(updated);
         return updated;
       });
-
       return person;
     },
     []
   );
 
-  const removePerson = useCallback((id: string) => {
-    setPeople((prev) => prev.filter((p) => p.id !== id));
+  const removePerson = useCallback(async (id: string) => {
+    await deletePerson(id);
+    setPeople((prev) => {
+      const updated = prev.filter((p) => p.id !== id);
+      saveCachedPeople(updated);
+      return updated;
+    });
   }, []);
 
   const updatePerson = useCallback(
-    (id: string, updates: Partial<Pick<Person, 'name' | 'relationship' | 'note' | 'recognitionActive'>>) => {
-      setPeople((prev) =>
-        prev.map((p) =>
-          p.id === id
-            ? {
-                ...p,
-                ...updates,
-                updatedAt: Date.now(),
-              }
-            : p
-        )
-      );
+    async (id: string, updates: Partial<PersonInput>): Promise<Person> => {
+      const person = await patchPerson(id, updates);
+      setPeople((prev) => {
+        const updated = prev.map((p) => (p.id === id ? person : p));
+        saveCachedPeople(updated);
+        return updated;
+      });
+      return person;
     },
     []
   );
 
-  const addPhotoToPerson = useCallback((personId: string, photo: PersonPhoto) => {
-    setPeople((prev) =>
-      prev.map((p) => {
-        if (p.id === personId) {
-          const updatedPhotos = [...p.photos, photo];
-          return {
-            ...p,
-            photos: updatedPhotos,
-            updatedAt: Date.now(),
-            recognitionActive: updatedPhotos.length >= 3,
-          };
-        }
-        return p;
-      })
-    );
-  }, []);
-
-  const removePhotoFromPerson = useCallback((personId: string, photoId: string) => {
-    setPeople((prev) =>
-      prev.map((p) => {
-        if (p.id === personId) {
-          const updatedPhotos = p.photos.filter((ph) => ph.id !== photoId);
-          return {
-            ...p,
-            photos: updatedPhotos,
-            updatedAt: Date.now(),
-            recognitionActive: updatedPhotos.length >= 3,
-          };
-        }
-        return p;
-      })
-    );
+  const mergePerson = useCallback(async (id: string, duplicateId: string): Promise<Person> => {
+    const person = await mergePeople(id, duplicateId);
+    setPeople((prev) => {
+      const updated = prev.filter((p) => p.id !== duplicateId).map((p) => (p.id === id ? person : p));
+      saveCachedPeople(updated);
+      return updated;
+    });
+    return person;
   }, []);
 
   const getPerson = useCallback(
@@ -183,51 +210,44 @@ export function usePeopleProfiles() {
     [people]
   );
 
-  const importPeople = useCallback((jsonString: string) => {
-    try {
-      const arr = JSON.parse(jsonString);
-      if (!Array.isArray(arr)) {
-        throw new Error('Invalid format: expected array');
-      }
-
-      // Basic validation - ensure each item has required fields
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const validPeople = arr.filter((p: any) => {
-        return (
-          p &&
-          typeof p.id === 'string' &&
-          typeof p.name === 'string' &&
-          typeof p.createdAt === 'number' &&
-          Array.isArray(p.photos)
-        );
-      }) as Person[];
-
-      setPeople(validPeople);
-      return validPeople;
-    } catch (e) {
-      throw new Error(`Invalid JSON for people profiles: ${e instanceof Error ? e.message : 'Unknown error'}`);
+  // Load thumbnails of primary photos not fetched yet (assets are sent with the auth header)
+  useEffect(() => {
+    for (const { photoAssetId } of people) {
+      if (!photoAssetId || photoUrlsRef.current.has(photoAssetId)) continue;
+      fetchAssetObjectUrl(photoAssetId, { thumbnail: true })
+        .then((url) => {
+          const replaced = photoUrlsRef.current.get(photoAssetId);
+          if (replaced) URL.revokeObjectURL(replaced);
+          photoUrlsRef.current = new Map(photoUrlsRef.current).set(photoAssetId, url);
+          setPhotoUrls(photoUrlsRef.current);
+        })
+        .catch((e) => console.error('[usePeopleProfiles] Failed to load photo:', e));
     }
-  }, []);
-
-  const exportPeople = useCallback((): string => {
-    return JSON.stringify(people, null, 2);
   }, [people]);
 
-  const clearPeople = useCallback(() => {
-    setPeople([]);
+  useEffect(() => {
+    const urls = photoUrlsRef;
+    return () => urls.current.forEach((url) => URL.revokeObjectURL(url));
   }, []);
 
+  // Thumbnail of the primary photo, once loaded
+  const getPhotoUrl = useCallback(
+    (person: Person): string | undefined => {
+      return person.photoAssetId ? photoUrls.get(person.photoAssetId) : undefined;
+    },
+    [photoUrls]
+  );
+
   return {
     people,
     loaded,
+    error,
+    refresh,
     addPerson,
     removePerson,
     updatePerson,
-    addPhotoToPerson,
-    removePhotoFromPerson,
+    mergePerson,
     getPerson,
-    importPeople,
-    exportPeople,
-    clearPeople,
+    getPhotoUrl,
   };
 }
@@ -1,12 +1,149 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import type { RoomProfile, RoomObservation } from '@/types/room';
+import type { Place } from '@cuelens/shared';
 import { aggregateObservations } from '@/lib/roomAggregation';
+import { fetchPlaces, createPlace, updatePlace, deletePlace, type PlaceInput } from '@/lib/placesApi';
 
 const STORAGE_KEY = 'cuelens_room_profiles';
+// IDs of cached profiles that have not been saved to the API yet.
+// Absent until the first successful sync, meaning every cached profile is local-only.
+const UNSYNCED_KEY = 'cuelens_room_profiles_unsynced';
+
+function getUnsyncedIds(): string[] {
+  try {
+    const raw = localStorage.getItem(UNSYNCED_KEY);
+    return raw ? (JSON.parse(raw) as string[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function setUnsyncedIds(ids: string[]) {
+  try {
+    localStorage.setItem(UNSYNCED_KEY, JSON.stringify(ids));
+  } catch (e) {
+    console.error('Failed to save unsynced room profile IDs:', e);
+  }
+}
+
+function placeToProfile(place: Place, cached?: RoomProfile): RoomProfile | null {
+  // Places created without a fingerprint cannot be used for room recognition
+  if (!place.fingerprint) return null;
+  return {
+    id: place.id,
+    name: place.displayName,
+    note: place.notes ?? '',
+    createdAt: place.createdAt,
+    observationCount: place.observationCount ?? 1,
+    profile: place.fingerprint,
+    rawObservations: cached?.rawObservations, // Raw observations are only kept locally
+  };
+}
+
+function profileToPlaceInput(profile: RoomProfile): PlaceInput {
+  return {
+    displayName: profile.name,
+    notes: profile.note || undefined,
+    fingerprint: profile.profile,
+    observationCount: profile.observationCount,
+  };
+}
+
+/**
+ * Read cached profiles from localStorage (applying legacy migrations)
+ * Returns null when nothing usable is cached
+ */
+function loadCachedProfiles(): RoomProfile[] | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const arr = JSON.parse(raw) as RoomProfile[];
+    // Basic validation
+    if (!Array.isArray(arr) || arr.length === 0) return null;
+
+    // Migrate any profiles with "Bedroom" name to "Lounge Area"
+    const migrated = arr.map((profile) => {
+      if (profile.name === 'Bedroom' || profile.name === 'bedroom') {
+        return { ...profile, name: 'Lounge Area' };
+      }
+      return profile;
+    });
+    // Also migrate room_type from bedroom to living_room if needed
+    return migrated.map((profile) => {
+      if (profile.profile?.room_type === 'bedroom') {
+        return {
+          ...profile,
+          profile: { ...profile.profile, room_type: 'living_room' as const },
+          rawObservations: profile.rawObservations?.map((obs) =>
+            obs.room_type === 'bedroom' ? { ...obs, room_type: 'living_room' as const } : obs
+          ),
+        };
+      }
+      return profile;
+    });
+  } catch (e) {
+    console.error('Failed to load room profiles:', e);
+    return null;
+  }
+}
+
+// Shared across hook instances so concurrent mounts (and React strict mode) sync only once
+let syncPromise: Promise<RoomProfile[]> | null = null;
+
+/**
+ * Reconcile cached profiles with the Places API
+ * The API is the source of truth; profiles never saved to it are uploaded.
+ * The default lounge area is only seeded when both sides are empty.
+ */
+function syncWithApi(
+  cached: RoomProfile[] | null,
+  getDefaultLoungeArea: () => RoomProfile
+): Promise<RoomProfile[]> {
+  if (syncPromise) return syncPromise;
+
+  syncPromise = (async () => {
+    const local = cached ?? [];
+    if (localStorage.getItem(UNSYNCED_KEY) === null) {
+      // Written out so each upload below can be marked as done on its own
+      setUnsyncedIds(local.map((p) => p.id));
+    }
+    const unsynced = new Set(getUnsyncedIds());
+
+    const places = await fetchPlaces();
+    const placeIds = new Set(places.map((place) => place.id));
+    const synced = places
+      .map((place) => placeToProfile(place, local.find((p) => p.id === place.id)))
+      .filter((p): p is RoomProfile => p !== null);
+
+    let toUpload = local.filter((p) => unsynced.has(p.id) && !placeIds.has(p.id));
+    if (synced.length === 0 && toUpload.length === 0) {
+      toUpload = [getDefaultLoungeArea()];
+    }
+
+    // Each profile is marked synced as soon as it is saved, so a failure part-way through
+    // doesn't upload the earlier ones again on the next sync
+    for (const profile of toUpload) {
+      const place = await createPlace(profileToPlaceInput(profile));
+      setUnsyncedIds(getUnsyncedIds().filter((id) => id !== profile.id));
+      synced.push({ ...profile, id: place.id, createdAt: place.createdAt });
+      console.log('[useRoomProfiles] Uploaded local profile to API:', { name: profile.name, id: place.id });
+    }
+
+    setUnsyncedIds(getUnsyncedIds().filter((id) => !placeIds.has(id)));
+    return synced;
+  })().finally(() => {
+    syncPromise = null;
+  });
+
+  return syncPromise;
+}
 
 export function useRoomProfiles() {
   const [profiles, setProfiles] = useState<RoomProfile[]>([]);
   const [loaded, setLoaded] = useState(false);
+  // Create requests by local profile ID, resolving to the server ID (null if the create failed).
+  // Edits made before the ID swap wait for these instead of targeting the local ID.
+  const pendingCreatesRef = useRef<Map<string, Promise<string | null>>>(new Map());
 
   // Default lounge area data
   const getDefaultLoungeArea = (): RoomProfile => {
@@ -47,62 +184,35 @@ export function useRoomProfiles() {
     };
   };
 
-  // Load profiles from localStorage on mount
+  // Load cached profiles from localStorage, then sync with the API on mount
   useEffect(() => {
-    try {
-      const raw = localStorage.getItem(STORAGE_KEY);
-      if (raw) {
-        const arr = JSON.parse(raw) as RoomProfile[];
-        // Basic validation
-        if (Array.isArray(arr) && arr.length > 0) {
-          // Migrate any profiles with "Bedroom" name to "Lounge Area"
-          const migrated = arr.map((profile) => {
-            if (profile.name === 'Bedroom' || profile.name === 'bedroom') {
-              return { ...profile, name: 'Lounge Area' };
-            }
-            return profile;
-          });
-          // Also migrate room_type from bedroom to living_room if needed
-          const fullyMigrated = migrated.map((profile) => {
-            if (profile.profile?.room_type === 'bedroom') {
-              return {
-                ...profile,
-                profile: { ...profile.profile, room_type: 'living_room' as const },
-                rawObservations: profile.rawObservations?.map((obs) =>
-                  obs.room_type === 'bedroom' ? { ...obs, room_type: 'living_room' as const } : obs
-                ),
-              };
-            }
-            return profile;
-          });
-          setProfiles(fullyMigrated);
-          // Save migrated data back to localStorage
-          localStorage.setItem(STORAGE_KEY, JSON.stringify(fullyMigrated));
-        } else {
-          // Array is empty or invalid, initialize with defaults
+    let cancelled = false;
+
+    const cached = loadCachedProfiles();
+    if (cached) {
+      setProfiles(cached);
+    }
+
+    syncWithApi(cached, getDefaultLoungeArea)
+      .then((synced) => {
+        if (!cancelled) setProfiles(synced);
+      })
+      .catch((e) => {
+        console.warn('[useRoomProfiles] Places API unavailable, using cached profiles:', e);
+        if (!cached && !cancelled) {
+          // Nothing cached and no API - start from the default lounge area (uploaded on next sync)
           const defaultLoungeArea = getDefaultLoungeArea();
+          setUnsyncedIds([defaultLoungeArea.id]);
           setProfiles([defaultLoungeArea]);
-          localStorage.setItem(STORAGE_KEY, JSON.stringify([defaultLoungeArea]));
         }
-      } else {
-        // Initialize with default lounge area if localStorage is empty
-        const defaultLoungeArea = getDefaultLoungeArea();
-        setProfiles([defaultLoungeArea]);
-        localStorage.setItem(STORAGE_KEY, JSON.stringify([defaultLoungeArea]));
-      }
-      setLoaded(true);
-    } catch (e) {
-      console.error('Failed to load room profiles:', e);
-      // On error, initialize with defaults
-      const defaultLoungeArea = getDefaultLoungeArea();
-      setProfiles([defaultLoungeArea]);
-      try {
-        localStorage.setItem(STORAGE_KEY, JSON.stringify([defaultLoungeArea]));
-      } catch (saveError) {
-        console.error('Failed to save default lounge area:', saveError);
-      }
-      setLoaded(true);
-    }
+      })
+      .finally(() => {
+        if (!cancelled) setLoaded(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
   }, []);
 
   // Save profiles to localStorage whenever they change
@@ -116,6 +226,35 @@ export function useRoomProfiles() {
     }
   }, [profiles, loaded]);
 
+  /**
+   * Save a profile to the API in the background and swap its local ID for the server ID
+   * A profile that fails to save is left for the next sync to upload.
+   */
+  const uploadProfile = useCallback((profile: RoomProfile): Promise<string | null> => {
+    const created = createPlace(profileToPlaceInput(profile))
+      .then((place) => {
+        setProfiles((prev) => prev.map((p) => (p.id === profile.id ? { ...p, id: place.id } : p)));
+        return place.id;
+      })
+      .catch((e) => {
+        console.warn('[useRoomProfiles] Failed to save profile to API, will retry on next load:', e);
+        setUnsyncedIds([...getUnsyncedIds(), profile.id]);
+        return null;
+      });
+    pendingCreatesRef.current.set(profile.id, created);
+    return created;
+  }, []);
+
+  /**
+   * Server ID of a profile, once any create request for it has finished
+   * Null when the profile only exists locally
+   */
+  const resolvePlaceId = useCallback(async (id: string): Promise<string | null> => {
+    const pending = pendingCreatesRef.current.get(id);
+    if (pending) return pending;
+    return getUnsyncedIds().includes(id) ? null : id;
+  }, []);
+
   const addProfile = useCallback(
     (name: string, note: string, observations: RoomObservation[]): RoomProfile => {
       if (observations.length === 0) {
@@ -146,23 +285,55 @@ export function useRoomProfiles() {
         console.log('[useRoomProfiles] Updated profiles list:', updated.length, 'profiles');
         return updated;
       });
-      
+
+      void uploadProfile(profile);
+
       return profile;
     },
-    []
+    [uploadProfile]
   );
 
-  const removeProfile = useCallback((id: string) => {
-    setProfiles((prev) => prev.filter((p) => p.id !== id));
-  }, []);
+  /**
+   * Delete a place on the API, or forget a profile that only exists locally
+   */
+  const deleteProfilePlace = useCallback(
+    async (id: string) => {
+      const placeId = await resolvePlaceId(id);
+      if (placeId) {
+        await deletePlace(placeId);
+      } else {
+        setUnsyncedIds(getUnsyncedIds().filter((unsyncedId) => unsyncedId !== id));
+      }
+    },
+    [resolvePlaceId]
+  );
+
+  const removeProfile = useCallback(
+    (id: string) => {
+      setProfiles((prev) => prev.filter((p) => p.id !== id));
+      deleteProfilePlace(id).catch((e) => {
+        console.error('[useRoomProfiles] Failed to delete profile from API:', e);
+      });
+    },
+    [deleteProfilePlace]
+  );
 
   const updateProfile = useCallback(
     (id: string, updates: Partial<Pick<RoomProfile, 'name' | 'note'>>) => {
       setProfiles((prev) =>
         prev.map((p) => (p.id === id ? { ...p, ...updates } : p))
       );
+
+      // Local-only profiles are uploaded with their edits on the next sync
+      resolvePlaceId(id)
+        .then(async (placeId) => {
+          if (placeId) await updatePlace(placeId, { displayName: updates.name, notes: updates.note });
+        })
+        .catch((e) => {
+          console.error('[useRoomProfiles] Failed to update profile on API:', e);
+        });
     },
-    []
+    [resolvePlaceId]
   );
 
   const getProfile = useCallback(
@@ -172,7 +343,25 @@ export function useRoomProfiles() {
     [profiles]
   );
 
-  const importProfiles = useCallback((jsonString: string) => {
+  /**
+   * Delete every profile, on the API too
+   * Throws if some places could not be deleted (they come back on the next load).
+   */
+  const clearProfiles = useCallback(async () => {
+    const ids = profiles.map((p) => p.id);
+    setProfiles([]);
+    const results = await Promise.allSettled(ids.map((id) => deleteProfilePlace(id)));
+    const failed = results.filter((r) => r.status === 'rejected').length;
+    if (failed > 0) {
+      throw new Error(`Failed to delete ${failed} place(s) from the server`);
+    }
+  }, [profiles, deleteProfilePlace]);
+
+  /**
+   * Replace every profile with the ones in an exported JSON file, on the API too
+   */
+  const importProfiles = useCallback(async (jsonString: string) => {
+    let validProfiles: RoomProfile[];
     try {
       const arr = JSON.parse(jsonString);
       if (!Array.isArray(arr)) {
@@ -181,7 +370,7 @@ export function useRoomProfiles() {
 
       // Basic validation - ensure each item has required fields
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const validProfiles = arr.filter((p: any) => {
+      validProfiles = arr.filter((p: any) => {
         return (
           p &&
           typeof p.id === 'string' &&
@@ -192,22 +381,20 @@ export function useRoomProfiles() {
           p.profile.fixed_elements
         );
       }) as RoomProfile[];
-
-      setProfiles(validProfiles);
-      return validProfiles;
     } catch (e) {
       throw new Error(`Invalid JSON for room profiles: ${e instanceof Error ? e.message : 'Unknown error'}`);
     }
-  }, []);
+
+    await clearProfiles();
+    setProfiles(validProfiles);
+    validProfiles.forEach((profile) => void uploadProfile(profile));
+    return validProfiles;
+  }, [clearProfiles, uploadProfile]);
 
   const exportProfiles = useCallback((): string => {
     return JSON.stringify(profiles, null, 2);
   }, [profiles]);
 
-  const clearProfiles = useCallback(() => {
-    setProfiles([]);
-  }, []);
-
   return {
     profiles,
     loaded,
@@ -0,0 +1,99 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { Suggestion } from '@cuelens/shared';
+import { SuggestionEventSchema } from '@cuelens/shared';
+import { apiUrl } from '@/lib/apiClient';
+import { suggestionsClient } from '@/lib/suggestionsApi';
+
+const MAX_RECONNECT_DELAY_MS = 30 * 1000;
+
+/**
+ * Live suggestions for the caregiver page
+ *
+ * Subscribes to GET /suggestions/stream and keeps a map of suggestions by ID. The pending
+ * queue is (re)loaded when the server says "ready" (fresh connection) or "reset" (could not
+ * resume); decided suggestions only enter the map through stream events. On disconnect it reconnects with exponential backoff, passing the last event ID
+ * so missed events are replayed instead of refetching everything.
+ */
+export function useSuggestionsStream() {
+  const [suggestions, setSuggestions] = useState<Map<string, Suggestion>>(new Map());
+  const [connected, setConnected] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const upsertSuggestion = useCallback((suggestion: Suggestion) => {
+    setSuggestions((prev) => new Map(prev).set(suggestion.id, suggestion));
+  }, []);
+
+  const refetch = useCallback(async () => {
+    try {
+      const pending = await suggestionsClient.listAll({ status: 'pending', order: 'asc', limit: 200 });
+      setSuggestions(new Map(pending.map((s) => [s.id, s])));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load suggestions');
+      console.error('Error fetching suggestions:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    let source: EventSource | null = null;
+    let lastEventId: string | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let attempt = 0;
+    let closed = false;
+
+    const handleSnapshotEvent = (e: MessageEvent) => {
+      lastEventId = e.lastEventId || lastEventId;
+      void refetch();
+    };
+
+    const handleSuggestionEvent = (e: MessageEvent) => {
+      lastEventId = e.lastEventId || lastEventId;
+      try {
+        const event = SuggestionEventSchema.parse(JSON.parse(e.data));
+        upsertSuggestion(event.suggestion);
+      } catch (err) {
+        console.error('[suggestions] Ignoring malformed stream event:', err);
+      }
+    };
+
+    const connect = () => {
+      const url = apiUrl('/suggestions/stream', lastEventId ? { lastEventId } : {});
+
+      source = new EventSource(url.toString());
+      source.onopen = () => {
+        attempt = 0;
+        setConnected(true);
+        setError(null);
+      };
+      source.addEventListener('ready', handleSnapshotEvent);
+      source.addEventListener('reset', handleSnapshotEvent);
+      source.addEventListener('suggestion', handleSuggestionEvent);
+      source.onerror = () => {
+        // Reconnect ourselves so the last event ID is always sent (and with backoff)
+        source?.close();
+        setConnected(false);
+        if (closed) return;
+        const delay = Math.min(MAX_RECONNECT_DELAY_MS, 1000 * 2 ** attempt);
+        attempt += 1;
+        setError('Live updates disconnected. Reconnecting...');
+        reconnectTimer = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      source?.close();
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+    };
+  }, [refetch, upsertSuggestion]);
+
+  return {
+    suggestions,
+    connected,
+    error,
+    refetch,
+    upsertSuggestion,
+  };
+}
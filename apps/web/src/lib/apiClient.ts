@@ -0,0 +1,106 @@
+import type { AuthSession, Patient } from '@cuelens/shared';
+import { AuthSessionSchema, PatientSchema } from '@cuelens/shared';
+
+export const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:3001';
+
+const SESSION_KEY = 'cuelens_auth_session';
+const PATIENT_KEY = 'cuelens_active_patient';
+// Offline caches that hold the active patient's data, dropped when switching patient
+const PATIENT_CACHE_KEYS = ['cuelens_people_cache', 'cuelens_room_profiles', 'cuelens_room_profiles_unsynced'];
+
+export type ActivePatient = Pick<Patient, 'id' | 'displayName'>;
+
+function readStored<T>(key: string, parse: (value: unknown) => T): T | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? parse(JSON.parse(raw)) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Signed-in caregiver session, or null when signed out or expired
+ */
+export function getSession(): AuthSession | null {
+  const session = readStored(SESSION_KEY, (value) => AuthSessionSchema.parse(value));
+  return session && session.expiresAt > Date.now() ? session : null;
+}
+
+export function saveSession(session: AuthSession) {
+  localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+}
+
+/**
+ * Sign out locally: forget the session and the selected patient
+ */
+export function clearSession() {
+  localStorage.removeItem(SESSION_KEY);
+  localStorage.removeItem(PATIENT_KEY);
+}
+
+/**
+ * Patient every API call is currently scoped to
+ */
+export function getActivePatient(): ActivePatient | null {
+  return readStored(PATIENT_KEY, (value) => PatientSchema.pick({ id: true, displayName: true }).parse(value));
+}
+
+/**
+ * Select the patient to work with
+ * Cached people/places belong to the previous patient, so they are cleared on a switch
+ */
+export function setActivePatient(patient: ActivePatient) {
+  if (getActivePatient()?.id !== patient.id) {
+    PATIENT_CACHE_KEYS.forEach((key) => localStorage.removeItem(key));
+  }
+  localStorage.setItem(PATIENT_KEY, JSON.stringify({ id: patient.id, displayName: patient.displayName }));
+}
+
+function redirectToLogin() {
+  if (typeof window !== 'undefined' && window.location.pathname !== '/login') {
+    window.location.href = '/login';
+  }
+}
+
+/**
+ * fetch() against the API with the caregiver's token and active patient attached
+ * A 401 means the session is gone server-side, so it is cleared and the user sent to /login
+ */
+export async function apiFetch(path: string, init: RequestInit = {}): Promise<Response> {
+  const headers = new Headers(init.headers);
+  const session = getSession();
+  if (session) {
+    headers.set('Authorization', `Bearer ${session.token}`);
+  }
+  const patient = getActivePatient();
+  if (patient && !headers.has('X-Patient-Id')) {
+    headers.set('X-Patient-Id', patient.id);
+  }
+
+  const response = await fetch(`${API_BASE_URL}${path}`, { ...init, headers });
+  if (response.status === 401 && session) {
+    clearSession();
+    redirectToLogin();
+  }
+  return response;
+}
+
+/**
+ * Absolute API URL carrying the token and patient as query params
+ * For EventSource and WebSocket, which cannot send custom headers
+ */
+export function apiUrl(path: string, params: Record<string, string> = {}): URL {
+  const url = new URL(`${API_BASE_URL}${path}`);
+  const session = getSession();
+  if (session) {
+    url.searchParams.set('access_token', session.token);
+  }
+  const patient = getActivePatient();
+  if (patient) {
+    url.searchParams.set('patientId', patient.id);
+  }
+  Object.entries(params).forEach(([key, value]) => url.searchParams.set(key, value));
+  return url;
+}
@@ -0,0 +1,39 @@
+import type { Asset } from '@cuelens/shared';
+import { AssetSchema } from '@cuelens/shared';
+import { apiFetch } from '@/lib/apiClient';
+
+/**
+ * Upload an image as a binary asset
+ * Identical images are deduplicated by the API, which then returns the existing asset.
+ */
+export async function uploadAsset(image: Blob): Promise<Asset> {
+  const response = await apiFetch(`/assets`, {
+    method: 'POST',
+    headers: { 'Content-Type': image.type || 'application/octet-stream' },
+    body: image,
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to upload asset: ${response.statusText}`);
+  }
+  return AssetSchema.parse(await response.json());
+}
+
+/**
+ * Convert a data URL (canvas capture, FileReader result) to a Blob for upload
+ */
+export async function dataUrlToBlob(dataUrl: string): Promise<Blob> {
+  const response = await fetch(dataUrl);
+  return response.blob();
+}
+
+/**
+ * Fetch an asset (or its thumbnail) as an object URL an <img> or CSS background can load
+ * The caller owns the URL and must revoke it with URL.revokeObjectURL.
+ */
+export async function fetchAssetObjectUrl(id: string, options: { thumbnail?: boolean } = {}): Promise<string> {
+  const response = await apiFetch(`/assets/${id}${options.thumbnail ? '/thumbnail' : ''}`);
+  if (!response.ok) {
+    throw new Error(`Failed to load asset: ${response.statusText}`);
+  }
+  return URL.createObjectURL(await response.blob());
+}
@@ -0,0 +1,21 @@
+import type { AuditEntry } from '@cuelens/shared';
+import { AuditEntrySchema } from '@cuelens/shared';
+import { apiFetch } from '@/lib/apiClient';
+
+/**
+ * Fetch the audit trail, newest first, optionally for one entity type and/or record
+ */
+export async function fetchAuditEntries(
+  filter: { entity?: AuditEntry['entity']; id?: string } = {}
+): Promise<AuditEntry[]> {
+  const params = new URLSearchParams();
+  if (filter.entity) params.set('entity', filter.entity);
+  if (filter.id) params.set('id', filter.id);
+  const query = params.toString();
+
+  const response = await apiFetch(`/audit${query ? `?${query}` : ''}`);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch audit trail: ${response.statusText}`);
+  }
+  return AuditEntrySchema.array().parse(await response.json());
+}
@@ -0,0 +1,89 @@
+import type { AuthSession, Caregiver, Patient } from '@cuelens/shared';
+import { AuthSessionSchema, CaregiverSchema, PatientSchema } from '@cuelens/shared';
+import { apiFetch, clearSession, saveSession } from '@/lib/apiClient';
+
+async function errorMessage(response: Response, fallback: string): Promise<string> {
+  try {
+    const data = await response.json();
+    return typeof data.error === 'string' ? data.error : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Whether the deployment still needs its first admin account
+ */
+export async function fetchAuthStatus(): Promise<{ setupRequired: boolean }> {
+  const response = await apiFetch('/auth/status');
+  if (!response.ok) {
+    throw new Error(`Failed to fetch auth status: ${response.statusText}`);
+  }
+  const data = await response.json();
+  return { setupRequired: data.setupRequired === true };
+}
+
+/**
+ * Sign in and store the session
+ */
+export async function login(email: string, password: string): Promise<AuthSession> {
+  const response = await apiFetch('/auth/login', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email, password }),
+  });
+  if (!response.ok) {
+    throw new Error(await errorMessage(response, 'Sign in failed'));
+  }
+  const session = AuthSessionSchema.parse(await response.json());
+  saveSession(session);
+  return session;
+}
+
+/**
+ * Create the first admin account and store the session
+ */
+export async function register(input: {
+  email: string;
+  password: string;
+  displayName: string;
+}): Promise<AuthSession> {
+  const response = await apiFetch('/auth/register', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  });
+  if (!response.ok) {
+    throw new Error(await errorMessage(response, 'Could not create account'));
+  }
+  const session = AuthSessionSchema.parse(await response.json());
+  saveSession(session);
+  return session;
+}
+
+/**
+ * Current caregiver and the patients they can access
+ */
+export async function fetchMe(): Promise<{ caregiver: Caregiver; patients: Patient[] }> {
+  const response = await apiFetch('/auth/me');
+  if (!response.ok) {
+    throw new Error(`Failed to fetch account: ${response.statusText}`);
+  }
+  const data = await response.json();
+  return {
+    caregiver: CaregiverSchema.parse(data.caregiver),
+    patients: PatientSchema.array().parse(data.patients),
+  };
+}
+
+/**
+ * End the session on the API (best-effort) and locally
+ */
+export async function logout(): Promise<void> {
+  try {
+    await apiFetch('/auth/logout', { method: 'POST' });
+  } catch (error) {
+    console.warn('Error ending session on the API:', error);
+  }
+  clearSession();
+}
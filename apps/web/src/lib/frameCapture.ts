@@ -1,3 +1,5 @@
+import { apiFetch } from '@/lib/apiClient';
+
 /**
  * Capture a frame from a video element and convert to base64
  */
@@ -34,13 +36,12 @@ export function captureFrameFromVideo(videoElement: HTMLVideoElement): string |
 
 /**
  * Upload a frame (base64) to the backend and get frameAssetId
+ * No `subject` region is sent (there is no face detection here); server-side redaction keeps
+ * its configured default subject area sharp and blurs the rest.
  */
-export async function uploadFrame(
-  base64Frame: string,
-  apiBaseUrl: string = process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:3001'
-): Promise<string | null> {
+export async function uploadFrame(base64Frame: string): Promise<string | null> {
   try {
-    const response = await fetch(`${apiBaseUrl}/frames`, {
+    const response = await apiFetch('/frames', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -56,7 +57,7 @@ export async function uploadFrame(
     return data.frameAssetId || null;
   } catch (error) {
     console.error('Error uploading frame:', error);
-    // For MVP, return base64 as fallback if upload fails
-    return base64Frame;
+    // No fallback to the raw image: it would bypass server-side redaction
+    return null;
   }
 }
@@ -6,6 +6,8 @@
  * Treats each HTTP response as FINAL transcript for suggestion engine
  */
 
+import { apiFetch } from '@/lib/apiClient';
+
 export interface HTTPSTTConfig {
   onTranscript?: (text: string) => void;
   onError?: (error: Error) => void;
@@ -18,7 +20,6 @@ export class HTTPSTTClient {
   private config: HTTPSTTConfig;
   private isRecording = false;
   private chunkDuration: number;
-  private apiBaseUrl: string;
   private captureFrameCallback?: () => string | null | undefined; // Callback to capture webcam frame
   
   // Burst recording: collect parts from ondataavailable, create blob on stop
@@ -26,10 +27,12 @@ export class HTTPSTTClient {
   private mimeType: string = '';
   private burstTimer: ReturnType<typeof setInterval> | null = null;
 
+  // Sent with every transcript so the backend can combine consecutive chunks of one conversation
+  private sessionId = crypto.randomUUID();
+
   constructor(config: HTTPSTTConfig) {
     this.config = config;
     this.chunkDuration = config.chunkDurationMs || 2500; // 2.5 seconds default
-    this.apiBaseUrl = process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:3001';
   }
 
   /**
@@ -182,7 +185,7 @@ export class HTTPSTTClient {
       formData.append('file', audioBlob, `chunk.${extension}`);
 
       // Send to backend STT endpoint via multipart/form-data
-      const response = await fetch(`${this.apiBaseUrl}/stt/chunk`, {
+      const response = await apiFetch('/stt/chunk', {
         method: 'POST',
         body: formData, // Don't set Content-Type header - browser will set it with boundary
       });
@@ -226,7 +229,7 @@ export class HTTPSTTClient {
         if (frameBase64) {
           // Upload frame to get frameAssetId
           try {
-            const frameResponse = await fetch(`${this.apiBaseUrl}/frames`, {
+            const frameResponse = await apiFetch('/frames', {
               method: 'POST',
               headers: {
                 'Content-Type': 'application/json',
@@ -247,7 +250,7 @@ export class HTTPSTTClient {
       }
 
       // Send transcript to suggestion engine
-      const response = await fetch(`${this.apiBaseUrl}/transcript`, {
+      const response = await apiFetch('/transcript', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -256,6 +259,7 @@ export class HTTPSTTClient {
           transcript,
           visionEventId: `http_stt_${Date.now()}`,
           frameAssetId,
+          sessionId: this.sessionId,
         }),
       });
 
@@ -28,6 +28,8 @@
  * - whisper-1 (legacy)
  */
 
+import { apiUrl } from '@/lib/apiClient';
+
 /**
  * Transcription model options for Realtime transcription sessions
  * See: https://platform.openai.com/docs/guides/speech-to-text#streaming-the-transcription-of-an-ongoing-audio-recording
@@ -76,11 +78,13 @@ export class OpenAIRealtimeClient {
       // Connect via backend proxy
       // Backend automatically generates ephemeral tokens for secure connections
       // The backend connects to: wss://api.openai.com/v1/realtime?intent=transcription
-      const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:3001';
       // Note: model is NOT in the URL - it's specified in transcription_session.update
-      const wsUrl = `${API_BASE_URL.replace('http', 'ws')}/realtime/connect`;
+      // The caregiver's token goes in the query string since WebSockets cannot send headers
+      const url = apiUrl('/realtime/connect');
+      url.protocol = url.protocol.replace('http', 'ws');
+      const wsUrl = url.toString();
       
-      console.log('🔌 Connecting to backend WebSocket proxy:', wsUrl);
+      console.log('🔌 Connecting to backend WebSocket proxy:', `${url.origin}${url.pathname}`);
       console.log('   Backend will connect to: wss://api.openai.com/v1/realtime?intent=transcription');
       
       // Initialize WebSocket - backend handles ephemeral token generation
@@ -0,0 +1,104 @@
+import type { Person, PersonDuplicate } from '@cuelens/shared';
+import { PersonDuplicateSchema, PersonSchema } from '@cuelens/shared';
+import { apiFetch } from '@/lib/apiClient';
+
+export interface PersonInput {
+  displayName: string;
+  relationship?: string;
+  notes?: string;
+  photoAssetId?: string; // primary photo
+  photoAssetIds?: string[];
+  remindersEnabled?: boolean;
+}
+
+/**
+ * Fetch all people from the API
+ */
+export async function fetchPeople(): Promise<Person[]> {
+  const response = await apiFetch(`/people`);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch people: ${response.statusText}`);
+  }
+  return PersonSchema.array().parse(await response.json());
+}
+
+/**
+ * Create a person on the API
+ */
+export async function createPerson(input: PersonInput): Promise<Person> {
+  const response = await apiFetch(`/people`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to create person: ${response.statusText}`);
+  }
+  return PersonSchema.parse(await response.json());
+}
+
+/**
+ * Create or update a person by display name
+ */
+export async function upsertPerson(input: PersonInput): Promise<Person> {
+  const response = await apiFetch(`/people/upsert`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to upsert person: ${response.statusText}`);
+  }
+  return PersonSchema.parse(await response.json());
+}
+
+/**
+ * Update a person on the API
+ */
+export async function updatePerson(id: string, updates: Partial<PersonInput>): Promise<Person> {
+  const response = await apiFetch(`/people/${id}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(updates),
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to update person: ${response.statusText}`);
+  }
+  return PersonSchema.parse(await response.json());
+}
+
+/**
+ * Delete a person on the API
+ */
+export async function deletePerson(id: string): Promise<void> {
+  const response = await apiFetch(`/people/${id}`, { method: 'DELETE' });
+  if (!response.ok && response.status !== 404) {
+    throw new Error(`Failed to delete person: ${response.statusText}`);
+  }
+}
+
+/**
+ * Pairs of people the API thinks are the same human
+ */
+export async function fetchDuplicatePeople(): Promise<PersonDuplicate[]> {
+  const response = await apiFetch(`/people/duplicates`);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch duplicate people: ${response.statusText}`);
+  }
+  return PersonDuplicateSchema.array().parse(await response.json());
+}
+
+/**
+ * Fold the duplicate into the person to keep; returns the merged person
+ */
+export async function mergePeople(id: string, duplicateId: string): Promise<Person> {
+  const response = await apiFetch(`/people/${id}/merge`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ duplicateId }),
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to merge people: ${response.statusText}`);
+  }
+  return PersonSchema.parse(await response.json());
+}
@@ -0,0 +1,61 @@
+import type { Place, RoomObservation } from '@cuelens/shared';
+import { PlaceSchema } from '@cuelens/shared';
+import { apiFetch } from '@/lib/apiClient';
+
+export interface PlaceInput {
+  displayName: string;
+  notes?: string;
+  fingerprint?: RoomObservation;
+  observationCount?: number;
+}
+
+/**
+ * Fetch all places from the API
+ */
+export async function fetchPlaces(): Promise<Place[]> {
+  const response = await apiFetch(`/places`);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch places: ${response.statusText}`);
+  }
+  return PlaceSchema.array().parse(await response.json());
+}
+
+/**
+ * Create a place on the API
+ */
+export async function createPlace(input: PlaceInput): Promise<Place> {
+  const response = await apiFetch(`/places`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to create place: ${response.statusText}`);
+  }
+  return PlaceSchema.parse(await response.json());
+}
+
+/**
+ * Update a place on the API
+ */
+export async function updatePlace(id: string, updates: Partial<PlaceInput>): Promise<Place> {
+  const response = await apiFetch(`/places/${id}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(updates),
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to update place: ${response.statusText}`);
+  }
+  return PlaceSchema.parse(await response.json());
+}
+
+/**
+ * Delete a place on the API
+ */
+export async function deletePlace(id: string): Promise<void> {
+  const response = await apiFetch(`/places/${id}`, { method: 'DELETE' });
+  if (!response.ok && response.status !== 404) {
+    throw new Error(`Failed to delete place: ${response.statusText}`);
+  }
+}
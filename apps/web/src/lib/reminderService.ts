@@ -0,0 +1,88 @@
+import type { Person } from '@cuelens/shared';
+import type { TTSProvider } from './tts';
+
+const DEFAULT_COOLDOWN_MS = 2 * 60 * 1000; // Don't repeat a reminder for the same target within 2 minutes
+
+/**
+ * Compose the spoken reminder for a recognized person
+ * e.g. "This is Om, your brother"
+ */
+export function composePersonReminder(person: Pick<Person, 'displayName' | 'relationship'>): string {
+  const relationship = person.relationship?.trim().toLowerCase();
+  return relationship
+    ? `This is ${person.displayName}, your ${relationship}`
+    : `This is ${person.displayName}`;
+}
+
+/**
+ * Compose the spoken reminder for a recognized place
+ * e.g. "You're in the Lounge Area"
+ */
+export function composePlaceReminder(placeName: string): string {
+  const name = placeName.trim();
+  // Don't say "the the Kitchen" or "the Mom's room"
+  const needsArticle = !/^(the|my|your)\s/i.test(name) && !/'s\b/i.test(name);
+  return `You're in ${needsArticle ? 'the ' : ''}${name}`;
+}
+
+/**
+ * Find known people whose name is mentioned in a transcript (whole words, case-insensitive)
+ */
+export function findMentionedPeople(transcript: string, people: Person[]): Person[] {
+  return people.filter((person) => {
+    const escaped = person.displayName.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return escaped.length > 0 && new RegExp(`(?<!\\w)${escaped}(?!\\w)`, 'i').test(transcript);
+  });
+}
+
+/**
+ * Speaks short reminders when a known person or place is recognized
+ *
+ * Honors Person.remindersEnabled and applies a per-target cooldown so the same
+ * person or room is not announced repeatedly. Only one reminder is spoken at a time;
+ * reminders arriving while another is playing are dropped.
+ */
+export class ReminderService {
+  private lastSpokenAt = new Map<string, number>();
+  private speaking = false;
+
+  constructor(
+    private readonly provider: TTSProvider,
+    private readonly options: { cooldownMs?: number } = {}
+  ) {}
+
+  remindPerson(person: Person): Promise<boolean> {
+    if (!person.remindersEnabled) return Promise.resolve(false);
+    return this.remind(`person:${person.id}`, composePersonReminder(person));
+  }
+
+  remindPlace(place: { id: string; name: string }): Promise<boolean> {
+    return this.remind(`place:${place.id}`, composePlaceReminder(place.name));
+  }
+
+  /**
+   * Speak a reminder unless the target is cooling down
+   * Returns true if the reminder was spoken
+   */
+  private async remind(targetKey: string, text: string): Promise<boolean> {
+    const now = Date.now();
+    const cooldownMs = this.options.cooldownMs ?? DEFAULT_COOLDOWN_MS;
+    const last = this.lastSpokenAt.get(targetKey);
+    if (this.speaking || (last !== undefined && now - last < cooldownMs)) {
+      return false;
+    }
+
+    this.lastSpokenAt.set(targetKey, now);
+    this.speaking = true;
+    try {
+      console.log(`[reminders] 🔊 ${text}`);
+      await this.provider.speak(text);
+      return true;
+    } catch (error) {
+      console.warn('[reminders] Failed to speak reminder:', error);
+      return false;
+    } finally {
+      this.speaking = false;
+    }
+  }
+}
@@ -0,0 +1,34 @@
+import type { PatientSettings, PatientSettingsUpdate } from '@cuelens/shared';
+import { PatientSettingsSchema } from '@cuelens/shared';
+import { apiFetch } from '@/lib/apiClient';
+
+/**
+ * Stock settings, used until the patient's settings have loaded
+ */
+export const DEFAULT_SETTINGS: PatientSettings = PatientSettingsSchema.parse({});
+
+/**
+ * Fetch the current patient's settings from the API
+ */
+export async function fetchSettings(): Promise<PatientSettings> {
+  const response = await apiFetch('/settings');
+  if (!response.ok) {
+    throw new Error(`Failed to fetch settings: ${response.statusText}`);
+  }
+  return PatientSettingsSchema.parse(await response.json());
+}
+
+/**
+ * Change some of the current patient's settings
+ */
+export async function updateSettings(changes: PatientSettingsUpdate): Promise<PatientSettings> {
+  const response = await apiFetch('/settings', {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(changes),
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to update settings: ${response.statusText}`);
+  }
+  return PatientSettingsSchema.parse(await response.json());
+}
@@ -0,0 +1,7 @@
+import { createSuggestionsClient } from '@cuelens/shared';
+import { apiFetch } from '@/lib/apiClient';
+
+/**
+ * Suggestions API client for the active patient (shared typed client over apiFetch)
+ */
+export const suggestionsClient = createSuggestionsClient(apiFetch);
@@ -0,0 +1,82 @@
+/**
+ * Text-to-speech providers for spoken reminders
+ *
+ * Select with NEXT_PUBLIC_TTS_PROVIDER:
+ * - "browser" (default): Web Speech API speechSynthesis, works offline
+ * - "server": POST /tts on the API (OpenAI TTS), more natural voice
+ * - "none": reminders are composed but not spoken
+ */
+
+import { apiFetch } from '@/lib/apiClient';
+
+export interface TTSProvider {
+  speak(text: string): Promise<void>;
+}
+
+/**
+ * Speaks using the browser's built-in speechSynthesis
+ */
+export class BrowserSpeechProvider implements TTSProvider {
+  constructor(private readonly options: { rate?: number; lang?: string } = {}) {}
+
+  speak(text: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (typeof window === 'undefined' || !('speechSynthesis' in window)) {
+        reject(new Error('speechSynthesis is not supported in this browser'));
+        return;
+      }
+
+      const utterance = new SpeechSynthesisUtterance(text);
+      utterance.rate = this.options.rate ?? 0.9; // Slightly slower for clarity
+      utterance.lang = this.options.lang ?? 'en-US';
+      utterance.onend = () => resolve();
+      utterance.onerror = (e) => reject(new Error(`Speech synthesis failed: ${e.error}`));
+      window.speechSynthesis.speak(utterance);
+    });
+  }
+}
+
+/**
+ * Plays audio rendered by the API's /tts endpoint
+ */
+export class ServerAudioProvider implements TTSProvider {
+  async speak(text: string): Promise<void> {
+    const response = await apiFetch('/tts', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ text }),
+    });
+    if (!response.ok) {
+      throw new Error(`TTS request failed: ${response.statusText}`);
+    }
+
+    const url = URL.createObjectURL(await response.blob());
+    try {
+      const audio = new Audio(url);
+      await new Promise<void>((resolve, reject) => {
+        audio.onended = () => resolve();
+        audio.onerror = () => reject(new Error('Failed to play reminder audio'));
+        audio.play().catch(reject);
+      });
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  }
+}
+
+/**
+ * Provider that stays silent (reminders disabled)
+ */
+export class SilentProvider implements TTSProvider {
+  async speak(): Promise<void> {}
+}
+
+/**
+ * Create the TTS provider configured via NEXT_PUBLIC_TTS_PROVIDER
+ */
+export function createTTSProvider(): TTSProvider {
+  const provider = (process.env.NEXT_PUBLIC_TTS_PROVIDER || 'browser').toLowerCase();
+  if (provider === 'server') return new ServerAudioProvider();
+  if (provider === 'none') return new SilentProvider();
+  return new BrowserSpeechProvider();
+}
@@ -0,0 +1,24 @@
+import type { VisionEvent, VisionEventCreate } from '@cuelens/shared';
+import { VisionEventSchema } from '@cuelens/shared';
+import { apiFetch } from '@/lib/apiClient';
+
+/**
+ * Record a vision event on the API
+ * Returns null on failure - vision events are best-effort and must never break the camera loop
+ */
+export async function emitVisionEvent(input: VisionEventCreate): Promise<VisionEvent | null> {
+  try {
+    const response = await apiFetch(`/vision-events`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to record vision event: ${response.statusText}`);
+    }
+    return VisionEventSchema.parse(await response.json());
+  } catch (error) {
+    console.warn('Error recording vision event:', error);
+    return null;
+  }
+}
@@ -1,11 +1,18 @@
+export type PhotoAngle = 'front' | 'left' | 'right';
+
 export interface PersonPhoto {
   id: string;
   dataUrl: string; // Base64 data URL for the image
-  angle: 'front';
+  angle: PhotoAngle;
   capturedAt: number;
 }
 
-export interface Person {
+/**
+ * Person profile as it was stored in localStorage before people moved to the API.
+ * Only read by the one-time migration in usePeopleProfiles - use the shared
+ * `Person` contract from @cuelens/shared everywhere else.
+ */
+export interface LegacyPersonProfile {
   id: string;
   name: string;
   relationship?: string; // e.g., "Daughter", "Doctor", "Neighbor"
@@ -1,18 +1,7 @@
-export interface RoomObservation {
-  room_type: 'bedroom' | 'living_room' | 'bathroom' | 'kitchen' | 'office' | 'hallway' | 'unknown';
-  fixed_elements: {
-    major_furniture: { name: string; count: number; attributes: string[] }[];
-    surfaces: {
-      floor: { material: string; color: string; pattern: string };
-      walls: { color: string; pattern: string };
-      ceiling: { color: string };
-    };
-    lighting: { type: string; count: number; attributes: string[] }[];
-    large_decor: { name: string; attributes: string[] }[];
-  };
-  distinctive_markers: string[];
-  summary: string;
-}
+import type { RoomObservation } from '@cuelens/shared';
+
+// RoomObservation is a shared contract so the API can persist room fingerprints
+export type { RoomObservation };
 
 export interface RoomProfile {
   id: string;
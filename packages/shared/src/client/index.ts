@@ -0,0 +1,8 @@
+/**
+ * API Clients
+ *
+ * Typed wrappers around API endpoints, shared by every app that calls them.
+ * Responses are validated with the contracts in ../contracts.
+ */
+
+export * from "./suggestions.js";
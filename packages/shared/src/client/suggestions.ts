@@ -0,0 +1,119 @@
+import type {
+  Suggestion,
+  SuggestionApprove,
+  SuggestionBulkRequest,
+  SuggestionBulkResult,
+  SuggestionListQuery,
+  SuggestionPage,
+} from "../contracts/index.js";
+import { SuggestionBulkResultSchema, SuggestionPageSchema, SuggestionSchema } from "../contracts/index.js";
+
+/**
+ * The parts of a fetch() Response the client reads
+ */
+export interface ApiResponse {
+  ok: boolean;
+  status: number;
+  statusText: string;
+  json(): Promise<unknown>;
+}
+
+/**
+ * fetch()-like function that resolves API paths and attaches credentials (e.g. the web app's apiFetch)
+ */
+export type ApiFetch = (
+  path: string,
+  init?: { method?: string; headers?: Record<string, string>; body?: string }
+) => Promise<ApiResponse>;
+
+/**
+ * Query string for GET /suggestions (repeated keys for several statuses)
+ */
+export function suggestionListQueryString(query: SuggestionListQuery): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value === undefined) continue;
+    const values: unknown[] = Array.isArray(value) ? value : [value];
+    values.forEach((v) => params.append(key, String(v)));
+  }
+  const text = params.toString();
+  return text ? `?${text}` : "";
+}
+
+async function parseSuggestion(response: ApiResponse, action: string): Promise<Suggestion> {
+  if (!response.ok) {
+    throw new Error(`Failed to ${action} suggestion: ${response.statusText || response.status}`);
+  }
+  return SuggestionSchema.parse(await response.json());
+}
+
+/**
+ * Typed client for the suggestion review endpoints
+ * Every response is validated against the shared contracts before it is returned.
+ */
+export function createSuggestionsClient(apiFetch: ApiFetch) {
+  const post = (path: string, body?: unknown) =>
+    apiFetch(path, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+  /**
+   * One page of suggestions; pass `nextCursor` back as `cursor` for the next one
+   */
+  const list = async (query: SuggestionListQuery = {}): Promise<SuggestionPage> => {
+    const response = await apiFetch(`/suggestions${suggestionListQueryString(query)}`);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch suggestions: ${response.statusText || response.status}`);
+    }
+    return SuggestionPageSchema.parse(await response.json());
+  };
+
+  return {
+    list,
+
+    /**
+     * Every suggestion matching the query, following cursors until the last page
+     */
+    async listAll(query: Omit<SuggestionListQuery, "cursor"> = {}): Promise<Suggestion[]> {
+      const items: Suggestion[] = [];
+      let cursor: string | undefined;
+      do {
+        const page = await list({ ...query, cursor });
+        items.push(...page.items);
+        cursor = page.nextCursor;
+      } while (cursor);
+      return items;
+    },
+
+    async approve(id: string, edits: SuggestionApprove = {}): Promise<Suggestion> {
+      return parseSuggestion(await post(`/suggestions/${encodeURIComponent(id)}/approve`, edits), "approve");
+    },
+
+    async reject(id: string): Promise<Suggestion> {
+      return parseSuggestion(await post(`/suggestions/${encodeURIComponent(id)}/reject`), "reject");
+    },
+
+    /**
+     * Approve or reject several pending suggestions at once, all or nothing
+     * A refused batch (409) resolves with `applied: false` and the per-item errors.
+     */
+    async bulk(request: SuggestionBulkRequest): Promise<SuggestionBulkResult> {
+      const response = await post("/suggestions/bulk", request);
+      if (!response.ok && response.status !== 409) {
+        throw new Error(`Failed to ${request.action} suggestions: ${response.statusText || response.status}`);
+      }
+      return SuggestionBulkResultSchema.parse(await response.json());
+    },
+
+    /**
+     * Undo an approval or rejection (the suggestion goes back to pending)
+     */
+    async revert(id: string): Promise<Suggestion> {
+      return parseSuggestion(await post(`/suggestions/${encodeURIComponent(id)}/revert`), "revert");
+    },
+  };
+}
+
+export type SuggestionsClient = ReturnType<typeof createSuggestionsClient>;
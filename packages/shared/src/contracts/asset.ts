@@ -0,0 +1,16 @@
+import { z } from "zod";
+
+/**
+ * Asset contract
+ * Metadata for an uploaded binary (e.g. a person photo); the bytes are served by GET /assets/:id
+ */
+export const AssetSchema = z.object({
+  id: z.string(),
+  hash: z.string(), // sha256 of the content (hex); identical uploads resolve to the same asset
+  mimeType: z.string(), // e.g. "image/jpeg"
+  size: z.number(), // bytes
+  hasThumbnail: z.boolean(), // false when no thumbnail could be generated (original is served instead)
+  createdAt: z.number(), // unix timestamp in milliseconds
+});
+
+export type Asset = z.infer<typeof AssetSchema>;
@@ -0,0 +1,35 @@
+import { z } from "zod";
+
+/**
+ * Who performed an audited change
+ * "system" covers changes made by the API itself (e.g. migrations, background jobs)
+ */
+export const AuditActorSchema = z.object({
+  type: z.enum(["caregiver", "device", "system"]),
+  id: z.string().optional(), // caregiver ID, or suggestion rule ID for automatic decisions
+  name: z.string().optional(), // caregiver display name or device label
+});
+
+export type AuditActor = z.infer<typeof AuditActorSchema>;
+
+/**
+ * Audit log entry contract
+ * One append-only record per mutation of a suggestion, person, suggestion rule or the patient's settings
+ */
+export const AuditEntrySchema = z.object({
+  id: z.string(),
+  entity: z.enum(["suggestion", "person", "suggestion_rule", "settings"]), // settings entries use the patient ID as entityId
+  entityId: z.string(),
+  action: z.enum(["create", "update", "delete", "approve", "reject", "revert", "expire"]),
+  actor: AuditActorSchema,
+  timestamp: z.number(), // unix timestamp in milliseconds
+  changes: z.array(
+    z.object({
+      field: z.string(), // top-level field name
+      before: z.unknown().optional(), // undefined when the field was added
+      after: z.unknown().optional(), // undefined when the field was removed
+    })
+  ),
+});
+
+export type AuditEntry = z.infer<typeof AuditEntrySchema>;
@@ -0,0 +1,30 @@
+import { z } from "zod";
+
+/**
+ * Caregiver contract
+ * An account that reviews suggestions for the patients it is assigned to
+ * Admins can access every patient and manage accounts
+ */
+export const CaregiverSchema = z.object({
+  id: z.string(),
+  email: z.string().email(),
+  displayName: z.string(),
+  role: z.enum(["admin", "caregiver"]),
+  patientIds: z.array(z.string()), // Patients this caregiver may access (ignored for admins)
+  createdAt: z.number(), // unix timestamp in milliseconds
+  updatedAt: z.number(), // unix timestamp in milliseconds
+});
+
+export type Caregiver = z.infer<typeof CaregiverSchema>;
+
+/**
+ * Auth session returned by login/register
+ * `token` is sent back as `Authorization: Bearer <token>`
+ */
+export const AuthSessionSchema = z.object({
+  token: z.string(),
+  expiresAt: z.number(), // unix timestamp in milliseconds
+  caregiver: CaregiverSchema,
+});
+
+export type AuthSession = z.infer<typeof AuthSessionSchema>;
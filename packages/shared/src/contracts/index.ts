@@ -5,7 +5,15 @@
  * that define the shape of data exchanged between the web app and API.
  */
 
+export * from "./patient.js";
+export * from "./settings.js";
+export * from "./caregiver.js";
+export * from "./relationship.js";
 export * from "./person.js";
 export * from "./place.js";
+export * from "./roomObservation.js";
 export * from "./visionEvent.js";
 export * from "./suggestion.js";
+export * from "./suggestionRule.js";
+export * from "./audit.js";
+export * from "./asset.js";
@@ -0,0 +1,15 @@
+import { z } from "zod";
+
+/**
+ * Patient contract
+ * A person living with memory loss; people, places and suggestions are scoped to one patient
+ */
+export const PatientSchema = z.object({
+  id: z.string(),
+  displayName: z.string(),
+  notes: z.string().optional(),
+  createdAt: z.number(), // unix timestamp in milliseconds
+  updatedAt: z.number(), // unix timestamp in milliseconds
+});
+
+export type Patient = z.infer<typeof PatientSchema>;
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { PersonRelationshipSchema } from "./relationship.js";
 
 /**
  * Person contract
@@ -7,9 +8,11 @@ import { z } from "zod";
 export const PersonSchema = z.object({
   id: z.string(),
   displayName: z.string(),
-  relationship: z.string().optional(),
+  relationship: z.string().optional(), // what the patient calls them ("Nana"), label of the patient edge
+  relationships: z.array(PersonRelationshipSchema).default([]), // typed edges to the patient and other people
   notes: z.string().optional(),
-  photoAssetId: z.string().optional(),
+  photoAssetId: z.string().optional(), // primary photo, always one of photoAssetIds
+  photoAssetIds: z.array(z.string()).default([]), // all reference photos (asset IDs)
   embeddingId: z.string().optional(),
   remindersEnabled: z.boolean().optional(), // Whether audio reminders are enabled for this person
   createdAt: z.number(), // unix timestamp in milliseconds
@@ -17,3 +20,17 @@ export const PersonSchema = z.object({
 });
 
 export type Person = z.infer<typeof PersonSchema>;
+
+/**
+ * Likely duplicate pair of people, for the caregiver to merge
+ * `reason` is how the names matched (exact/nickname/phonetic/fuzzy) or "relationship" when
+ * both stand for the same one-of-a-kind relative (e.g. "Mom" and Linda, relationship "mother").
+ */
+export const PersonDuplicateSchema = z.object({
+  personId: z.string(),
+  duplicateId: z.string(),
+  reason: z.enum(["exact", "nickname", "phonetic", "fuzzy", "relationship"]),
+  score: z.number(), // 0-1, higher is more likely the same person
+});
+
+export type PersonDuplicate = z.infer<typeof PersonDuplicateSchema>;
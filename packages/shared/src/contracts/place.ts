@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { RoomObservationSchema } from "./roomObservation.js";
 
 /**
  * Place contract
@@ -10,6 +11,8 @@ export const PlaceSchema = z.object({
   notes: z.string().optional(),
   photoAssetId: z.string().optional(),
   embeddingId: z.string().optional(),
+  fingerprint: RoomObservationSchema.optional(), // Aggregated room observation used for recognition
+  observationCount: z.number().optional(), // Number of observations aggregated into the fingerprint
   createdAt: z.number(), // unix timestamp in milliseconds
   updatedAt: z.number(), // unix timestamp in milliseconds
 });
@@ -0,0 +1,50 @@
+import { z } from "zod";
+
+/**
+ * Relationship types, read as "this person is the patient's <type>"
+ * (or another person's, see PersonRelationship.personId)
+ */
+export const RelationshipTypeSchema = z.enum([
+  "parent",
+  "child",
+  "sibling",
+  "spouse",
+  "grandparent",
+  "grandchild",
+  "aunt_uncle",
+  "niece_nephew",
+  "cousin",
+  "friend",
+  "caregiver",
+  "doctor",
+  "neighbor",
+  "other",
+]);
+
+export type RelationshipType = z.infer<typeof RelationshipTypeSchema>;
+
+/**
+ * Typed relationship edge stored on a person
+ * Relative to the patient unless `personId` names another known person
+ * (e.g. Tom is the spouse of Sarah). `label` is the word used for them ("Nana", "Mum").
+ */
+export const PersonRelationshipSchema = z.object({
+  type: RelationshipTypeSchema,
+  label: z.string().optional(),
+  personId: z.string().optional(),
+});
+
+export type PersonRelationship = z.infer<typeof PersonRelationshipSchema>;
+
+/**
+ * Edge of the relationship graph as returned by GET /people/:id/relationships
+ * `toPersonId` is absent when the edge points at the patient.
+ */
+export const RelationshipEdgeSchema = z.object({
+  fromPersonId: z.string(),
+  toPersonId: z.string().optional(),
+  type: RelationshipTypeSchema,
+  label: z.string().optional(),
+});
+
+export type RelationshipEdge = z.infer<typeof RelationshipEdgeSchema>;
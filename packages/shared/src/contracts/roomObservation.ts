@@ -0,0 +1,49 @@
+import { z } from "zod";
+
+/**
+ * RoomObservation contract
+ * Structured description of a room's fixed features, produced by Overshoot
+ * and aggregated into a fingerprint used for room recognition
+ */
+export const RoomObservationSchema = z.object({
+  room_type: z.enum([
+    "bedroom",
+    "living_room",
+    "bathroom",
+    "kitchen",
+    "office",
+    "hallway",
+    "unknown",
+  ]),
+  fixed_elements: z.object({
+    major_furniture: z.array(
+      z.object({
+        name: z.string(),
+        count: z.number(),
+        attributes: z.array(z.string()),
+      })
+    ),
+    surfaces: z.object({
+      floor: z.object({ material: z.string(), color: z.string(), pattern: z.string() }),
+      walls: z.object({ color: z.string(), pattern: z.string() }),
+      ceiling: z.object({ color: z.string() }),
+    }),
+    lighting: z.array(
+      z.object({
+        type: z.string(),
+        count: z.number(),
+        attributes: z.array(z.string()),
+      })
+    ),
+    large_decor: z.array(
+      z.object({
+        name: z.string(),
+        attributes: z.array(z.string()),
+      })
+    ),
+  }),
+  distinctive_markers: z.array(z.string()),
+  summary: z.string(),
+});
+
+export type RoomObservation = z.infer<typeof RoomObservationSchema>;
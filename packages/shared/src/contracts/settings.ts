@@ -0,0 +1,31 @@
+import { z } from "zod";
+
+/**
+ * Patient settings contract
+ * Tuning for suggestion and recognition sensitivity, adjustable by caregivers per patient.
+ * Every field has a default, so an empty object parses to the stock behaviour.
+ */
+export const PatientSettingsSchema = z.object({
+  // Suggestion engine (API)
+  suggestionCooldownSeconds: z.number().int().min(0).max(3600).default(45), // Same name/relationship is not suggested again within this time
+  repeatWindowSeconds: z.number().int().min(0).max(600).default(20), // A transcript repeated within this time raises confidence
+  minConfidence: z.number().min(0).max(1).default(0.7), // Transcript confidence is clamped to [minConfidence, maxConfidence]
+  maxConfidence: z.number().min(0).max(1).default(0.95),
+
+  // Room recognition loop (web)
+  placeMatchThreshold: z.number().min(0).max(1).default(0.5), // Minimum fingerprint match score for a room
+  placeConsecutiveMatches: z.number().int().min(1).max(20).default(3), // Matches in a row before the room is announced
+  placeReminderCooldownSeconds: z.number().int().min(0).max(3600).default(30), // Quiet period after a room is announced
+  placeSuggestionDelaySeconds: z.number().int().min(0).max(3600).default(60), // Unrecognized this long -> identify_place suggestion (0 = never)
+
+  updatedAt: z.number().optional(), // unix timestamp in milliseconds; absent until first changed
+});
+
+export type PatientSettings = z.infer<typeof PatientSettingsSchema>;
+
+/**
+ * Settings update payload for PATCH /settings (only the fields to change)
+ */
+export const PatientSettingsUpdateSchema = PatientSettingsSchema.omit({ updatedAt: true }).partial().strict();
+
+export type PatientSettingsUpdate = z.infer<typeof PatientSettingsUpdateSchema>;
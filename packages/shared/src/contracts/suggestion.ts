@@ -1,4 +1,29 @@
 import { z } from "zod";
+import { RoomObservationSchema } from "./roomObservation.js";
+
+export const SuggestionTypeSchema = z.enum(["identify_person", "identify_place", "relationship_suggestion"]);
+
+export type SuggestionType = z.infer<typeof SuggestionTypeSchema>;
+
+/**
+ * Decision taken by a suggestion rule when the suggestion was created
+ * "hold" keeps it pending for a caregiver even if later rules would have decided it.
+ */
+export const SuggestionAutoDecisionSchema = z.object({
+  ruleId: z.string(),
+  ruleName: z.string(),
+  action: z.enum(["approve", "reject", "hold"]),
+  decidedAt: z.number(), // unix timestamp in milliseconds
+});
+
+export type SuggestionAutoDecision = z.infer<typeof SuggestionAutoDecisionSchema>;
+
+/**
+ * "expired": left pending past the expiry age, or collapsed into a near-identical pending suggestion
+ */
+export const SuggestionStatusSchema = z.enum(["pending", "approved", "rejected", "expired"]);
+
+export type SuggestionStatus = z.infer<typeof SuggestionStatusSchema>;
 
 /**
  * Suggestion contract
@@ -6,8 +31,8 @@ import { z } from "zod";
  */
 export const SuggestionSchema = z.object({
   id: z.string(),
-  status: z.enum(["pending", "approved", "rejected"]),
-  type: z.enum(["identify_person", "identify_place", "relationship_suggestion"]),
+  status: SuggestionStatusSchema,
+  type: SuggestionTypeSchema,
   createdAt: z.number(), // unix timestamp in milliseconds
   updatedAt: z.number(), // unix timestamp in milliseconds
   text: z.string(), // human-readable description
@@ -25,7 +50,14 @@ export const SuggestionSchema = z.object({
     frameAssetId: z.string().optional(),
     confidence: z.number().optional(),
     duplicateFlag: z.boolean().optional(), // Flag if uncertain if this is a duplicate person
+    roomObservation: RoomObservationSchema.optional(), // identify_place: aggregated view of the unrecognized room
+    observationCount: z.number().int().min(1).optional(), // identify_place: observations aggregated into it
   }),
+  autoDecision: SuggestionAutoDecisionSchema.optional(), // Set when a rule decided (or held) it
+  occurrences: z.number().int().min(1).optional(), // Near-identical suggestions this one stands for (absent = 1)
+  lastSeenAt: z.number().optional(), // unix timestamp in milliseconds of the latest occurrence
+  collapsedInto: z.string().optional(), // Set on expired suggestions merged into another one
+  decidedAt: z.number().optional(), // unix timestamp in milliseconds of the approval or rejection
 });
 
 export type Suggestion = z.infer<typeof SuggestionSchema>;
@@ -35,7 +67,7 @@ export type Suggestion = z.infer<typeof SuggestionSchema>;
  * Used when creating new suggestions via API
  */
 export const SuggestionCreateSchema = z.object({
-  type: z.enum(["identify_person", "identify_place", "relationship_suggestion"]),
+  type: SuggestionTypeSchema,
   text: z.string(),
   related: z.object({
     personId: z.string().optional(),
@@ -51,7 +83,109 @@ export const SuggestionCreateSchema = z.object({
     frameAssetId: z.string().optional(),
     confidence: z.number().optional(),
     duplicateFlag: z.boolean().optional(), // Flag if uncertain if this is a duplicate person
+    roomObservation: RoomObservationSchema.optional(), // identify_place: aggregated view of the unrecognized room
+    observationCount: z.number().int().min(1).optional(), // identify_place: observations aggregated into it
   }),
 });
 
 export type SuggestionCreate = z.infer<typeof SuggestionCreateSchema>;
+
+/**
+ * Optional caregiver edits sent with POST /suggestions/:id/approve
+ * Omitted fields keep the proposed values. With `personId` the suggestion is applied to that
+ * existing person, who keeps their name and notes unless `displayName`/`notes` are given.
+ */
+export const SuggestionApproveSchema = z.object({
+  remindersEnabled: z.boolean().optional(),
+  displayName: z.string().trim().max(100).optional(), // Allow caregiver to edit name
+  relationship: z.string().trim().max(100).optional(), // "" approves without a relationship
+  notes: z.string().max(2000).optional(), // replaces the note generated from the transcript
+  personId: z.string().min(1).optional(), // attach to this person instead of matching by name
+  photo: z.enum(["add", "primary", "none"]).optional(), // what to do with the evidence frame (default "add")
+});
+
+export type SuggestionApprove = z.infer<typeof SuggestionApproveSchema>;
+
+/**
+ * Body of POST /suggestions/bulk
+ * `overrides` holds approval edits keyed by suggestion ID, so it only applies to "approve".
+ */
+export const SuggestionBulkRequestSchema = z
+  .object({
+    action: z.enum(["approve", "reject"]),
+    ids: z.array(z.string().min(1)).min(1).max(200),
+    overrides: z.record(SuggestionApproveSchema).optional(),
+  })
+  .refine((body) => !body.overrides || body.action === "approve", {
+    message: "overrides are only allowed when approving",
+    path: ["overrides"],
+  })
+  .refine((body) => Object.keys(body.overrides ?? {}).every((id) => body.ids.includes(id)), {
+    message: "overrides must refer to listed ids",
+    path: ["overrides"],
+  });
+
+export type SuggestionBulkRequest = z.infer<typeof SuggestionBulkRequestSchema>;
+
+/**
+ * Outcome of POST /suggestions/bulk
+ * The request is all or nothing: when any item fails, `applied` is false, the failing items
+ * carry an error and the rest are "skipped" (never changed, or rolled back).
+ */
+export const SuggestionBulkResultSchema = z.object({
+  applied: z.boolean(),
+  results: z.array(
+    z.object({
+      id: z.string(),
+      outcome: z.enum(["applied", "failed", "skipped"]),
+      error: z.string().optional(),
+      suggestion: SuggestionSchema.optional(), // as stored after the request
+    })
+  ),
+});
+
+export type SuggestionBulkResult = z.infer<typeof SuggestionBulkResultSchema>;
+
+/**
+ * Query parameters for GET /suggestions
+ * Numbers are coerced so the same schema parses query strings on the API. `status` may repeat
+ * (`?status=approved&status=rejected`). `q` searches `text` and `evidence.transcriptSnippet`
+ * case-insensitively; `createdFrom`/`createdTo` bound `createdAt` (inclusive, ms).
+ */
+export const SuggestionListQuerySchema = z.object({
+  status: z.union([SuggestionStatusSchema, z.array(SuggestionStatusSchema)]).optional(),
+  type: SuggestionTypeSchema.optional(),
+  personId: z.string().min(1).optional(),
+  q: z.string().trim().min(1).optional(),
+  createdFrom: z.coerce.number().optional(),
+  createdTo: z.coerce.number().optional(),
+  minOccurrences: z.coerce.number().int().min(1).optional(),
+  collapsedInto: z.string().min(1).optional(),
+  sort: z.enum(["createdAt", "updatedAt"]).default("createdAt"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  cursor: z.string().min(1).optional(), // nextCursor from the previous page
+});
+
+export type SuggestionListQuery = z.input<typeof SuggestionListQuerySchema>;
+
+/**
+ * One page of GET /suggestions; `nextCursor` is absent on the last page
+ */
+export const SuggestionPageSchema = z.object({
+  items: z.array(SuggestionSchema),
+  nextCursor: z.string().optional(),
+});
+
+export type SuggestionPage = z.infer<typeof SuggestionPageSchema>;
+
+/**
+ * Suggestion change event
+ * Pushed to caregiver clients over the GET /suggestions/stream Server-Sent Events channel
+ */
+export const SuggestionEventSchema = z.object({
+  type: z.enum(["created", "updated", "approved", "rejected", "reverted", "expired"]), // reverted: back to pending after an undo
+  suggestion: SuggestionSchema,
+});
+
+export type SuggestionEvent = z.infer<typeof SuggestionEventSchema>;
@@ -0,0 +1,46 @@
+import { z } from "zod";
+import { SuggestionTypeSchema } from "./suggestion.js";
+
+/**
+ * Conditions a new suggestion must meet for a rule to fire (all that are set)
+ */
+export const SuggestionRuleConditionsSchema = z.object({
+  types: z.array(SuggestionTypeSchema).min(1).optional(), // any type when unset
+  minConfidence: z.number().min(0).max(1).optional(), // evidence.confidence >= minConfidence
+  maxConfidence: z.number().min(0).max(1).optional(), // evidence.confidence < maxConfidence
+  knownPerson: z.boolean().optional(), // true: refers to an existing person (related.personId); false: does not
+});
+
+export type SuggestionRuleConditions = z.infer<typeof SuggestionRuleConditionsSchema>;
+
+/**
+ * Suggestion rule contract
+ * Evaluated in priority order (lowest first) when a suggestion is created; the first enabled
+ * rule whose conditions match approves, rejects or holds the suggestion for review.
+ */
+export const SuggestionRuleSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1),
+  action: z.enum(["approve", "reject", "hold"]),
+  conditions: SuggestionRuleConditionsSchema,
+  priority: z.number().int().default(0),
+  enabled: z.boolean().default(true),
+  createdAt: z.number(), // unix timestamp in milliseconds
+  updatedAt: z.number(), // unix timestamp in milliseconds
+});
+
+export type SuggestionRule = z.infer<typeof SuggestionRuleSchema>;
+
+/**
+ * Rule creation payload (omits id and timestamps)
+ */
+export const SuggestionRuleCreateSchema = SuggestionRuleSchema.omit({ id: true, createdAt: true, updatedAt: true });
+
+export type SuggestionRuleCreate = z.input<typeof SuggestionRuleCreateSchema>;
+
+/**
+ * Rule update payload for PATCH /suggestion-rules/:id (only the fields to change)
+ */
+export const SuggestionRuleUpdateSchema = SuggestionRuleCreateSchema.partial();
+
+export type SuggestionRuleUpdate = z.input<typeof SuggestionRuleUpdateSchema>;
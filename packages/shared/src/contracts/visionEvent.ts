@@ -19,3 +19,13 @@ export const VisionEventSchema = z.object({
 });
 
 export type VisionEvent = z.infer<typeof VisionEventSchema>;
+
+/**
+ * VisionEvent creation payload (omits id; timestamp defaults to the time of ingestion)
+ * Used when posting new vision events via API
+ */
+export const VisionEventCreateSchema = VisionEventSchema.omit({ id: true, timestamp: true }).extend({
+  timestamp: z.number().optional(),
+});
+
+export type VisionEventCreate = z.infer<typeof VisionEventCreateSchema>;
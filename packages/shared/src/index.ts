@@ -2,8 +2,12 @@
  * CueLens Shared Types and Schemas
  *
  * This package contains shared TypeScript types and Zod schemas
- * (data contracts) that are used across the web app and API.
+ * (data contracts) that are used across the web app and API, plus
+ * typed clients for API endpoints.
  */
 
 // Re-export all contracts
 export * from "./contracts/index.js";
+
+// Typed API clients built on the contracts
+export * from "./client/index.js";